@@ -0,0 +1,172 @@
+import { z } from "zod";
+import {
+  Cassette,
+  CassetteMismatchError,
+  createMatcher,
+  parseCassette,
+  RecordingTransport,
+  ReplayTransport,
+  serializeCassette,
+} from "./cassette.js";
+import { Client } from "./client/index.js";
+import { InMemoryTransport } from "./inMemory.js";
+import { McpServer } from "./server/mcp.js";
+import { Transport } from "./shared/transport.js";
+import { JSONRPCMessage, LATEST_PROTOCOL_VERSION } from "./types.js";
+
+async function recordSession(): Promise<Cassette> {
+  const server = new McpServer({ name: "recorded-server", version: "1.0.0" });
+  server.tool("greet", { name: z.string() }, async ({ name }, extra) => {
+    // The client uses the request ID of tools/call as its progress token
+    await extra.sendNotification({
+      method: "notifications/progress",
+      params: { progressToken: 1, progress: 1, total: 1 },
+    });
+    return { content: [{ type: "text", text: `Hello, ${name}!` }] };
+  });
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  let saved: Cassette | undefined;
+  const recording = new RecordingTransport(clientTransport, {
+    save: (cassette) => {
+      saved = cassette;
+    },
+  });
+
+  const client = new Client({ name: "recording-client", version: "1.0.0" });
+  await Promise.all([server.connect(serverTransport), client.connect(recording)]);
+  await client.callTool({ name: "greet", arguments: { name: "Ada" } }, undefined, { onprogress: () => {} });
+  await client.close();
+  await new Promise((resolve) => setTimeout(resolve, 0));
+
+  return saved!;
+}
+
+describe("RecordingTransport", () => {
+  it("records both directions and saves the cassette on close", async () => {
+    const cassette = await recordSession();
+
+    expect(cassette.version).toBe(1);
+    expect(cassette.entries.map(({ direction, message }) => [direction, "method" in message ? message.method : "result"])).toEqual([
+      ["send", "initialize"],
+      ["receive", "result"],
+      ["send", "notifications/initialized"],
+      ["send", "tools/call"],
+      ["receive", "notifications/progress"],
+      ["receive", "result"],
+    ]);
+    expect(cassette.entries.every(({ timestamp }) => timestamp >= 0)).toBe(true);
+    expect(parseCassette(serializeCassette(cassette))).toEqual(cassette);
+  });
+
+  it("passes the negotiated protocol version to the inner transport", async () => {
+    const server = new McpServer({ name: "recorded-server", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const setProtocolVersion = jest.fn();
+    const recording = new RecordingTransport(Object.assign(clientTransport, { setProtocolVersion }));
+
+    const client = new Client({ name: "recording-client", version: "1.0.0" });
+    await Promise.all([server.connect(serverTransport), client.connect(recording)]);
+
+    expect(setProtocolVersion).toHaveBeenCalledWith(LATEST_PROTOCOL_VERSION);
+    await client.close();
+  });
+
+  it("installs the reconnect hook on the inner transport", () => {
+    const [clientTransport] = InMemoryTransport.createLinkedPair();
+    const recording = new RecordingTransport(clientTransport);
+    const onreconnect = async () => {};
+
+    recording.onreconnect = onreconnect;
+
+    expect((clientTransport as Transport).onreconnect).toBe(onreconnect);
+  });
+});
+
+describe("ReplayTransport", () => {
+  it("plays a recorded session back to a client", async () => {
+    const cassette = await recordSession();
+    const replay = new ReplayTransport(cassette);
+    const client = new Client({ name: "recording-client", version: "1.0.0" });
+
+    await client.connect(replay);
+    expect(client.getServerVersion()).toEqual({ name: "recorded-server", version: "1.0.0" });
+    expect(replay.protocolVersion).toBe(LATEST_PROTOCOL_VERSION);
+
+    const onprogress = jest.fn();
+    const result = await client.callTool({ name: "greet", arguments: { name: "Ada" } }, undefined, { onprogress });
+    expect(onprogress).toHaveBeenCalledWith({ progress: 1, total: 1 });
+    expect(result.content).toEqual([{ type: "text", text: "Hello, Ada!" }]);
+
+    replay.assertDone();
+    await client.close();
+  });
+
+  it("rejects a message that does not match the recording with a diff", async () => {
+    const cassette = await recordSession();
+    const replay = new ReplayTransport(cassette);
+    const client = new Client({ name: "recording-client", version: "1.0.0" });
+    await client.connect(replay);
+
+    const error = await client
+      .callTool({ name: "greet", arguments: { name: "Grace" } }, undefined, { onprogress: () => {} })
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(CassetteMismatchError);
+    expect(error.message).toContain('-       "name": "Ada"');
+    expect(error.message).toContain('+       "name": "Grace"');
+    expect(() => replay.assertDone()).toThrow("Cassette not finished");
+    await client.close();
+  });
+
+  it("can ignore request IDs and progress tokens, and translates them in replies", async () => {
+    const cassette = await recordSession();
+    const replay = new ReplayTransport(cassette, { matcher: { ignoreRequestIds: true, ignoreProgressTokens: true } });
+    const received: JSONRPCMessage[] = [];
+    replay.onmessage = (message) => received.push(message);
+    await replay.start();
+
+    const [initialize, , initialized, callTool] = cassette.entries.map(({ message }) => message);
+    await replay.send({ ...initialize, id: "a" } as JSONRPCMessage);
+    await replay.send(initialized);
+    await replay.send({
+      jsonrpc: "2.0",
+      id: "b",
+      method: "tools/call",
+      params: { name: "greet", arguments: { name: "Ada" }, _meta: { progressToken: "token-b" } },
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect("id" in callTool && callTool.id).toBe(1);
+    expect(received).toEqual([
+      expect.objectContaining({ id: "a" }),
+      expect.objectContaining({ method: "notifications/progress", params: expect.objectContaining({ progressToken: "token-b" }) }),
+      expect.objectContaining({ id: "b" }),
+    ]);
+    replay.assertDone();
+  });
+
+  it("rejects messages sent after the end of the recording", async () => {
+    const replay = new ReplayTransport({ version: 1, recordedAt: new Date().toISOString(), entries: [] });
+    await replay.start();
+
+    await expect(replay.send({ jsonrpc: "2.0", method: "notifications/initialized" })).rejects.toThrow(
+      "unexpected message after the end of the recording",
+    );
+  });
+});
+
+describe("createMatcher", () => {
+  const recorded: JSONRPCMessage = { jsonrpc: "2.0", id: 1, method: "ping", params: { _meta: { progressToken: 1 } } };
+  const actual: JSONRPCMessage = { jsonrpc: "2.0", id: 2, method: "ping", params: { _meta: { progressToken: 2 } } };
+
+  it("requires an exact match by default", () => {
+    expect(createMatcher()(recorded, recorded)).toBe(true);
+    expect(createMatcher()(recorded, actual)).toBe(false);
+  });
+
+  it("ignores request IDs and progress tokens when asked", () => {
+    expect(createMatcher({ ignoreRequestIds: true })(recorded, actual)).toBe(false);
+    expect(createMatcher({ ignoreRequestIds: true, ignoreProgressTokens: true })(recorded, actual)).toBe(true);
+  });
+});
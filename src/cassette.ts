@@ -0,0 +1,448 @@
+import { z } from "zod";
+import { AuthInfo } from "./shared/auth.js";
+import { Transport, TransportSendOptions } from "./shared/transport.js";
+import {
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  RequestId,
+} from "./types.js";
+
+export const CassetteEntrySchema = z.object({
+  /**
+   * `send` for messages sent by the recorded side, `receive` for messages it received.
+   */
+  direction: z.enum(["send", "receive"]),
+  /**
+   * Milliseconds since the recording started.
+   */
+  timestamp: z.number(),
+  message: JSONRPCMessageSchema,
+});
+
+export const CassetteSchema = z.object({
+  version: z.literal(1),
+  /**
+   * When the recording started, as an ISO 8601 string.
+   */
+  recordedAt: z.string(),
+  entries: z.array(CassetteEntrySchema),
+});
+
+export type CassetteEntry = z.infer<typeof CassetteEntrySchema>;
+export type Cassette = z.infer<typeof CassetteSchema>;
+
+/**
+ * Serializes a cassette to JSON, e.g. to write it to a file.
+ */
+export function serializeCassette(cassette: Cassette): string {
+  return JSON.stringify(cassette, null, 2);
+}
+
+/**
+ * Parses and validates a cassette previously written with `serializeCassette()`.
+ */
+export function parseCassette(json: string): Cassette {
+  return CassetteSchema.parse(JSON.parse(json));
+}
+
+/**
+ * Configuration options for the `RecordingTransport`.
+ */
+export type RecordingTransportOptions = {
+  /**
+   * Called with the complete cassette when the transport closes, e.g. to write it to a file.
+   */
+  save?: (cassette: Cassette) => void | Promise<void>;
+};
+
+/**
+ * Wraps any transport and records every message sent and received, with its direction and timestamp.
+ *
+ * The recording is available from `cassette` at any time, and is passed to the `save` option when the transport closes.
+ *
+ * Usage example:
+ *
+ * ```typescript
+ * const transport = new RecordingTransport(new StreamableHTTPClientTransport(url), {
+ *   save: (cassette) => fs.writeFile("fixtures/server.json", serializeCassette(cassette)),
+ * });
+ * await client.connect(transport);
+ * ```
+ */
+export class RecordingTransport implements Transport {
+  private _inner: Transport;
+  private _save?: RecordingTransportOptions["save"];
+  private _startedAt = Date.now();
+  private _recordedAt = new Date(this._startedAt).toISOString();
+  private _entries: CassetteEntry[] = [];
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage, extra?: { authInfo?: AuthInfo }) => void;
+
+  constructor(inner: Transport, options?: RecordingTransportOptions) {
+    this._inner = inner;
+    this._save = options?.save;
+
+    this._inner.onmessage = (message, extra) => {
+      this._record("receive", message);
+      this.onmessage?.(message, extra);
+    };
+    this._inner.onerror = (error) => this.onerror?.(error);
+    this._inner.onclose = () => this._handleClose();
+  }
+
+  get sessionId(): string | undefined {
+    return this._inner.sessionId;
+  }
+
+  /**
+   * The messages recorded so far.
+   */
+  get cassette(): Cassette {
+    return { version: 1, recordedAt: this._recordedAt, entries: [...this._entries] };
+  }
+
+  setProtocolVersion(version: string): void {
+    this._inner.setProtocolVersion?.(version);
+  }
+
+  get onreconnect(): (() => Promise<void>) | undefined {
+    return this._inner.onreconnect;
+  }
+
+  set onreconnect(onreconnect: (() => Promise<void>) | undefined) {
+    this._inner.onreconnect = onreconnect;
+  }
+
+  start(): Promise<void> {
+    return this._inner.start();
+  }
+
+  close(): Promise<void> {
+    return this._inner.close();
+  }
+
+  async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    this._record("send", message);
+    await this._inner.send(message, options);
+  }
+
+  private _record(direction: CassetteEntry["direction"], message: JSONRPCMessage): void {
+    this._entries.push({ direction, timestamp: Date.now() - this._startedAt, message: structuredClone(message) });
+  }
+
+  private _handleClose(): void {
+    if (this._save) {
+      Promise.resolve()
+        .then(() => this._save!(this.cassette))
+        .catch((error) => this.onerror?.(error as Error));
+    }
+
+    this.onclose?.();
+  }
+}
+
+/**
+ * Decides whether a message sent during replay matches the message that was recorded.
+ */
+export type CassetteMatcher = (expected: JSONRPCMessage, actual: JSONRPCMessage) => boolean;
+
+/**
+ * Options for `createMatcher()`.
+ */
+export type CassetteMatcherOptions = {
+  /**
+   * Ignore the `id` of requests and responses, which depends on how many requests were sent before.
+   */
+  ignoreRequestIds?: boolean;
+
+  /**
+   * Ignore `params._meta.progressToken`, which defaults to the request ID.
+   */
+  ignoreProgressTokens?: boolean;
+};
+
+/**
+ * Creates a matcher that compares messages structurally, optionally ignoring request IDs and progress tokens.
+ */
+export function createMatcher(options?: CassetteMatcherOptions): CassetteMatcher {
+  return (expected, actual) => {
+    const [expectedJson, actualJson] = [expected, actual].map((message) => canonicalJson(normalize(message, options)));
+    return expectedJson === actualJson;
+  };
+}
+
+/**
+ * Thrown by `ReplayTransport` when the client sends a message that does not match the recording.
+ */
+export class CassetteMismatchError extends Error {
+  constructor(
+    public readonly expected: JSONRPCMessage | undefined,
+    public readonly actual: JSONRPCMessage,
+    options?: CassetteMatcherOptions,
+  ) {
+    super(
+      expected === undefined
+        ? `Cassette mismatch: unexpected message after the end of the recording:\n${canonicalJson(actual)}`
+        : `Cassette mismatch: sent message does not match the recording (- expected, + actual):\n${diffLines(
+            canonicalJson(normalize(expected, options)),
+            canonicalJson(normalize(actual, options)),
+          )}`,
+    );
+  }
+}
+
+/**
+ * Configuration options for the `ReplayTransport`.
+ */
+export type ReplayTransportOptions = {
+  /**
+   * How sent messages are compared with the recording. Default is `createMatcher()`, which requires an exact match.
+   *
+   * Passing `CassetteMatcherOptions` creates a matcher with those options, and also uses them to produce the mismatch diff.
+   */
+  matcher?: CassetteMatcher | CassetteMatcherOptions;
+};
+
+/**
+ * Plays back a cassette recorded with `RecordingTransport`, standing in for the real transport in tests.
+ *
+ * Each message sent must match the next recorded `send` entry, after which the recorded `receive` entries that followed it
+ * are delivered. A message that does not match rejects `send()` with a `CassetteMismatchError`.
+ *
+ * Request IDs and progress tokens in the replayed messages are translated to the ones actually sent, so recordings can
+ * be matched while ignoring them.
+ */
+export class ReplayTransport implements Transport {
+  private _entries: CassetteEntry[];
+  private _position = 0;
+  private _matcher: CassetteMatcher;
+  private _matcherOptions?: CassetteMatcherOptions;
+  private _requestIds = new Map<RequestId, RequestId>();
+  private _progressTokens = new Map<string | number, string | number>();
+  private _started = false;
+  private _closed = false;
+  private _protocolVersion?: string;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(cassette: Cassette, options?: ReplayTransportOptions) {
+    this._entries = cassette.entries;
+    if (typeof options?.matcher === "function") {
+      this._matcher = options.matcher;
+    } else {
+      this._matcherOptions = options?.matcher;
+      this._matcher = createMatcher(this._matcherOptions);
+    }
+  }
+
+  /**
+   * Whether every recorded entry has been played back.
+   */
+  get done(): boolean {
+    return this._position >= this._entries.length;
+  }
+
+  /**
+   * The protocol version negotiated during the replayed initialization, as a real transport would have been told.
+   */
+  get protocolVersion(): string | undefined {
+    return this._protocolVersion;
+  }
+
+  setProtocolVersion(version: string): void {
+    this._protocolVersion = version;
+  }
+
+  /**
+   * Throws if any recorded entry has not been played back, e.g. at the end of a test.
+   */
+  assertDone(): void {
+    if (!this.done) {
+      const remaining = this._entries.length - this._position;
+      throw new Error(
+        `Cassette not finished: ${remaining} recorded message(s) remain, starting with:\n${canonicalJson(this._entries[this._position].message)}`,
+      );
+    }
+  }
+
+  async start(): Promise<void> {
+    if (this._started) {
+      throw new Error(
+        "ReplayTransport already started! If using Client class, note that connect() calls start() automatically.",
+      );
+    }
+
+    this._started = true;
+    this._scheduleReceived();
+  }
+
+  async close(): Promise<void> {
+    if (this._closed) {
+      return;
+    }
+
+    this._closed = true;
+    this.onclose?.();
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this._started || this._closed) {
+      throw new Error("Not connected");
+    }
+
+    const entry = this._entries[this._position];
+    if (entry?.direction !== "send" || !this._matcher(entry.message, message)) {
+      throw new CassetteMismatchError(entry?.direction === "send" ? entry.message : undefined, message, this._matcherOptions);
+    }
+
+    this._position++;
+    this._mapIdentifiers(entry.message, message);
+    this._scheduleReceived();
+  }
+
+  /**
+   * Remembers which request ID and progress token were actually sent in place of the recorded ones.
+   */
+  private _mapIdentifiers(recorded: JSONRPCMessage, actual: JSONRPCMessage): void {
+    if (isJSONRPCRequest(recorded) && isJSONRPCRequest(actual)) {
+      this._requestIds.set(recorded.id, actual.id);
+
+      const recordedToken = recorded.params?._meta?.progressToken;
+      const actualToken = actual.params?._meta?.progressToken;
+      if (recordedToken !== undefined && actualToken !== undefined) {
+        this._progressTokens.set(recordedToken, actualToken);
+      }
+    }
+  }
+
+  /**
+   * Delivers the recorded messages received up to the next recorded `send`.
+   */
+  private _scheduleReceived(): void {
+    const received: JSONRPCMessage[] = [];
+    while (this._entries[this._position]?.direction === "receive") {
+      received.push(this._translate(this._entries[this._position].message));
+      this._position++;
+    }
+
+    if (received.length === 0) {
+      return;
+    }
+
+    // Each message is delivered in its own task, as notifications are handled asynchronously and must not be overtaken
+    // by the response that follows them.
+    const deliverNext = () => {
+      const message = received.shift();
+      if (message === undefined || this._closed) {
+        return;
+      }
+
+      this.onmessage?.(message);
+      setTimeout(deliverNext, 0);
+    };
+    setTimeout(deliverNext, 0);
+  }
+
+  private _translate(recorded: JSONRPCMessage): JSONRPCMessage {
+    const message = structuredClone(recorded);
+
+    if ((isJSONRPCResponse(message) || isJSONRPCError(message)) && this._requestIds.has(message.id)) {
+      message.id = this._requestIds.get(message.id)!;
+    }
+
+    if ("method" in message && message.params) {
+      const params = message.params as Record<string, unknown>;
+      if (message.method === "notifications/progress" && this._progressTokens.has(params.progressToken as string | number)) {
+        params.progressToken = this._progressTokens.get(params.progressToken as string | number);
+      }
+      if (message.method === "notifications/cancelled" && this._requestIds.has(params.requestId as RequestId)) {
+        params.requestId = this._requestIds.get(params.requestId as RequestId);
+      }
+    }
+
+    return message;
+  }
+}
+
+function normalize(message: JSONRPCMessage, options?: CassetteMatcherOptions): unknown {
+  const normalized = structuredClone(message) as Record<string, unknown>;
+
+  if (options?.ignoreRequestIds && "id" in normalized) {
+    delete normalized.id;
+  }
+
+  const params = normalized.params as { _meta?: Record<string, unknown> } | undefined;
+  if (options?.ignoreProgressTokens && params?._meta && "progressToken" in params._meta) {
+    delete params._meta.progressToken;
+    if (Object.keys(params._meta).length === 0) {
+      delete params._meta;
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Serializes a value as pretty-printed JSON with object keys sorted, so equal values produce equal strings.
+ */
+function canonicalJson(value: unknown): string {
+  const sortKeys = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(sortKeys);
+    }
+
+    if (typeof value === "object" && value !== null) {
+      return Object.fromEntries(
+        Object.keys(value)
+          .sort()
+          .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])]),
+      );
+    }
+
+    return value;
+  };
+
+  return JSON.stringify(sortKeys(value), null, 2);
+}
+
+/**
+ * Produces a line diff of two strings, marking removed lines with `-` and added lines with `+`.
+ */
+function diffLines(expected: string, actual: string): string {
+  const a = expected.split("\n");
+  const b = actual.split("\n");
+
+  // Longest common subsequence table
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push(`  ${a[i]}`);
+      i++;
+      j++;
+    } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push(`- ${a[i]}`);
+      i++;
+    } else {
+      lines.push(`+ ${b[j]}`);
+      j++;
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -5,6 +5,7 @@ import {
   refreshAuthorization,
   registerClient,
 } from "./auth.js";
+import { LATEST_PROTOCOL_VERSION } from "../types.js";
 
 // Mock fetch globally
 const mockFetch = jest.fn();
@@ -39,7 +40,7 @@ describe("OAuth Authorization", () => {
       const [url, options] = calls[0];
       expect(url.toString()).toBe("https://auth.example.com/.well-known/oauth-authorization-server");
       expect(options.headers).toEqual({
-        "MCP-Protocol-Version": "2024-11-05"
+        "MCP-Protocol-Version": LATEST_PROTOCOL_VERSION
       });
     });
 
@@ -0,0 +1,219 @@
+import { InMemoryTransport } from "../inMemory.js";
+import { Server } from "../server/index.js";
+import { CallToolRequestSchema, LATEST_PROTOCOL_VERSION, ToolListChangedNotificationSchema } from "../types.js";
+import { BroadcastChannelTransport, LeaderLockManager } from "./broadcastChannel.js";
+import { Client } from "./index.js";
+
+/**
+ * An in-process stand-in for `navigator.locks`: one holder per lock name, with waiters granted in order.
+ */
+class FakeLockManager implements LeaderLockManager {
+  private _held = new Set<string>();
+  private _waiters = new Map<string, (() => void)[]>();
+
+  async request(name: string, options: { signal?: AbortSignal }, callback: () => Promise<void>): Promise<unknown> {
+    await this._acquire(name, options.signal);
+    try {
+      return await callback();
+    } finally {
+      this._release(name);
+    }
+  }
+
+  private _acquire(name: string, signal?: AbortSignal): Promise<void> {
+    if (!this._held.has(name)) {
+      this._held.add(name);
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiters = this._waiters.get(name) ?? [];
+      this._waiters.set(name, waiters);
+
+      const grant = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        waiters.splice(waiters.indexOf(grant), 1);
+        reject(new Error("Lock request aborted"));
+      };
+
+      signal?.addEventListener("abort", onAbort);
+      waiters.push(grant);
+    });
+  }
+
+  private _release(name: string): void {
+    const next = this._waiters.get(name)?.shift();
+    if (next) {
+      next();
+    } else {
+      this._held.delete(name);
+    }
+  }
+}
+
+describe("BroadcastChannelTransport", () => {
+  let lockManager: FakeLockManager;
+  let servers: Server[];
+  let initializeCount: number;
+  let transports: BroadcastChannelTransport[];
+  // The protocol versions passed to each upstream transport
+  let protocolVersions: string[][];
+  let channelIndex = 0;
+
+  const createUpstream = () => {
+    const server = new Server(
+      { name: "shared-server", version: "1.0.0" },
+      { capabilities: { tools: { listChanged: true } } },
+    );
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const progressToken = request.params._meta?.progressToken;
+      if (progressToken !== undefined) {
+        await extra.sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress: 1, total: 2 },
+        });
+      }
+      return { content: [{ type: "text", text: String(request.params.arguments?.tab) }] };
+    });
+    server.oninitialized = () => initializeCount++;
+    servers.push(server);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    void server.connect(serverTransport);
+    const versions: string[] = [];
+    protocolVersions.push(versions);
+    return Object.assign(clientTransport, { setProtocolVersion: (version: string) => versions.push(version) });
+  };
+
+  const createTab = async () => {
+    const transport = new BroadcastChannelTransport({
+      channelName: `mcp-test-${channelIndex}`,
+      createUpstream,
+      lockManager,
+    });
+    transports.push(transport);
+
+    const client = new Client({ name: "tab-client", version: "1.0.0" });
+    await client.connect(transport);
+    return { client, transport };
+  };
+
+  beforeEach(() => {
+    channelIndex++;
+    lockManager = new FakeLockManager();
+    servers = [];
+    initializeCount = 0;
+    transports = [];
+    protocolVersions = [];
+  });
+
+  afterEach(async () => {
+    for (const transport of transports) {
+      await transport.close();
+    }
+  });
+
+  it("elects one leader and shares a single upstream session", async () => {
+    const tabA = await createTab();
+    const tabB = await createTab();
+
+    expect(tabA.transport.isLeader).toBe(true);
+    expect(tabB.transport.isLeader).toBe(false);
+    expect(servers).toHaveLength(1);
+    expect(initializeCount).toBe(1);
+    expect(tabB.client.getServerVersion()).toEqual({ name: "shared-server", version: "1.0.0" });
+  });
+
+  it("routes responses to the tab that sent the request", async () => {
+    const tabA = await createTab();
+    const tabB = await createTab();
+
+    // Both clients use the same request IDs, which the leader rewrites
+    const [resultA, resultB] = await Promise.all([
+      tabA.client.callTool({ name: "whoami", arguments: { tab: "A" } }),
+      tabB.client.callTool({ name: "whoami", arguments: { tab: "B" } }),
+    ]);
+
+    expect(resultA.content).toEqual([{ type: "text", text: "A" }]);
+    expect(resultB.content).toEqual([{ type: "text", text: "B" }]);
+  });
+
+  it("routes progress notifications to the requesting tab", async () => {
+    await createTab();
+    const tabB = await createTab();
+    const onprogress = jest.fn();
+
+    await tabB.client.callTool({ name: "whoami", arguments: { tab: "B" } }, undefined, { onprogress });
+
+    expect(onprogress).toHaveBeenCalledWith({ progress: 1, total: 2 });
+  });
+
+  it("delivers server notifications to every tab", async () => {
+    const tabA = await createTab();
+    const tabB = await createTab();
+    const received = jest.fn();
+    const bothReceived = new Promise<void>((resolve) => {
+      let count = 0;
+      const handler = (name: string) => () => {
+        received(name);
+        if (++count === 2) {
+          resolve();
+        }
+      };
+      tabA.client.setNotificationHandler(ToolListChangedNotificationSchema, handler("A"));
+      tabB.client.setNotificationHandler(ToolListChangedNotificationSchema, handler("B"));
+    });
+
+    await servers[0].sendToolListChanged();
+    await bothReceived;
+
+    expect(received).toHaveBeenCalledWith("A");
+    expect(received).toHaveBeenCalledWith("B");
+  });
+
+  it("fails over to another tab when the leader closes", async () => {
+    const tabA = await createTab();
+    const tabB = await createTab();
+    const becameLeader = new Promise<void>((resolve) => {
+      tabB.transport.onLeaderChange(({ isLeader }) => isLeader && resolve());
+    });
+
+    await tabA.transport.close();
+    await becameLeader;
+
+    expect(tabB.transport.isLeader).toBe(true);
+    expect(servers).toHaveLength(2);
+
+    const result = await tabB.client.callTool({ name: "whoami", arguments: { tab: "B" } });
+    expect(result.content).toEqual([{ type: "text", text: "B" }]);
+    expect(initializeCount).toBe(2);
+  });
+
+  it("passes the negotiated protocol version to the upstream transport, including after failover", async () => {
+    const tabA = await createTab();
+    const tabB = await createTab();
+    expect(protocolVersions).toEqual([[LATEST_PROTOCOL_VERSION]]);
+
+    const becameLeader = new Promise<void>((resolve) => {
+      tabB.transport.onLeaderChange(({ isLeader }) => isLeader && resolve());
+    });
+    await tabA.transport.close();
+    await becameLeader;
+
+    expect(protocolVersions[1][0]).toBe(LATEST_PROTOCOL_VERSION);
+  });
+
+  it("closes every tab when the upstream connection closes", async () => {
+    await createTab();
+    const tabB = await createTab();
+    const closed = new Promise<void>((resolve) => {
+      tabB.client.onclose = resolve;
+    });
+
+    await servers[0].close();
+    await closed;
+  });
+});
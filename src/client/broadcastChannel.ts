@@ -0,0 +1,539 @@
+import { createEventNotifier } from "../shared/eventNotifier.js";
+import { Transport } from "../shared/transport.js";
+import {
+  ErrorCode,
+  isJSONRPCError,
+  isJSONRPCNotification,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  JSONRPCRequest,
+  ProgressToken,
+  RequestId,
+  Result,
+} from "../types.js";
+
+const DEFAULT_CHANNEL_NAME = "mcp";
+
+/**
+ * The subset of the Web Locks API (`navigator.locks`) used for leader election.
+ */
+export type LeaderLockManager = {
+  request(name: string, options: { signal?: AbortSignal }, callback: () => Promise<void>): Promise<unknown>;
+};
+
+/**
+ * Configuration options for the `BroadcastChannelTransport`.
+ */
+export type BroadcastChannelTransportOptions = {
+  /**
+   * Creates the transport to the MCP server, e.g. a `StreamableHTTPClientTransport`. Only called in the leader tab.
+   */
+  createUpstream: () => Transport;
+
+  /**
+   * The name of the `BroadcastChannel` (and of the leadership lock). All tabs sharing a session must use the same name.
+   * Default is "mcp".
+   */
+  channelName?: string;
+
+  /**
+   * The lock manager used for leader election. Default is `navigator.locks`.
+   */
+  lockManager?: LeaderLockManager;
+};
+
+/**
+ * Event emitted whenever leadership moves to another tab.
+ */
+export type LeaderChangeEvent = {
+  /**
+   * An identifier for the leader tab.
+   */
+  leaderId: string;
+
+  /**
+   * Whether this tab is now the leader.
+   */
+  isLeader: boolean;
+};
+
+type ChannelEnvelope =
+  | { type: "hello" }
+  | { type: "leader"; leaderId: string }
+  | { type: "shutdown" }
+  | { type: "to-leader"; from: string; message: JSONRPCMessage }
+  | { type: "to-tab"; to: string; message: JSONRPCMessage }
+  | { type: "broadcast"; message: JSONRPCMessage };
+
+/**
+ * Identifies a request by the tab that sent it and the ID that tab used.
+ */
+type RequestRoute = {
+  tabId: string;
+  id: RequestId;
+};
+
+const routeKey = (tabId: string, id: RequestId) => JSON.stringify([tabId, id]);
+
+/**
+ * Client transport that shares a single upstream connection to an MCP server between the tabs of an application.
+ *
+ * Exactly one tab, elected with the Web Locks API, is the leader: it creates the upstream transport and relays messages
+ * for every tab over a `BroadcastChannel`. Each tab passes its own `BroadcastChannelTransport` to its own `Client`.
+ *
+ * - Request IDs (and progress tokens) are rewritten by the leader so that responses reach the tab that sent the request.
+ * - The upstream session is initialized once; later `initialize` requests are answered from the cached result.
+ * - Server requests (e.g. sampling) are handled by the leader tab's client; server notifications are delivered to every tab.
+ * - When the leader tab closes, leadership fails over to another tab, which opens and initializes a new upstream connection.
+ *   Requests that were in flight through the old leader fail with a `ConnectionClosed` error.
+ * - If the upstream connection closes on its own, every tab's transport is closed.
+ */
+export class BroadcastChannelTransport implements Transport {
+  private _createUpstream: () => Transport;
+  private _channelName: string;
+  private _lockManager?: LeaderLockManager;
+  private _channel?: BroadcastChannel;
+  private _tabId = crypto.randomUUID();
+  private _leaderId?: string;
+  private _closed = false;
+  private _lockAbortController = new AbortController();
+  private _releaseLeadership?: () => void;
+  private _onLeaderKnown?: { resolve: () => void; reject: (error: Error) => void };
+  private _onLeaderChange = createEventNotifier<LeaderChangeEvent>();
+
+  // Requests sent by this tab that are awaiting a response, failed if the leader changes
+  private _outstandingRequests: Set<RequestId> = new Set();
+  // The initialize request sent by this tab's client, replayed upstream when this tab takes over leadership
+  private _initializeRequest?: JSONRPCRequest;
+  // The protocol version negotiated by this tab's client, passed on to each upstream transport this tab creates
+  private _protocolVersion?: string;
+
+  // Leader state
+  private _upstream?: Transport;
+  private _relayChain: Promise<void> = Promise.resolve();
+  private _nextUpstreamId = 0;
+  private _requestRoutes: Map<number, RequestRoute> = new Map();
+  private _upstreamIdsByRequest: Map<string, number> = new Map();
+  private _progressRoutes: Map<number, { tabId: string; token: ProgressToken }> = new Map();
+  private _initializeResult?: Result;
+  private _initializeUpstreamId?: number;
+  private _initializeWaiters: RequestRoute[] = [];
+  private _initializedSent = false;
+  private _replayingInitialize = false;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(opts: BroadcastChannelTransportOptions) {
+    this._createUpstream = opts.createUpstream;
+    this._channelName = opts.channelName ?? DEFAULT_CHANNEL_NAME;
+    this._lockManager = opts.lockManager ?? (globalThis as { navigator?: { locks?: LeaderLockManager } }).navigator?.locks;
+  }
+
+  /**
+   * Event notifier for leadership changes.
+   */
+  public readonly onLeaderChange = this._onLeaderChange.onEvent;
+
+  /**
+   * Whether this tab currently holds the upstream connection.
+   */
+  get isLeader(): boolean {
+    return this._leaderId === this._tabId;
+  }
+
+  /**
+   * Joins the channel, and resolves once a leader is known: either another tab, or this one after opening the upstream connection.
+   */
+  async start(): Promise<void> {
+    if (this._channel) {
+      throw new Error(
+        "BroadcastChannelTransport already started! If using Client class, note that connect() calls start() automatically.",
+      );
+    }
+
+    if (!this._lockManager) {
+      throw new Error("BroadcastChannelTransport requires the Web Locks API, or a lockManager option");
+    }
+
+    this._channel = new BroadcastChannel(this._channelName);
+    this._channel.onmessage = (event: MessageEvent) => this._onChannelMessage(event.data);
+
+    const leaderKnown = new Promise<void>((resolve, reject) => {
+      this._onLeaderKnown = { resolve, reject };
+    });
+
+    this._lockManager
+      .request(`${this._channelName}:leader`, { signal: this._lockAbortController.signal }, () => this._lead())
+      .catch((error) => {
+        if (this._closed) {
+          return;
+        }
+
+        this._onLeaderKnown?.reject(error);
+        this.onerror?.(error);
+      });
+
+    // Ask an existing leader to announce itself
+    this._post({ type: "hello" });
+
+    await leaderKnown;
+  }
+
+  async close(): Promise<void> {
+    if (this._closed) {
+      return;
+    }
+
+    this._closed = true;
+    this._lockAbortController.abort();
+    this._onLeaderKnown?.reject(new Error("Connection closed"));
+
+    const upstream = this._upstream;
+    this._upstream = undefined;
+    if (upstream) {
+      // Leadership passes to another tab, so the upstream closing is not a shutdown of the shared session
+      upstream.onclose = undefined;
+      await upstream.close().catch((error) => this.onerror?.(error));
+    }
+
+    this._releaseLeadership?.();
+    this._channel?.close();
+    this._onLeaderChange.close();
+    this.onclose?.();
+  }
+
+  /**
+   * Passes the negotiated protocol version on to the upstream transport, if this tab is the leader, or to the one it
+   * opens if it becomes the leader later.
+   */
+  setProtocolVersion(version: string): void {
+    this._protocolVersion = version;
+    this._upstream?.setProtocolVersion?.(version);
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this._closed || this._leaderId === undefined) {
+      throw new Error("Not connected");
+    }
+
+    if (isJSONRPCRequest(message)) {
+      this._outstandingRequests.add(message.id);
+      if (message.method === "initialize") {
+        this._initializeRequest = message;
+      }
+    }
+
+    if (this.isLeader) {
+      await this._enqueueRelay(this._tabId, message);
+    } else {
+      this._post({ type: "to-leader", from: this._tabId, message });
+    }
+  }
+
+  private _post(envelope: ChannelEnvelope): void {
+    this._channel?.postMessage(envelope);
+  }
+
+  private _onChannelMessage(data: unknown): void {
+    if (this._closed || typeof data !== "object" || data === null) {
+      return;
+    }
+
+    const envelope = data as ChannelEnvelope;
+    switch (envelope.type) {
+      case "hello":
+        if (this.isLeader) {
+          this._post({ type: "leader", leaderId: this._tabId });
+        }
+        break;
+
+      case "leader":
+        this._setLeader(envelope.leaderId);
+        break;
+
+      case "shutdown":
+        void this.close();
+        break;
+
+      case "to-leader":
+        if (this.isLeader) {
+          const message = this._parseMessage(envelope.message);
+          if (message) {
+            this._enqueueRelay(envelope.from, message).catch((error) => this.onerror?.(error));
+          }
+        }
+        break;
+
+      case "to-tab":
+        if (envelope.to === this._tabId) {
+          const message = this._parseMessage(envelope.message);
+          if (message) {
+            this._deliverLocally(message);
+          }
+        }
+        break;
+
+      case "broadcast": {
+        const message = this._parseMessage(envelope.message);
+        if (message) {
+          this._deliverLocally(message);
+        }
+        break;
+      }
+    }
+  }
+
+  private _parseMessage(data: unknown): JSONRPCMessage | undefined {
+    try {
+      return JSONRPCMessageSchema.parse(data);
+    } catch (error) {
+      this.onerror?.(error as Error);
+      return undefined;
+    }
+  }
+
+  private _deliverLocally(message: JSONRPCMessage): void {
+    if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+      this._outstandingRequests.delete(message.id);
+    }
+
+    this.onmessage?.(message);
+  }
+
+  private _setLeader(leaderId: string): void {
+    if (leaderId === this._leaderId) {
+      return;
+    }
+
+    const previousLeaderId = this._leaderId;
+    this._leaderId = leaderId;
+
+    if (previousLeaderId !== undefined) {
+      // Anything still in flight went through the previous leader, and will never be answered
+      const outstanding = [...this._outstandingRequests];
+      this._outstandingRequests.clear();
+      for (const id of outstanding) {
+        this.onmessage?.({
+          jsonrpc: "2.0",
+          id,
+          error: {
+            code: ErrorCode.ConnectionClosed,
+            message: "Connection closed: leader tab changed",
+          },
+        });
+      }
+    }
+
+    this._onLeaderChange.notify({ leaderId, isLeader: this.isLeader });
+
+    // A leader tab finishes starting once its upstream transport has started
+    if (!this.isLeader) {
+      this._resolveLeaderKnown();
+    }
+  }
+
+  private _resolveLeaderKnown(): void {
+    this._onLeaderKnown?.resolve();
+    this._onLeaderKnown = undefined;
+  }
+
+  /**
+   * Runs while this tab holds the leadership lock.
+   */
+  private async _lead(): Promise<void> {
+    if (this._closed) {
+      return;
+    }
+
+    const isFailover = this._leaderId !== undefined;
+    this._setLeader(this._tabId);
+    this._post({ type: "leader", leaderId: this._tabId });
+
+    const upstream = this._createUpstream();
+    if (this._protocolVersion !== undefined) {
+      upstream.setProtocolVersion?.(this._protocolVersion);
+    }
+    upstream.onmessage = (message) => this._onUpstreamMessage(message);
+    upstream.onerror = (error) => this.onerror?.(error);
+    upstream.onclose = () => {
+      this._upstream = undefined;
+      this._post({ type: "shutdown" });
+      void this.close();
+    };
+
+    const started = upstream.start().then(() => {
+      this._upstream = upstream;
+    });
+    this._relayChain = this._relayChain.then(() => started);
+
+    // A new upstream connection needs to be initialized before it can serve clients that already initialized
+    if (isFailover && this._initializeRequest) {
+      this._replayingInitialize = true;
+      this._enqueueRelay(this._tabId, this._initializeRequest, true).catch((error) => this.onerror?.(error));
+    }
+
+    await started;
+    this._resolveLeaderKnown();
+
+    await new Promise<void>((resolve) => {
+      this._releaseLeadership = resolve;
+    });
+  }
+
+  private _enqueueRelay(tabId: string, message: JSONRPCMessage, internal = false): Promise<void> {
+    const relay = this._relayChain.then(() => this._relay(tabId, message, internal));
+    this._relayChain = relay.catch(() => {});
+    return relay;
+  }
+
+  /**
+   * Forwards a message from a tab to the upstream transport, rewriting IDs as needed. Only called in the leader.
+   */
+  private async _relay(tabId: string, message: JSONRPCMessage, internal: boolean): Promise<void> {
+    const upstream = this._upstream;
+    if (!upstream) {
+      throw new Error("Not connected");
+    }
+
+    if (isJSONRPCRequest(message)) {
+      if (message.method === "initialize") {
+        return this._relayInitialize(upstream, internal ? undefined : { tabId, id: message.id }, message);
+      }
+
+      const upstreamId = this._nextUpstreamId++;
+      this._requestRoutes.set(upstreamId, { tabId, id: message.id });
+      this._upstreamIdsByRequest.set(routeKey(tabId, message.id), upstreamId);
+
+      let params = message.params;
+      const progressToken = params?._meta?.progressToken;
+      if (params && progressToken !== undefined) {
+        this._progressRoutes.set(upstreamId, { tabId, token: progressToken });
+        params = { ...params, _meta: { ...params._meta, progressToken: upstreamId } };
+      }
+
+      await upstream.send({ ...message, id: upstreamId, params });
+      return;
+    }
+
+    if (isJSONRPCNotification(message)) {
+      if (message.method === "notifications/initialized") {
+        // The upstream session is only initialized once
+        if (this._initializedSent) {
+          return;
+        }
+        this._initializedSent = true;
+      } else if (message.method === "notifications/cancelled") {
+        const upstreamId = this._upstreamIdsByRequest.get(routeKey(tabId, message.params?.requestId as RequestId));
+        if (upstreamId === undefined) {
+          return;
+        }
+
+        this._forgetRoute(upstreamId);
+        message = { ...message, params: { ...message.params, requestId: upstreamId } };
+      }
+    }
+
+    await upstream.send(message);
+  }
+
+  private async _relayInitialize(upstream: Transport, route: RequestRoute | undefined, message: JSONRPCRequest): Promise<void> {
+    if (this._initializeResult) {
+      if (route) {
+        this._deliverToTab(route.tabId, { jsonrpc: "2.0", id: route.id, result: this._initializeResult });
+      }
+      return;
+    }
+
+    if (route) {
+      this._initializeWaiters.push(route);
+    }
+
+    if (this._initializeUpstreamId !== undefined) {
+      // Already initializing
+      return;
+    }
+
+    this._initializeUpstreamId = this._nextUpstreamId++;
+    await upstream.send({ ...message, id: this._initializeUpstreamId });
+  }
+
+  private _onUpstreamMessage(message: JSONRPCMessage): void {
+    if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+      const upstreamId = message.id as number;
+
+      if (upstreamId === this._initializeUpstreamId) {
+        this._onInitializeResponse(message);
+        return;
+      }
+
+      const route = this._requestRoutes.get(upstreamId);
+      if (!route) {
+        this.onerror?.(new Error(`Received a response for an unknown message ID: ${JSON.stringify(message)}`));
+        return;
+      }
+
+      this._forgetRoute(upstreamId);
+      this._deliverToTab(route.tabId, { ...message, id: route.id });
+      return;
+    }
+
+    if (isJSONRPCNotification(message) && message.method === "notifications/progress") {
+      const route = this._progressRoutes.get(message.params?.progressToken as number);
+      if (route) {
+        this._deliverToTab(route.tabId, { ...message, params: { ...message.params, progressToken: route.token } });
+      }
+      return;
+    }
+
+    if (isJSONRPCRequest(message) || (isJSONRPCNotification(message) && message.method === "notifications/cancelled")) {
+      // Server requests are answered by the leader tab's client
+      this._deliverLocally(message);
+      return;
+    }
+
+    this._post({ type: "broadcast", message });
+    this._deliverLocally(message);
+  }
+
+  private _onInitializeResponse(message: JSONRPCMessage): void {
+    const waiters = this._initializeWaiters;
+    this._initializeWaiters = [];
+    this._initializeUpstreamId = undefined;
+
+    if (isJSONRPCResponse(message)) {
+      this._initializeResult = message.result;
+    }
+
+    for (const { tabId, id } of waiters) {
+      this._deliverToTab(tabId, { ...message, id } as JSONRPCMessage);
+    }
+
+    // After a failover the clients have already completed their handshake, so complete the upstream one here
+    if (this._replayingInitialize && isJSONRPCResponse(message)) {
+      this._replayingInitialize = false;
+      this._enqueueRelay(this._tabId, { jsonrpc: "2.0", method: "notifications/initialized" }, true)
+        .catch((error) => this.onerror?.(error));
+    }
+  }
+
+  private _forgetRoute(upstreamId: number): void {
+    const route = this._requestRoutes.get(upstreamId);
+    if (route) {
+      this._upstreamIdsByRequest.delete(routeKey(route.tabId, route.id));
+    }
+    this._requestRoutes.delete(upstreamId);
+    this._progressRoutes.delete(upstreamId);
+  }
+
+  private _deliverToTab(tabId: string, message: JSONRPCMessage): void {
+    if (tabId === this._tabId) {
+      this._deliverLocally(message);
+    } else {
+      this._post({ type: "to-tab", to: tabId, message });
+    }
+  }
+}
@@ -0,0 +1,244 @@
+import { createEventNotifier } from "../shared/eventNotifier.js";
+import {
+  Prompt,
+  PromptListChangedNotificationSchema,
+  Resource,
+  ResourceListChangedNotificationSchema,
+  ResourceTemplate,
+  ServerCapabilities,
+  Tool,
+  ToolListChangedNotificationSchema,
+} from "../types.js";
+import type { Client } from "./index.js";
+
+/**
+ * The default time (in milliseconds) to wait after a list-changed notification before refetching the list.
+ */
+export const DEFAULT_CATALOG_REFRESH_DEBOUNCE = 100;
+
+/**
+ * Options for the `catalog` of a `Client`.
+ */
+export type CatalogOptions = {
+  /**
+   * How long (in milliseconds) to wait after a list-changed notification before refetching the list, so that a burst
+   * of notifications causes a single refetch. Default is 100.
+   */
+  refreshDebounce?: number;
+};
+
+/**
+ * The items of each list kept by a `ClientCatalog`.
+ */
+export type CatalogItems = {
+  tools: Tool;
+  resources: Resource;
+  resourceTemplates: ResourceTemplate;
+  prompts: Prompt;
+};
+
+export type CatalogKind = keyof CatalogItems;
+
+/**
+ * The difference between two versions of one of the lists kept by a `ClientCatalog`, as passed to `onChange` listeners.
+ *
+ * Items are matched by their name, or by their URI or URI template for resources and resource templates.
+ */
+export type CatalogChangeEvent = {
+  [K in CatalogKind]: {
+    kind: K;
+    added: CatalogItems[K][];
+    removed: CatalogItems[K][];
+    modified: CatalogItems[K][];
+  };
+}[CatalogKind];
+
+/**
+ * The parts of a `Client` that a catalog uses, which do not depend on its custom request and notification types.
+ */
+type CatalogClient = Pick<
+  Client,
+  | "getServerCapabilities"
+  | "setNotificationHandler"
+  | "listAllTools"
+  | "listAllResources"
+  | "listAllResourceTemplates"
+  | "listAllPrompts"
+  | "transport"
+  | "onerror"
+>;
+
+const CATALOG_KINDS: CatalogKind[] = ["tools", "resources", "resourceTemplates", "prompts"];
+
+const CAPABILITIES: Record<CatalogKind, keyof ServerCapabilities> = {
+  tools: "tools",
+  resources: "resources",
+  resourceTemplates: "resources",
+  prompts: "prompts",
+};
+
+const keyOf = (kind: CatalogKind, item: CatalogItems[CatalogKind]): string => {
+  switch (kind) {
+    case "resources":
+      return (item as Resource).uri;
+    case "resourceTemplates":
+      return (item as ResourceTemplate).uriTemplate;
+    default:
+      return (item as Tool | Prompt).name;
+  }
+};
+
+/**
+ * An in-memory copy of the tools, resources, resource templates and prompts of the server a `Client` is connected to.
+ *
+ * Each list is fetched in full when the client connects, if the server supports it, and fetched again when the server
+ * sends the matching list-changed notification.
+ */
+export class ClientCatalog {
+  private _lists: { [K in CatalogKind]: Map<string, CatalogItems[K]> } = {
+    tools: new Map(),
+    resources: new Map(),
+    resourceTemplates: new Map(),
+    prompts: new Map(),
+  };
+  private _refreshTimers: Map<CatalogKind, ReturnType<typeof setTimeout>> = new Map();
+  // Refreshes in progress, and whether another one was requested while they were running
+  private _refreshes: Map<CatalogKind, Promise<void>> = new Map();
+  private _staleKinds: Set<CatalogKind> = new Set();
+  private _onChange = createEventNotifier<CatalogChangeEvent>();
+
+  constructor(
+    private _client: CatalogClient,
+    private _options: CatalogOptions = {},
+  ) {
+    _client.setNotificationHandler(ToolListChangedNotificationSchema, () => this._scheduleRefresh("tools"));
+    _client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      this._scheduleRefresh("resources");
+      this._scheduleRefresh("resourceTemplates");
+    });
+    _client.setNotificationHandler(PromptListChangedNotificationSchema, () => this._scheduleRefresh("prompts"));
+  }
+
+  /**
+   * Event notifier for changes to the lists. Listeners are notified once for each list that changed, including when it
+   * is first fetched, with the items that were added, removed or modified.
+   *
+   * @example
+   * const subscription = client.catalog!.onChange((event) => {
+   *   if (event.kind === "tools") {
+   *     console.log(`${event.added.length} tools added, ${event.removed.length} removed`);
+   *   }
+   * });
+   *
+   * // Later, to stop listening:
+   * subscription.close();
+   */
+  public readonly onChange = this._onChange.onEvent;
+
+  get tools(): Tool[] {
+    return [...this._lists.tools.values()];
+  }
+
+  get resources(): Resource[] {
+    return [...this._lists.resources.values()];
+  }
+
+  get resourceTemplates(): ResourceTemplate[] {
+    return [...this._lists.resourceTemplates.values()];
+  }
+
+  get prompts(): Prompt[] {
+    return [...this._lists.prompts.values()];
+  }
+
+  /**
+   * Fetches the given lists again, or all lists that the server supports. Lists the server does not support are left
+   * empty.
+   */
+  async refresh(kinds: CatalogKind[] = CATALOG_KINDS): Promise<void> {
+    const capabilities = this._client.getServerCapabilities();
+    await Promise.all(kinds.filter((kind) => capabilities?.[CAPABILITIES[kind]]).map((kind) => this._refresh(kind)));
+  }
+
+  /**
+   * Cancels the refreshes scheduled after list-changed notifications. The client does this when the connection closes;
+   * listeners are kept, and the lists are fetched again when it connects again.
+   */
+  cancelRefreshes(): void {
+    for (const timer of this._refreshTimers.values()) {
+      clearTimeout(timer);
+    }
+    this._refreshTimers.clear();
+    this._staleKinds.clear();
+  }
+
+  /**
+   * Stops any pending refreshes and removes all listeners.
+   */
+  close(): void {
+    this.cancelRefreshes();
+    this._onChange.close();
+  }
+
+  private _scheduleRefresh(kind: CatalogKind): void {
+    clearTimeout(this._refreshTimers.get(kind));
+    this._refreshTimers.set(
+      kind,
+      setTimeout(() => {
+        this._refreshTimers.delete(kind);
+        if (this._client.transport) {
+          this.refresh([kind]).catch((error) => this._client.onerror?.(error));
+        }
+      }, this._options.refreshDebounce ?? DEFAULT_CATALOG_REFRESH_DEBOUNCE),
+    );
+  }
+
+  private _refresh(kind: CatalogKind): Promise<void> {
+    const running = this._refreshes.get(kind);
+    if (running) {
+      // The list may have changed after the running fetch got its pages, so fetch it once more afterwards
+      this._staleKinds.add(kind);
+      return running;
+    }
+
+    const refresh = this._fetch(kind)
+      .then((items) => this._update(kind, items))
+      .finally(() => {
+        this._refreshes.delete(kind);
+        if (this._staleKinds.delete(kind)) {
+          this._refresh(kind).catch((error) => this._client.onerror?.(error));
+        }
+      });
+    this._refreshes.set(kind, refresh);
+    return refresh;
+  }
+
+  private _fetch(kind: CatalogKind): Promise<CatalogItems[CatalogKind][]> {
+    switch (kind) {
+      case "tools":
+        return this._client.listAllTools();
+      case "resources":
+        return this._client.listAllResources();
+      case "resourceTemplates":
+        return this._client.listAllResourceTemplates();
+      case "prompts":
+        return this._client.listAllPrompts();
+    }
+  }
+
+  private _update(kind: CatalogKind, items: CatalogItems[CatalogKind][]): void {
+    const previous: Map<string, CatalogItems[CatalogKind]> = this._lists[kind];
+    const current = new Map(items.map((item) => [keyOf(kind, item), item]));
+    const added = items.filter((item) => !previous.has(keyOf(kind, item)));
+    const removed = [...previous.values()].filter((item) => !current.has(keyOf(kind, item)));
+    const modified = items.filter((item) => {
+      const previousItem = previous.get(keyOf(kind, item));
+      return previousItem !== undefined && JSON.stringify(previousItem) !== JSON.stringify(item);
+    });
+
+    (this._lists as Record<CatalogKind, Map<string, CatalogItems[CatalogKind]>>)[kind] = current;
+    if (added.length || removed.length || modified.length) {
+      this._onChange.notify({ kind, added, removed, modified } as CatalogChangeEvent);
+    }
+  }
+}
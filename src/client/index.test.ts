@@ -0,0 +1,478 @@
+import { Client } from "./index.js";
+import { CatalogChangeEvent } from "./catalog.js";
+import { RootsProvider } from "./roots.js";
+import { StubSamplingAdapter } from "./sampling.js";
+import { InMemoryTransport } from "../inMemory.js";
+import { Server } from "../server/index.js";
+import { Transport } from "../shared/transport.js";
+import {
+  CreateMessageRequest,
+  ErrorCode,
+  ListPromptsRequestSchema,
+  ListToolsRequest,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  ReadResourceResult,
+  RootsListChangedNotificationSchema,
+  SubscribeRequestSchema,
+  Tool,
+  UnsubscribeRequestSchema,
+} from "../types.js";
+
+describe("pagination", () => {
+  let server: Server;
+  let client: Client;
+  let toolsRequests: ListToolsRequest["params"][];
+
+  const tools: Tool[] = ["a", "b", "c", "d", "e"].map((name) => ({ name, inputSchema: { type: "object" } }));
+
+  beforeEach(async () => {
+    server = new Server({ name: "test server", version: "1.0" }, { capabilities: { tools: {}, prompts: {} } });
+    toolsRequests = [];
+    server.setRequestHandler(ListToolsRequestSchema, (request) => {
+      toolsRequests.push(request.params);
+      const start = Number(request.params?.cursor ?? 0);
+      const end = start + 2;
+      return { tools: tools.slice(start, end), ...(end < tools.length && { nextCursor: String(end) }) };
+    });
+
+    client = new Client({ name: "test client", version: "1.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  test("should iterate over the items of all pages", async () => {
+    const names: string[] = [];
+    for await (const tool of client.iterateTools()) {
+      names.push(tool.name);
+    }
+
+    expect(names).toEqual(["a", "b", "c", "d", "e"]);
+    expect(toolsRequests.map((params) => params?.cursor)).toEqual([undefined, "2", "4"]);
+  });
+
+  test("should only request pages as they are consumed", async () => {
+    for await (const tool of client.iterateTools()) {
+      if (tool.name === "b") {
+        break;
+      }
+    }
+
+    expect(toolsRequests).toHaveLength(1);
+  });
+
+  test("should stop at maxItems and send page size hints", async () => {
+    const result = await client.listAllTools({ cursor: "1" }, { maxItems: 3, pageSize: 2 });
+
+    expect(result.map((tool) => tool.name)).toEqual(["b", "c", "d"]);
+    expect(toolsRequests).toEqual([
+      { cursor: "1", _meta: { pageSize: 2 } },
+      { cursor: "3", _meta: { pageSize: 2 } },
+    ]);
+  });
+
+  test("should throw when the server returns a cursor that was already requested", async () => {
+    server.setRequestHandler(ListPromptsRequestSchema, (request) => ({
+      prompts: [{ name: `prompt ${request.params?.cursor ?? "first"}` }],
+      nextCursor: "same",
+    }));
+
+    const names: string[] = [];
+    await expect(async () => {
+      for await (const prompt of client.iteratePrompts()) {
+        names.push(prompt.name);
+      }
+    }).rejects.toThrow("Server returned a cursor that was already requested: same");
+    expect(names).toEqual(["prompt first", "prompt same"]);
+  });
+
+  test("should stop when the signal is aborted", async () => {
+    const controller = new AbortController();
+    const names: string[] = [];
+
+    await expect(async () => {
+      for await (const tool of client.iterateTools(undefined, { signal: controller.signal })) {
+        names.push(tool.name);
+        if (tool.name === "b") {
+          controller.abort("Cancelled by user");
+        }
+      }
+    }).rejects.toBe("Cancelled by user");
+    expect(names).toEqual(["a", "b"]);
+    expect(toolsRequests).toHaveLength(1);
+  });
+});
+
+describe("catalog", () => {
+  let server: Server;
+  let client: Client;
+  let tools: Tool[];
+  let toolsRequests: number;
+
+  beforeEach(async () => {
+    tools = [
+      { name: "a", inputSchema: { type: "object" } },
+      { name: "b", inputSchema: { type: "object" } },
+    ];
+    toolsRequests = 0;
+    server = new Server({ name: "test server", version: "1.0" }, { capabilities: { tools: { listChanged: true } } });
+    server.setRequestHandler(ListToolsRequestSchema, () => {
+      toolsRequests++;
+      return { tools };
+    });
+
+    client = new Client({ name: "test client", version: "1.0" }, { catalog: { refreshDebounce: 10 } });
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  const connect = async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  };
+
+  test("should load the lists the server supports on connect", async () => {
+    const events: CatalogChangeEvent[] = [];
+    client.catalog!.onChange((event) => events.push(event));
+
+    await connect();
+
+    expect(client.catalog!.tools.map((tool) => tool.name)).toEqual(["a", "b"]);
+    expect(client.catalog!.prompts).toEqual([]);
+    expect(events).toEqual([{ kind: "tools", added: tools, removed: [], modified: [] }]);
+  });
+
+  test("should refetch once after a burst of list-changed notifications", async () => {
+    await connect();
+    const events: CatalogChangeEvent[] = [];
+    client.catalog!.onChange((event) => events.push(event));
+
+    const c: Tool = { name: "c", inputSchema: { type: "object" } };
+    const modifiedB: Tool = { ...tools[1], description: "Now with a description" };
+    tools = [modifiedB, c];
+    await server.sendToolListChanged();
+    await server.sendToolListChanged();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(toolsRequests).toBe(2);
+    expect(client.catalog!.tools.map((tool) => tool.name)).toEqual(["b", "c"]);
+    expect(events).toEqual([
+      {
+        kind: "tools",
+        added: [c],
+        removed: [{ name: "a", inputSchema: { type: "object" } }],
+        modified: [modifiedB],
+      },
+    ]);
+  });
+
+  test("should not notify when a refetched list is unchanged", async () => {
+    await connect();
+    const listener = jest.fn();
+    client.catalog!.onChange(listener);
+
+    await client.catalog!.refresh();
+
+    expect(toolsRequests).toBe(2);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test.each([
+    ["the client", () => client.close()],
+    ["the transport", () => client.transport!.close()],
+  ])("should stop pending refreshes when %s closes the connection", async (_, close) => {
+    await connect();
+    const listener = jest.fn();
+    client.catalog!.onChange(listener);
+    jest.useFakeTimers();
+
+    try {
+      tools = [];
+      await server.sendToolListChanged();
+      expect(jest.getTimerCount()).toBe(1);
+
+      await close();
+      expect(jest.getTimerCount()).toBe(0);
+      await jest.advanceTimersByTimeAsync(100);
+      expect(toolsRequests).toBe(1);
+      expect(listener).not.toHaveBeenCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test("should keep notifying listeners after reconnecting", async () => {
+    await connect();
+    const events: CatalogChangeEvent[] = [];
+    client.catalog!.onChange((event) => events.push(event));
+
+    await client.close();
+    const c: Tool = { name: "c", inputSchema: { type: "object" } };
+    tools = [...tools, c];
+    await connect();
+
+    expect(events).toEqual([{ kind: "tools", added: [c], removed: [], modified: [] }]);
+  });
+});
+
+describe("watchResource", () => {
+  let server: Server;
+  let client: Client;
+  let clientTransport: Transport;
+  let requests: string[];
+  let version: number;
+
+  const uri = "test://resource";
+
+  const connect = async () => {
+    const [transport, serverTransport] = InMemoryTransport.createLinkedPair();
+    clientTransport = transport;
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  };
+
+  beforeEach(async () => {
+    requests = [];
+    version = 1;
+    server = new Server({ name: "test server", version: "1.0" }, { capabilities: { resources: { subscribe: true } } });
+    server.setRequestHandler(SubscribeRequestSchema, (request) => {
+      requests.push(`subscribe ${request.params.uri}`);
+      return {};
+    });
+    server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+      requests.push(`unsubscribe ${request.params.uri}`);
+      return {};
+    });
+    server.setRequestHandler(ReadResourceRequestSchema, (request) => ({
+      contents: [{ uri: request.params.uri, text: `version ${version}` }],
+    }));
+
+    client = new Client({ name: "test client", version: "1.0" });
+    await connect();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  const textOf = (result: IteratorResult<ReadResourceResult>) => result.value?.contents[0]?.text;
+
+  test("should yield the contents when watching starts and after each update", async () => {
+    const watcher = client.watchResource(uri)[Symbol.asyncIterator]();
+
+    expect(textOf(await watcher.next())).toBe("version 1");
+
+    version = 2;
+    await server.sendResourceUpdated({ uri });
+    expect(textOf(await watcher.next())).toBe("version 2");
+
+    await watcher.return!();
+  });
+
+  test("should share one subscription between watchers", async () => {
+    const first = client.watchResource(uri)[Symbol.asyncIterator]();
+    const second = client.watchResource(uri)[Symbol.asyncIterator]();
+    await Promise.all([first.next(), second.next()]);
+
+    expect(requests).toEqual([`subscribe ${uri}`]);
+
+    await first.return!();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(requests).toEqual([`subscribe ${uri}`]);
+
+    await second.return!();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(requests).toEqual([`subscribe ${uri}`, `unsubscribe ${uri}`]);
+  });
+
+  test("should only signal updates when not reading", async () => {
+    const watcher = client.watchResource(uri, { read: false })[Symbol.asyncIterator]();
+    const next = watcher.next();
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await server.sendResourceUpdated({ uri });
+
+    expect((await next).value).toEqual({ contents: [] });
+    await watcher.return!();
+  });
+
+  test("should stop when the signal is aborted", async () => {
+    const controller = new AbortController();
+    const watcher = client.watchResource(uri, { signal: controller.signal })[Symbol.asyncIterator]();
+    await watcher.next();
+
+    const next = watcher.next();
+    controller.abort("Stopped watching");
+
+    await expect(next).rejects.toBe("Stopped watching");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(requests).toEqual([`subscribe ${uri}`, `unsubscribe ${uri}`]);
+  });
+
+  test("should subscribe again and read the contents after reconnecting", async () => {
+    const watcher = client.watchResource(uri)[Symbol.asyncIterator]();
+    await watcher.next();
+
+    version = 2;
+    await clientTransport.onreconnect!();
+
+    expect(textOf(await watcher.next())).toBe("version 2");
+    expect(requests).toEqual([`subscribe ${uri}`, `subscribe ${uri}`]);
+
+    await watcher.return!();
+  });
+
+  test("should fail watchers when the connection closes", async () => {
+    const watcher = client.watchResource(uri)[Symbol.asyncIterator]();
+    await watcher.next();
+    const next = watcher.next();
+
+    await client.close();
+
+    await expect(next).rejects.toMatchObject({ code: ErrorCode.ConnectionClosed });
+    await connect();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(requests).toEqual([`subscribe ${uri}`]);
+  });
+});
+
+describe("sampling", () => {
+  let server: Server;
+  let client: Client;
+
+  const params: CreateMessageRequest["params"] = {
+    maxTokens: 100,
+    messages: [{ role: "user", content: { type: "text", text: "Hello" } }],
+    modelPreferences: { hints: [{ name: "large" }] },
+  };
+
+  const connect = async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  };
+
+  beforeEach(() => {
+    server = new Server({ name: "test server", version: "1.0" });
+    client = new Client({ name: "test client", version: "1.0" });
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  test("should advertise the capability and sample through an adapter", async () => {
+    const adapter = new StubSamplingAdapter({ models: ["model-small", "model-large"] });
+    client.setSamplingHandler(adapter);
+    await connect();
+
+    expect(server.getClientCapabilities()?.sampling).toEqual({});
+    expect(await server.createMessage(params)).toEqual({
+      model: "model-large",
+      role: "assistant",
+      content: { type: "text", text: "Hello" },
+      stopReason: "endTurn",
+    });
+    expect(adapter.requests).toEqual([{ ...params, model: "model-large" }]);
+  });
+
+  test("should report the selected model unless the adapter reports another", async () => {
+    const adapter = new StubSamplingAdapter({ models: ["model-small", "model-large"] });
+    const createMessage = jest.spyOn(adapter, "createMessage");
+    client.setSamplingHandler(adapter);
+    await connect();
+
+    createMessage.mockResolvedValueOnce({ content: { type: "text", text: "Hi" }, model: undefined });
+    expect((await server.createMessage(params)).model).toBe("model-large");
+
+    createMessage.mockResolvedValueOnce({ content: { type: "text", text: "Hi" }, model: "model-large-2024" });
+    expect((await server.createMessage(params)).model).toBe("model-large-2024");
+  });
+
+  test("should call a handler function", async () => {
+    client.setSamplingHandler((params) => ({
+      model: "custom",
+      role: "assistant",
+      content: { type: "text", text: `${params.messages.length} messages` },
+    }));
+    await connect();
+
+    expect((await server.createMessage(params)).content).toEqual({ type: "text", text: "1 messages" });
+  });
+
+  test("should reject requests and results the user does not approve", async () => {
+    const adapter = new StubSamplingAdapter();
+    const approveResult = jest.fn().mockReturnValue(false);
+    client.setSamplingHandler(adapter, {
+      approveRequest: (params) => params.maxTokens <= 100,
+      approveResult,
+    });
+    await connect();
+
+    await expect(server.createMessage({ ...params, maxTokens: 1000 })).rejects.toMatchObject({
+      code: ErrorCode.UserRejected,
+      message: expect.stringContaining("User rejected sampling request"),
+    });
+    expect(adapter.requests).toHaveLength(0);
+
+    await expect(server.createMessage(params)).rejects.toMatchObject({
+      code: ErrorCode.UserRejected,
+      message: expect.stringContaining("User rejected sampling result"),
+    });
+    expect(adapter.requests).toHaveLength(1);
+    expect(approveResult).toHaveBeenCalledWith(
+      expect.objectContaining({ content: { type: "text", text: "Hello" } }),
+      params,
+      expect.anything(),
+    );
+  });
+
+  test("should not register capabilities after connecting", async () => {
+    await connect();
+
+    expect(() => client.setSamplingHandler(new StubSamplingAdapter())).toThrow(
+      "Cannot register capabilities after connecting to transport",
+    );
+  });
+});
+
+describe("roots", () => {
+  let server: Server;
+  let client: Client;
+  let roots: RootsProvider;
+
+  beforeEach(async () => {
+    server = new Server({ name: "test server", version: "1.0" });
+    roots = new RootsProvider([{ uri: "file:///project", name: "Project" }], { changeDebounce: 10 });
+    client = new Client({ name: "test client", version: "1.0" }, { roots });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    roots.close();
+    await client.close();
+  });
+
+  test("should advertise the capability and answer roots/list", async () => {
+    expect(server.getClientCapabilities()?.roots).toEqual({ listChanged: true });
+    expect(await server.listRoots()).toEqual({ roots: [{ uri: "file:///project", name: "Project" }] });
+  });
+
+  test("should notify the server once when the roots change", async () => {
+    const listChanged = jest.fn();
+    server.setNotificationHandler(RootsListChangedNotificationSchema, listChanged);
+
+    roots.add({ uri: "file:///other" });
+    roots.remove("file:///project");
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(listChanged).toHaveBeenCalledTimes(1);
+    expect(await server.listRoots()).toEqual({ roots: [{ uri: "file:///other" }] });
+  });
+});
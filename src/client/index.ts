@@ -5,6 +5,10 @@ import {
   RequestOptions,
 } from "../shared/protocol.js";
 import { Transport } from "../shared/transport.js";
+import { CatalogOptions, ClientCatalog } from "./catalog.js";
+import { ResourceSubscriptions, WatchResourceOptions } from "./resourceSubscriptions.js";
+import { RootsProvider } from "./roots.js";
+import { createSamplingHandler, SamplingAdapter, SamplingHandler, SamplingOptions } from "./sampling.js";
 import {
   CallToolRequest,
   CallToolResultSchema,
@@ -15,6 +19,8 @@ import {
   CompatibilityCallToolResultSchema,
   CompleteRequest,
   CompleteResultSchema,
+  CreateMessageRequestSchema,
+  Cursor,
   EmptyResultSchema,
   GetPromptRequest,
   GetPromptResultSchema,
@@ -27,17 +33,24 @@ import {
   ListResourcesResultSchema,
   ListResourceTemplatesRequest,
   ListResourceTemplatesResultSchema,
+  ListRootsRequestSchema,
   ListToolsRequest,
   ListToolsResultSchema,
   LoggingLevel,
   Notification,
+  PaginatedRequest,
+  Prompt,
   ReadResourceRequest,
+  ReadResourceResult,
   ReadResourceResultSchema,
   Request,
+  Resource,
+  ResourceTemplate,
   Result,
   ServerCapabilities,
   SubscribeRequest,
   SUPPORTED_PROTOCOL_VERSIONS,
+  Tool,
   UnsubscribeRequest,
 } from "../types.js";
 
@@ -46,8 +59,44 @@ export type ClientOptions = ProtocolOptions & {
    * Capabilities to advertise as being supported by this client.
    */
   capabilities?: ClientCapabilities;
+
+  /**
+   * If set, the client keeps an in-memory copy of the server's tools, resources and prompts in `catalog`. Pass `true`
+   * to use the default options.
+   */
+  catalog?: CatalogOptions | true;
+
+  /**
+   * If set, the client answers `roots/list` requests with the provider's roots, advertises the `roots.listChanged`
+   * capability, and notifies the server when the roots change.
+   */
+  roots?: RootsProvider;
+};
+
+/**
+ * Options for iterating over every page of a paginated list, e.g. with `iterateTools()`.
+ */
+export type PaginationOptions = RequestOptions & {
+  /**
+   * The number of items to ask the server for per page, sent as `_meta.pageSize`. This is only a hint: MCP leaves the
+   * page size up to the server, and servers that do not recognize it ignore it.
+   */
+  pageSize?: number;
+
+  /**
+   * Stops after this many items, without requesting further pages.
+   */
+  maxItems?: number;
 };
 
+async function collectAll<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const item of items) {
+    result.push(item);
+  }
+  return result;
+}
+
 /**
  * An MCP client on top of a pluggable transport.
  *
@@ -86,6 +135,22 @@ export class Client<
   private _serverVersion?: Implementation;
   private _capabilities: ClientCapabilities;
   private _instructions?: string;
+  private _protocolVersion?: string;
+  private _resourceSubscriptions?: ResourceSubscriptions;
+
+  /**
+   * The server's tools, resources and prompts, kept up to date as the server reports changes, if the `catalog` option
+   * is set. It is loaded by `connect()`, and errors loading it are reported to `onerror`. Pending refreshes are
+   * cancelled when the connection closes, while its listeners are kept until it is closed with `catalog.close()`.
+   *
+   * Note that the catalog handles list-changed notifications itself, so they should not be given handlers of their own.
+   */
+  readonly catalog?: ClientCatalog;
+
+  /**
+   * The roots exposed to the server, if the `roots` option is set.
+   */
+  readonly roots?: RootsProvider;
 
   /**
    * Initializes this client with the given name and version information.
@@ -96,6 +161,21 @@ export class Client<
   ) {
     super(options);
     this._capabilities = options?.capabilities ?? {};
+    if (options?.catalog) {
+      this.catalog = new ClientCatalog(this, options.catalog === true ? {} : options.catalog);
+    }
+
+    const roots = options?.roots;
+    if (roots) {
+      this.roots = roots;
+      this.registerCapabilities({ roots: { listChanged: true } });
+      this.setRequestHandler(ListRootsRequestSchema, () => ({ roots: roots.roots }));
+      roots.onChange(() => {
+        if (this.transport) {
+          this.sendRootsListChanged().catch((error) => this.onerror?.(error));
+        }
+      });
+    }
   }
 
   /**
@@ -113,6 +193,26 @@ export class Client<
     this._capabilities = mergeCapabilities(this._capabilities, capabilities);
   }
 
+  /**
+   * Handles `sampling/createMessage` requests from the server with the given handler, or by sampling through the given
+   * adapter, and advertises the `sampling` capability. This must first be called before connecting to a transport.
+   *
+   * The `approveRequest` and `approveResult` options let the user inspect and reject requests and results.
+   *
+   * @example
+   * client.setSamplingHandler(new StubSamplingAdapter(), {
+   *   approveRequest: (params) => confirm(`Allow the server to sample ${params.messages.length} messages?`),
+   * });
+   */
+  setSamplingHandler(handler: SamplingHandler | SamplingAdapter, options?: SamplingOptions): void {
+    if (!this._capabilities.sampling) {
+      this.registerCapabilities({ sampling: {} });
+    }
+
+    const sample = createSamplingHandler(handler, options);
+    this.setRequestHandler(CreateMessageRequestSchema, (request, extra) => sample(request.params, extra));
+  }
+
   protected assertCapability(
     capability: keyof ServerCapabilities,
     method: string,
@@ -126,47 +226,84 @@ export class Client<
 
   override async connect(transport: Transport, options?: RequestOptions): Promise<void> {
     await super.connect(transport);
+    const onclose = transport.onclose;
+    transport.onclose = () => {
+      this.catalog?.cancelRefreshes();
+      onclose?.();
+      // Transports that reconnect on their own only close once they gave up
+      this._resourceSubscriptions?.closeWatchers();
+    };
+
     // When transport sessionId is already set this means we are trying to reconnect.
     // In this case we don't need to initialize again.
     if (transport.sessionId !== undefined) {
+      if (this._protocolVersion !== undefined) {
+        transport.setProtocolVersion?.(this._protocolVersion);
+      }
+      await this._restoreState();
       return;
     }
     try {
-      const result = await this.request(
-        {
-          method: "initialize",
-          params: {
-            protocolVersion: LATEST_PROTOCOL_VERSION,
-            capabilities: this._capabilities,
-            clientInfo: this._clientInfo,
-          },
+      await this._initialize(transport, options);
+    } catch (error) {
+      // Disconnect if initialization fails.
+      void this.close();
+      throw error;
+    }
+
+    // Transports that reconnect on their own open a new session, which must be initialized again
+    transport.onreconnect = async () => {
+      await this._initialize(transport);
+      // Not awaited, as the transport holds other requests until initialization is done
+      void this._restoreState();
+    };
+
+    await this._restoreState();
+  }
+
+  private async _initialize(transport: Transport, options?: RequestOptions): Promise<void> {
+    const result = await this.request(
+      {
+        method: "initialize",
+        params: {
+          protocolVersion: LATEST_PROTOCOL_VERSION,
+          capabilities: this._capabilities,
+          clientInfo: this._clientInfo,
         },
-        InitializeResultSchema,
-        options
-      );
+      },
+      InitializeResultSchema,
+      options
+    );
 
-      if (result === undefined) {
-        throw new Error(`Server sent invalid initialize result: ${result}`);
-      }
+    if (result === undefined) {
+      throw new Error(`Server sent invalid initialize result: ${result}`);
+    }
 
-      if (!SUPPORTED_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
-        throw new Error(
-          `Server's protocol version is not supported: ${result.protocolVersion}`,
-        );
-      }
+    if (!SUPPORTED_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+      throw new Error(
+        `Server's protocol version is not supported: ${result.protocolVersion}`,
+      );
+    }
 
-      this._serverCapabilities = result.capabilities;
-      this._serverVersion = result.serverInfo;
+    this._serverCapabilities = result.capabilities;
+    this._serverVersion = result.serverInfo;
+    this._protocolVersion = result.protocolVersion;
+    transport.setProtocolVersion?.(result.protocolVersion);
 
-      this._instructions = result.instructions;
+    this._instructions = result.instructions;
 
-      await this.notification({
-        method: "notifications/initialized",
-      });
-    } catch (error) {
-      // Disconnect if initialization fails.
-      void this.close();
-      throw error;
+    await this.notification({
+      method: "notifications/initialized",
+    });
+  }
+
+  // Loads the catalog and restores resource subscriptions after connecting, reporting errors to `onerror`
+  private async _restoreState(): Promise<void> {
+    const results = await Promise.allSettled([this.catalog?.refresh(), this._resourceSubscriptions?.resubscribe()]);
+    for (const result of results) {
+      if (result.status === "rejected") {
+        this.onerror?.(result.reason);
+      }
     }
   }
 
@@ -184,6 +321,14 @@ export class Client<
     return this._serverVersion;
   }
 
+  /**
+   * After initialization has completed, this will be populated with the protocol version negotiated with the server,
+   * which may be older than `LATEST_PROTOCOL_VERSION`.
+   */
+  getProtocolVersion(): string | undefined {
+    return this._protocolVersion;
+  }
+
   /**
    * After initialization has completed, this may be populated with information about the server's instructions.
    */
@@ -406,6 +551,26 @@ export class Client<
     );
   }
 
+  /**
+   * Watches the resource with the given URI, yielding its contents when watching starts and again each time the server
+   * reports that it was updated.
+   *
+   * The resource is subscribed to once, however many watchers it has, and unsubscribed from when the last watcher stops
+   * iterating. Subscriptions are restored when the transport reconnects, after which watchers read the resource again.
+   * If the connection closes instead, watchers fail with a `ConnectionClosed` error.
+   *
+   * Note that this handles `notifications/resources/updated` itself, so it should not be given a handler of its own.
+   *
+   * @example
+   * for await (const result of client.watchResource("file:///config.json", { signal })) {
+   *   console.log(result.contents);
+   * }
+   */
+  watchResource(uri: string, options?: WatchResourceOptions): AsyncIterable<ReadResourceResult> {
+    this._resourceSubscriptions ??= new ResourceSubscriptions(this);
+    return this._resourceSubscriptions.watch(uri, options);
+  }
+
   async callTool(
     params: CallToolRequest["params"],
     resultSchema:
@@ -431,6 +596,148 @@ export class Client<
     );
   }
 
+  /**
+   * Iterates over all tools of the server, requesting further pages as needed.
+   */
+  iterateTools(params?: ListToolsRequest["params"], options?: PaginationOptions): AsyncIterable<Tool> {
+    return this._paginate(
+      async (pageParams, requestOptions) => {
+        const { tools, nextCursor } = await this.listTools(pageParams, requestOptions);
+        return { items: tools, nextCursor };
+      },
+      params,
+      options,
+    );
+  }
+
+  /**
+   * Lists all tools of the server, across all pages.
+   */
+  async listAllTools(params?: ListToolsRequest["params"], options?: PaginationOptions): Promise<Tool[]> {
+    return collectAll(this.iterateTools(params, options));
+  }
+
+  /**
+   * Iterates over all resources of the server, requesting further pages as needed.
+   */
+  iterateResources(params?: ListResourcesRequest["params"], options?: PaginationOptions): AsyncIterable<Resource> {
+    return this._paginate(
+      async (pageParams, requestOptions) => {
+        const { resources, nextCursor } = await this.listResources(pageParams, requestOptions);
+        return { items: resources, nextCursor };
+      },
+      params,
+      options,
+    );
+  }
+
+  /**
+   * Lists all resources of the server, across all pages.
+   */
+  async listAllResources(params?: ListResourcesRequest["params"], options?: PaginationOptions): Promise<Resource[]> {
+    return collectAll(this.iterateResources(params, options));
+  }
+
+  /**
+   * Iterates over all resource templates of the server, requesting further pages as needed.
+   */
+  iterateResourceTemplates(
+    params?: ListResourceTemplatesRequest["params"],
+    options?: PaginationOptions,
+  ): AsyncIterable<ResourceTemplate> {
+    return this._paginate(
+      async (pageParams, requestOptions) => {
+        const { resourceTemplates, nextCursor } = await this.listResourceTemplates(pageParams, requestOptions);
+        return { items: resourceTemplates, nextCursor };
+      },
+      params,
+      options,
+    );
+  }
+
+  /**
+   * Lists all resource templates of the server, across all pages.
+   */
+  async listAllResourceTemplates(
+    params?: ListResourceTemplatesRequest["params"],
+    options?: PaginationOptions,
+  ): Promise<ResourceTemplate[]> {
+    return collectAll(this.iterateResourceTemplates(params, options));
+  }
+
+  /**
+   * Iterates over all prompts of the server, requesting further pages as needed.
+   */
+  iteratePrompts(params?: ListPromptsRequest["params"], options?: PaginationOptions): AsyncIterable<Prompt> {
+    return this._paginate(
+      async (pageParams, requestOptions) => {
+        const { prompts, nextCursor } = await this.listPrompts(pageParams, requestOptions);
+        return { items: prompts, nextCursor };
+      },
+      params,
+      options,
+    );
+  }
+
+  /**
+   * Lists all prompts of the server, across all pages.
+   */
+  async listAllPrompts(params?: ListPromptsRequest["params"], options?: PaginationOptions): Promise<Prompt[]> {
+    return collectAll(this.iteratePrompts(params, options));
+  }
+
+  /**
+   * Requests pages until the server stops returning a cursor, and yields their items. Starts from `params.cursor`, if
+   * given, and throws if the server returns a cursor that was already requested, instead of looping forever.
+   */
+  private async *_paginate<T>(
+    fetchPage: (
+      params: PaginatedRequest["params"],
+      options: RequestOptions,
+    ) => Promise<{ items: T[]; nextCursor?: Cursor }>,
+    params: PaginatedRequest["params"],
+    options?: PaginationOptions,
+  ): AsyncGenerator<T, void, undefined> {
+    const { pageSize, maxItems, ...requestOptions } = options ?? {};
+    const requestedCursors = new Set<Cursor>();
+    let cursor = params?.cursor;
+    let count = 0;
+
+    while (maxItems === undefined || count < maxItems) {
+      requestOptions.signal?.throwIfAborted();
+      if (cursor !== undefined) {
+        requestedCursors.add(cursor);
+      }
+
+      const page = await fetchPage(
+        {
+          ...params,
+          cursor,
+          ...(pageSize !== undefined && { _meta: { ...params?._meta, pageSize } }),
+        },
+        requestOptions,
+      );
+
+      for (const item of page.items) {
+        if (maxItems !== undefined && count >= maxItems) {
+          return;
+        }
+
+        count++;
+        yield item;
+      }
+
+      if (page.nextCursor === undefined) {
+        return;
+      }
+
+      if (requestedCursors.has(page.nextCursor)) {
+        throw new Error(`Server returned a cursor that was already requested: ${page.nextCursor}`);
+      }
+      cursor = page.nextCursor;
+    }
+  }
+
   async sendRootsListChanged() {
     return this.notification({ method: "notifications/roots/list_changed" });
   }
@@ -1,7 +1,19 @@
 import { JSONRPCMessage } from "../types.js";
+import { decodeMessage, MessageCodec } from "../shared/codec.js";
 import { Transport } from "../shared/transport.js";
 import { McpServer } from "src/server/mcp.js";
 
+/**
+ * Options for the PseudoTransport.
+ */
+export type PseudoTransportOptions = {
+  /**
+   * If set, every message in either direction is encoded and decoded with this codec, as if the server were
+   * running in another process. Values the codec cannot carry then fail here rather than only in production.
+   */
+  codec?: MessageCodec;
+};
+
 /**
  * Pseudo-Transport for testing or embedding: connects an MCP client
  * directly to an McpServer instance within the same process, bypassing
@@ -14,6 +26,7 @@ export class PseudoTransport implements Transport {
   private _started = false;
   private _mcpServer: McpServer;
   private _isServerConnected = false;
+  private _codec?: MessageCodec;
 
   private _clientMessageHandler?: (message: JSONRPCMessage) => void;
   private _clientErrorHandler?: (error: Error) => void;
@@ -24,12 +37,14 @@ export class PseudoTransport implements Transport {
   /**
    * Creates a PseudoTransport instance linked to a specific McpServer.
    * @param mcpServer The McpServer instance to communicate with.
+   * @param options Optional settings, such as a codec to round-trip messages through.
    */
-  constructor(mcpServer: McpServer) {
+  constructor(mcpServer: McpServer, options?: PseudoTransportOptions) {
     if (!mcpServer) {
       throw new Error("McpServer instance is required for PseudoTransport.");
     }
     this._mcpServer = mcpServer;
+    this._codec = options?.codec;
   }
 
   set onmessage(handler: ((message: JSONRPCMessage) => void) | undefined) {
@@ -77,6 +92,7 @@ export class PseudoTransport implements Transport {
         return self._serverMessageHandler;
       },
       send: async (message: JSONRPCMessage): Promise<void> => {
+        message = self._roundTrip(message);
         if (self._clientMessageHandler) {
           setTimeout(() => {
             try {
@@ -152,7 +168,7 @@ export class PseudoTransport implements Transport {
     return new Promise((resolve, reject) => {
       setTimeout(() => {
         try {
-          serverHandler(message);
+          serverHandler(this._roundTrip(message));
           resolve();
         } catch (error) {
           const err = error instanceof Error ? error : new Error(String(error));
@@ -162,4 +178,11 @@ export class PseudoTransport implements Transport {
       }, 0);
     });
   }
+
+  /**
+   * Passes a message through the configured codec, if any.
+   */
+  private _roundTrip(message: JSONRPCMessage): JSONRPCMessage {
+    return this._codec ? decodeMessage(this._codec, this._codec.encode(message)) : message;
+  }
 }
@@ -0,0 +1,151 @@
+import { RequestOptions } from "../shared/protocol.js";
+import { ErrorCode, McpError, ReadResourceResult, ResourceUpdatedNotificationSchema } from "../types.js";
+import type { Client } from "./index.js";
+
+/**
+ * Options for watching a resource with `Client.watchResource()`.
+ */
+export type WatchResourceOptions = RequestOptions & {
+  /**
+   * Whether to read the resource when watching starts and again after each update. Default is true.
+   *
+   * If false, the resource is never read, and each update yields a result without contents, which only signals that
+   * the resource changed.
+   */
+  read?: boolean;
+};
+
+/**
+ * The parts of a `Client` that resource subscriptions use, which do not depend on its custom request and notification
+ * types.
+ */
+type SubscriptionsClient = Pick<
+  Client,
+  "setNotificationHandler" | "readResource" | "subscribeResource" | "unsubscribeResource" | "transport" | "onerror"
+>;
+
+type Watcher = {
+  // Whether the resource changed since this watcher last yielded
+  changed: boolean;
+  // Set once the connection closed, which ends the watcher
+  closed?: boolean;
+  wake?: () => void;
+};
+
+type Subscription = {
+  watchers: Set<Watcher>;
+  subscribed: Promise<unknown>;
+};
+
+/**
+ * Shares one `resources/subscribe` subscription per URI between all the watchers of that resource, and delivers
+ * `notifications/resources/updated` to them.
+ */
+export class ResourceSubscriptions {
+  private _subscriptions: Map<string, Subscription> = new Map();
+
+  constructor(private _client: SubscriptionsClient) {
+    _client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      for (const watcher of this._subscriptions.get(notification.params.uri)?.watchers ?? []) {
+        this._notify(watcher);
+      }
+    });
+  }
+
+  /**
+   * Yields the contents of the resource with the given URI each time it changes, subscribing to it while iterating.
+   */
+  async *watch(uri: string, options: WatchResourceOptions = {}): AsyncGenerator<ReadResourceResult, void, undefined> {
+    const { read = true, signal } = options;
+    const watcher: Watcher = { changed: read };
+    const onAbort = () => watcher.wake?.();
+    signal?.addEventListener("abort", onAbort);
+
+    try {
+      signal?.throwIfAborted();
+      await this._addWatcher(uri, watcher);
+      while (true) {
+        signal?.throwIfAborted();
+        if (watcher.closed) {
+          throw new McpError(ErrorCode.ConnectionClosed, "Connection closed");
+        }
+        if (!watcher.changed) {
+          await new Promise<void>((resolve) => (watcher.wake = resolve));
+          watcher.wake = undefined;
+          continue;
+        }
+
+        // Updates that arrive while reading cause another read
+        watcher.changed = false;
+        yield read ? await this._client.readResource({ uri }, options) : { contents: [] };
+      }
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      this._removeWatcher(uri, watcher);
+    }
+  }
+
+  /**
+   * Subscribes again to every watched resource, after the transport reconnected, and tells the watchers to read the
+   * resources again, since they may have changed in the meantime.
+   */
+  async resubscribe(): Promise<void> {
+    await Promise.all(
+      [...this._subscriptions].map(async ([uri, subscription]) => {
+        subscription.subscribed = this._client.subscribeResource({ uri });
+        for (const watcher of subscription.watchers) {
+          this._notify(watcher);
+        }
+        await subscription.subscribed;
+      }),
+    );
+  }
+
+  /**
+   * Fails every watcher with `ConnectionClosed`, after the connection closed for good. The subscriptions are forgotten,
+   * as they ended with the server's session.
+   */
+  closeWatchers(): void {
+    const subscriptions = [...this._subscriptions.values()];
+    this._subscriptions.clear();
+    for (const watcher of subscriptions.flatMap((subscription) => [...subscription.watchers])) {
+      watcher.closed = true;
+      watcher.wake?.();
+    }
+  }
+
+  private _notify(watcher: Watcher): void {
+    watcher.changed = true;
+    watcher.wake?.();
+  }
+
+  private async _addWatcher(uri: string, watcher: Watcher): Promise<void> {
+    let subscription = this._subscriptions.get(uri);
+    if (!subscription) {
+      subscription = { watchers: new Set(), subscribed: this._client.subscribeResource({ uri }) };
+      this._subscriptions.set(uri, subscription);
+    }
+
+    subscription.watchers.add(watcher);
+    await subscription.subscribed;
+  }
+
+  private _removeWatcher(uri: string, watcher: Watcher): void {
+    const subscription = this._subscriptions.get(uri);
+    if (!subscription?.watchers.delete(watcher) || subscription.watchers.size > 0) {
+      return;
+    }
+
+    this._subscriptions.delete(uri);
+    subscription.subscribed.then(
+      () => {
+        // A new watcher may have subscribed again in the meantime
+        if (this._client.transport && !this._subscriptions.has(uri)) {
+          this._client.unsubscribeResource({ uri }).catch((error) => this._client.onerror?.(error));
+        }
+      },
+      // The failure was already reported, to the watchers or to `onerror`
+      () => {},
+    );
+  }
+}
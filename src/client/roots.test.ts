@@ -0,0 +1,57 @@
+import { RootsProvider } from "./roots.js";
+import { Root } from "../types.js";
+
+describe("RootsProvider", () => {
+  const wait = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+  let provider: RootsProvider;
+  let changes: Root[][];
+
+  beforeEach(() => {
+    provider = new RootsProvider([{ uri: "file:///a", name: "A" }], { changeDebounce: 10 });
+    changes = [];
+    provider.onChange((roots) => changes.push(roots));
+  });
+
+  afterEach(() => {
+    provider.close();
+  });
+
+  test("should add, replace and remove roots", () => {
+    provider.add({ uri: "file:///b" }, { uri: "file:///a", name: "Renamed" });
+    expect(provider.roots).toEqual([{ uri: "file:///a", name: "Renamed" }, { uri: "file:///b" }]);
+
+    provider.remove("file:///a", "file:///unknown");
+    expect(provider.roots).toEqual([{ uri: "file:///b" }]);
+  });
+
+  test("should coalesce changes in quick succession", async () => {
+    provider.add({ uri: "file:///b" });
+    provider.add({ uri: "file:///c" });
+    provider.remove("file:///a");
+    await wait();
+
+    expect(changes).toEqual([[{ uri: "file:///b" }, { uri: "file:///c" }]]);
+  });
+
+  test("should not report changes that change nothing", async () => {
+    provider.add({ uri: "file:///a", name: "A" });
+    provider.remove("file:///unknown");
+    await wait();
+
+    expect(changes).toEqual([]);
+  });
+
+  test("should reject invalid roots without adding any", () => {
+    expect(() => provider.add({ uri: "file:///b" }, { uri: "https://example.com" })).toThrow();
+    expect(provider.roots).toEqual([{ uri: "file:///a", name: "A" }]);
+  });
+
+  test("should not report pending changes after closing", async () => {
+    provider.add({ uri: "file:///b" });
+    provider.close();
+    await wait();
+
+    expect(changes).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+import { createEventNotifier } from "../shared/eventNotifier.js";
+import { Root, RootSchema } from "../types.js";
+
+/**
+ * The default time (in milliseconds) to wait after the roots change before reporting it, so that several changes in a
+ * row are reported once.
+ */
+export const DEFAULT_ROOTS_CHANGE_DEBOUNCE = 100;
+
+/**
+ * Options for a `RootsProvider`.
+ */
+export type RootsProviderOptions = {
+  /**
+   * How long (in milliseconds) to wait after the roots change before notifying `onChange` listeners, so that several
+   * changes in a row cause a single notification. Default is 100.
+   */
+  changeDebounce?: number;
+};
+
+/**
+ * The roots that a `Client` exposes to servers, which can change while it is connected.
+ *
+ * A client given a provider in its `roots` option answers `roots/list` requests with the current roots, advertises the
+ * `roots.listChanged` capability, and sends `notifications/roots/list_changed` when `onChange` fires.
+ */
+export class RootsProvider {
+  private _roots: Map<string, Root> = new Map();
+  private _changeTimer?: ReturnType<typeof setTimeout>;
+  private _onChange = createEventNotifier<Root[]>();
+
+  constructor(
+    roots: Root[] = [],
+    private _options: RootsProviderOptions = {},
+  ) {
+    for (const root of roots) {
+      this._roots.set(root.uri, RootSchema.parse(root));
+    }
+  }
+
+  /**
+   * Event notifier for changes to the roots, with the new roots. Changes made in quick succession are coalesced into a
+   * single event.
+   */
+  public readonly onChange = this._onChange.onEvent;
+
+  get roots(): Root[] {
+    return [...this._roots.values()];
+  }
+
+  /**
+   * Adds the given roots, replacing any existing roots with the same URIs.
+   *
+   * @throws If a root is invalid, e.g. its URI does not start with `file://`. No roots are added in that case.
+   */
+  add(...roots: Root[]): void {
+    const parsed = roots.map((root) => RootSchema.parse(root));
+    let changed = false;
+    for (const root of parsed) {
+      const existing = this._roots.get(root.uri);
+      if (existing === undefined || JSON.stringify(existing) !== JSON.stringify(root)) {
+        this._roots.set(root.uri, root);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this._scheduleChange();
+    }
+  }
+
+  /**
+   * Removes the roots with the given URIs. URIs that are not roots are ignored.
+   */
+  remove(...uris: string[]): void {
+    let changed = false;
+    for (const uri of uris) {
+      changed = this._roots.delete(uri) || changed;
+    }
+
+    if (changed) {
+      this._scheduleChange();
+    }
+  }
+
+  /**
+   * Stops any pending change notification and removes all listeners.
+   */
+  close(): void {
+    clearTimeout(this._changeTimer);
+    this._changeTimer = undefined;
+    this._onChange.close();
+  }
+
+  private _scheduleChange(): void {
+    clearTimeout(this._changeTimer);
+    this._changeTimer = setTimeout(() => {
+      this._changeTimer = undefined;
+      this._onChange.notify(() => this.roots);
+    }, this._options.changeDebounce ?? DEFAULT_ROOTS_CHANGE_DEBOUNCE);
+  }
+}
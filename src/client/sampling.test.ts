@@ -0,0 +1,50 @@
+import { selectModel, StubSamplingAdapter } from "./sampling.js";
+
+describe("selectModel", () => {
+  const models = ["claude-3-5-sonnet", "claude-3-haiku", "gpt-4o"];
+
+  test("should select the first model matching the first hint that matches", () => {
+    expect(selectModel(models, { hints: [{ name: "gemini" }, { name: "haiku" }, { name: "claude" }] })).toBe(
+      "claude-3-haiku",
+    );
+  });
+
+  test("should fall back to the first model", () => {
+    expect(selectModel(models)).toBe("claude-3-5-sonnet");
+    expect(selectModel(models, { hints: [{ name: "gemini" }, {}] })).toBe("claude-3-5-sonnet");
+  });
+
+  test("should throw without models", () => {
+    expect(() => selectModel([])).toThrow("Sampling adapter has no models");
+  });
+});
+
+describe("StubSamplingAdapter", () => {
+  test("should echo the last message and record requests", async () => {
+    const adapter = new StubSamplingAdapter();
+    const request = {
+      model: "stub",
+      maxTokens: 10,
+      messages: [
+        { role: "user" as const, content: { type: "text" as const, text: "first" } },
+        { role: "user" as const, content: { type: "text" as const, text: "second" } },
+      ],
+    };
+
+    expect(await adapter.createMessage(request)).toEqual({
+      content: { type: "text", text: "second" },
+      stopReason: "endTurn",
+    });
+    expect(adapter.requests).toEqual([request]);
+  });
+
+  test("should use the given models and responses", async () => {
+    const adapter = new StubSamplingAdapter({ models: ["a", "b"], respond: ({ model }) => `from ${model}` });
+
+    expect(adapter.models).toEqual(["a", "b"]);
+    expect(await adapter.createMessage({ model: "b", maxTokens: 10, messages: [] })).toEqual({
+      content: { type: "text", text: "from b" },
+      stopReason: "endTurn",
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { RequestHandlerExtra } from "../shared/protocol.js";
+import {
+  ClientNotification,
+  ClientRequest,
+  CreateMessageRequest,
+  CreateMessageResult,
+  ErrorCode,
+  McpError,
+  ModelPreferences,
+} from "../types.js";
+
+/**
+ * Handles a `sampling/createMessage` request from the server, e.g. by sampling an LLM.
+ */
+export type SamplingHandler = (
+  params: CreateMessageRequest["params"],
+  extra: RequestHandlerExtra<ClientRequest, ClientNotification>,
+) => CreateMessageResult | Promise<CreateMessageResult>;
+
+/**
+ * A sampling request as passed to a `SamplingAdapter`, with the model that was selected for it.
+ */
+export type SamplingAdapterRequest = CreateMessageRequest["params"] & {
+  model: string;
+};
+
+/**
+ * The message sampled by a `SamplingAdapter`. The selected model is reported to the server unless `model` is given.
+ */
+export type SamplingAdapterResult = {
+  content: CreateMessageResult["content"];
+  stopReason?: CreateMessageResult["stopReason"];
+  model?: string;
+};
+
+/**
+ * Maps sampling requests from the server to calls to an LLM provider.
+ */
+export interface SamplingAdapter {
+  /**
+   * The names of the models that can be sampled, in order of preference. There must be at least one.
+   */
+  readonly models: string[];
+
+  /**
+   * Selects the model to sample for a request. By default, this is done by `selectModel()`.
+   */
+  selectModel?(preferences: ModelPreferences | undefined): string;
+
+  /**
+   * Samples a message from the selected model.
+   */
+  createMessage(request: SamplingAdapterRequest, options: { signal: AbortSignal }): Promise<SamplingAdapterResult>;
+}
+
+/**
+ * Hooks to let the user inspect sampling requests and results, as MCP expects clients to keep a human in the loop.
+ */
+export type SamplingOptions = {
+  /**
+   * Called before sampling. Return false to reject the request with a `UserRejected` error.
+   */
+  approveRequest?: (
+    params: CreateMessageRequest["params"],
+    extra: RequestHandlerExtra<ClientRequest, ClientNotification>,
+  ) => boolean | Promise<boolean>;
+
+  /**
+   * Called before the sampled message is returned to the server. Return false to withhold it and reject the
+   * request with a `UserRejected` error.
+   */
+  approveResult?: (
+    result: CreateMessageResult,
+    params: CreateMessageRequest["params"],
+    extra: RequestHandlerExtra<ClientRequest, ClientNotification>,
+  ) => boolean | Promise<boolean>;
+};
+
+/**
+ * Selects the first model that matches one of the hints in the server's preferences, trying the hints in order, or the
+ * first model if none match. As MCP suggests, a hint matches every model whose name contains the hint's name.
+ *
+ * The cost, speed and intelligence priorities are not taken into account, since they are relative to models this
+ * function knows nothing about. Adapters that know their models can weigh them in `SamplingAdapter.selectModel()`.
+ */
+export function selectModel(models: string[], preferences?: ModelPreferences): string {
+  for (const { name } of preferences?.hints ?? []) {
+    const model = name !== undefined ? models.find((model) => model.includes(name)) : undefined;
+    if (model !== undefined) {
+      return model;
+    }
+  }
+
+  if (models.length === 0) {
+    throw new Error("Sampling adapter has no models");
+  }
+  return models[0];
+}
+
+/**
+ * Creates a handler for `sampling/createMessage` requests that samples through the given adapter, or calls the given
+ * handler, once the request is approved, and returns the result once that is approved.
+ */
+export function createSamplingHandler(
+  handler: SamplingHandler | SamplingAdapter,
+  options: SamplingOptions = {},
+): SamplingHandler {
+  const sample = typeof handler === "function" ? handler : adapterHandler(handler);
+  return async (params, extra) => {
+    if (options.approveRequest && !(await options.approveRequest(params, extra))) {
+      throw new McpError(ErrorCode.UserRejected, "User rejected sampling request");
+    }
+
+    const result = await sample(params, extra);
+    if (options.approveResult && !(await options.approveResult(result, params, extra))) {
+      throw new McpError(ErrorCode.UserRejected, "User rejected sampling result");
+    }
+    return result;
+  };
+}
+
+function adapterHandler(adapter: SamplingAdapter): SamplingHandler {
+  return async (params, extra) => {
+    const model = adapter.selectModel?.(params.modelPreferences) ?? selectModel(adapter.models, params.modelPreferences);
+    const result = await adapter.createMessage({ ...params, model }, { signal: extra.signal });
+    return { ...result, model: result.model ?? model, role: "assistant" };
+  };
+}
+
+/**
+ * Options for a `StubSamplingAdapter`.
+ */
+export type StubSamplingAdapterOptions = {
+  /**
+   * The names of the models to pretend to sample. Default is `["stub"]`.
+   */
+  models?: string[];
+
+  /**
+   * Returns the text of the sampled message. By default, this is the text of the last message, so that the adapter
+   * echoes it.
+   */
+  respond?: (request: SamplingAdapterRequest) => string;
+};
+
+/**
+ * A `SamplingAdapter` that answers deterministically without calling any LLM, and records the requests it receives,
+ * for use in tests.
+ */
+export class StubSamplingAdapter implements SamplingAdapter {
+  readonly models: string[];
+
+  /**
+   * The requests received so far, in order.
+   */
+  readonly requests: SamplingAdapterRequest[] = [];
+
+  constructor(private _options: StubSamplingAdapterOptions = {}) {
+    this.models = _options.models ?? ["stub"];
+  }
+
+  async createMessage(request: SamplingAdapterRequest): Promise<SamplingAdapterResult> {
+    this.requests.push(request);
+    const last = request.messages[request.messages.length - 1]?.content;
+    const text = this._options.respond?.(request) ?? (last?.type === "text" ? last.text : "");
+    return { content: { type: "text", text }, stopReason: "endTurn" };
+  }
+}
@@ -61,6 +61,7 @@ export class SSEClientTransport implements Transport {
   private _eventSourceInit?: EventSourceInit;
   private _requestInit?: RequestInit;
   private _authProvider?: OAuthClientProvider;
+  private _protocolVersion?: string;
 
   onclose?: () => void;
   onerror?: (error: Error) => void;
@@ -105,6 +106,10 @@ export class SSEClientTransport implements Transport {
       }
     }
 
+    if (this._protocolVersion) {
+      headers["mcp-protocol-version"] = this._protocolVersion;
+    }
+
     return headers;
   }
 
@@ -205,6 +210,10 @@ export class SSEClientTransport implements Transport {
     this.onclose?.();
   }
 
+  setProtocolVersion(version: string): void {
+    this._protocolVersion = version;
+  }
+
   async send(message: JSONRPCMessage): Promise<void> {
     if (!this._endpoint) {
       throw new Error("Not connected");
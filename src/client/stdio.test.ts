@@ -0,0 +1,146 @@
+import { JSONRPCMessage } from "../types.js";
+import { StdioClientTransport, StdioServerParameters } from "./stdio.js";
+
+/**
+ * Runs an inline script with the current Node binary.
+ */
+function nodeScript(script: string, options?: Partial<StdioServerParameters>): StdioServerParameters {
+  return { command: process.execPath, args: ["-e", script], ...options };
+}
+
+const ECHO_SCRIPT = `
+  process.stdin.setEncoding("utf8");
+  let buffer = "";
+  process.stdin.on("data", (chunk) => {
+    buffer += chunk;
+    let index;
+    while ((index = buffer.indexOf("\\n")) !== -1) {
+      process.stdout.write(buffer.slice(0, index + 1));
+      buffer = buffer.slice(index + 1);
+    }
+  });
+`;
+
+test("should start then close cleanly", async () => {
+  const client = new StdioClientTransport(nodeScript(ECHO_SCRIPT));
+  client.onerror = (error) => {
+    throw error;
+  };
+
+  let didClose = false;
+  client.onclose = () => {
+    didClose = true;
+  };
+
+  await client.start();
+  expect(client.pid).not.toBeNull();
+  expect(didClose).toBe(false);
+
+  await client.close();
+  expect(didClose).toBe(true);
+  expect(client.pid).toBeNull();
+});
+
+test("should read messages", async () => {
+  const client = new StdioClientTransport(nodeScript(ECHO_SCRIPT));
+  client.onerror = (error) => {
+    throw error;
+  };
+
+  const messages: JSONRPCMessage[] = [
+    { jsonrpc: "2.0", id: 1, method: "ping" },
+    { jsonrpc: "2.0", method: "notifications/initialized" },
+  ];
+
+  const readMessages: JSONRPCMessage[] = [];
+  const finished = new Promise<void>((resolve) => {
+    client.onmessage = (message) => {
+      readMessages.push(message);
+      if (readMessages.length === messages.length) {
+        resolve();
+      }
+    };
+  });
+
+  await client.start();
+  await client.send(messages[0]);
+  await client.send(messages[1]);
+  await finished;
+  expect(readMessages).toEqual(messages);
+
+  await client.close();
+});
+
+test("should report malformed output to onerror", async () => {
+  const client = new StdioClientTransport(
+    nodeScript(`process.stdout.write("not json\\n" + JSON.stringify({ jsonrpc: "2.0", method: "ok" }) + "\\n");`),
+  );
+
+  const errors: Error[] = [];
+  client.onerror = (error) => errors.push(error);
+  const received = new Promise<JSONRPCMessage>((resolve) => {
+    client.onmessage = resolve;
+  });
+
+  await client.start();
+  expect(await received).toEqual({ jsonrpc: "2.0", method: "ok" });
+  expect(errors).toHaveLength(1);
+
+  await client.close();
+});
+
+test("should forward stderr to onstderr", async () => {
+  const client = new StdioClientTransport(nodeScript(`process.stderr.write("server log\\n");`));
+
+  let stderr = "";
+  client.onstderr = (data) => {
+    stderr += data;
+  };
+  const closed = new Promise<void>((resolve) => {
+    client.onclose = resolve;
+  });
+
+  await client.start();
+  await closed;
+  expect(stderr).toBe("server log\n");
+});
+
+test("should escalate to SIGKILL when the server ignores shutdown", async () => {
+  const client = new StdioClientTransport(
+    nodeScript(
+      `process.on("SIGTERM", () => {}); process.stdin.resume(); process.stdin.on("end", () => {}); setInterval(() => {}, 1000); process.stderr.write("ready");`,
+      { shutdownTimeout: 100 },
+    ),
+  );
+
+  const ready = new Promise<void>((resolve) => {
+    client.onstderr = () => resolve();
+  });
+
+  await client.start();
+  await ready;
+
+  const startedAt = Date.now();
+  await client.close();
+  expect(Date.now() - startedAt).toBeGreaterThanOrEqual(200);
+  expect(client.pid).toBeNull();
+});
+
+test("should reject sends waiting for stdin to drain when the server exits", async () => {
+  // The server never reads its stdin, so it fills up
+  const client = new StdioClientTransport(nodeScript(`setInterval(() => {}, 1000);`, { shutdownTimeout: 100 }));
+  client.onerror = () => {};
+  await client.start();
+
+  const sending = client.send({ jsonrpc: "2.0", method: "large", params: { data: "x".repeat(1024 * 1024) } });
+  const rejected = expect(sending).rejects.toThrow();
+  await client.close();
+  await rejected;
+});
+
+test("should reject start() when the command does not exist", async () => {
+  const client = new StdioClientTransport({ command: "mcp-test-command-that-does-not-exist" });
+  client.onerror = () => {};
+
+  await expect(client.start()).rejects.toThrow();
+});
@@ -0,0 +1,255 @@
+import { ChildProcess, IOType, spawn } from "node:child_process";
+import process from "node:process";
+import { Stream } from "node:stream";
+import { frameMessage, FramingError, ReadBuffer, StdioFramingOptions, waitForDrain } from "../shared/stdio.js";
+import { Transport } from "../shared/transport.js";
+import { JSONRPCMessage } from "../types.js";
+
+/**
+ * The time (in milliseconds) to wait for the server process to exit at each shutdown step.
+ */
+const DEFAULT_SHUTDOWN_TIMEOUT_MSEC = 2000;
+
+export type StdioServerParameters = {
+  /**
+   * The executable to run to start the server.
+   */
+  command: string;
+
+  /**
+   * Command line arguments to pass to the executable.
+   */
+  args?: string[];
+
+  /**
+   * The environment to use when spawning the process.
+   *
+   * If not specified, the result of getDefaultEnvironment() will be used.
+   */
+  env?: Record<string, string>;
+
+  /**
+   * How to handle stderr of the child process. This matches the semantics of Node's `child_process.spawn`.
+   *
+   * The default is "inherit", meaning messages to stderr will be printed to the parent process's stderr.
+   * If `onstderr` is set on the transport before it is started, stderr is piped to that callback instead.
+   */
+  stderr?: IOType | Stream | number;
+
+  /**
+   * The working directory to use when spawning the process.
+   *
+   * If not specified, the current working directory will be inherited.
+   */
+  cwd?: string;
+
+  /**
+   * The time (in milliseconds) to wait for the process to exit after closing its stdin, and again after sending SIGTERM,
+   * before escalating. Default is 2000.
+   */
+  shutdownTimeout?: number;
+} & StdioFramingOptions;
+
+/**
+ * Environment variables to inherit by default, if an environment is not explicitly given.
+ */
+export const DEFAULT_INHERITED_ENV_VARS =
+  process.platform === "win32"
+    ? [
+        "APPDATA",
+        "HOMEDRIVE",
+        "HOMEPATH",
+        "LOCALAPPDATA",
+        "PATH",
+        "PROCESSOR_ARCHITECTURE",
+        "SYSTEMDRIVE",
+        "SYSTEMROOT",
+        "TEMP",
+        "USERNAME",
+        "USERPROFILE",
+      ]
+    : /* list inspired by the default env inheritance of sudo */
+      ["HOME", "LOGNAME", "PATH", "SHELL", "TERM", "USER"];
+
+/**
+ * Returns a default environment object including only environment variables deemed safe to inherit.
+ */
+export function getDefaultEnvironment(): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  for (const key of DEFAULT_INHERITED_ENV_VARS) {
+    const value = process.env[key];
+    if (value === undefined) {
+      continue;
+    }
+
+    if (value.startsWith("()")) {
+      // Skip functions, which are a security risk.
+      continue;
+    }
+
+    env[key] = value;
+  }
+
+  return env;
+}
+
+/**
+ * Client transport for stdio: this will connect to a server by spawning a process and communicating with it over stdin/stdout.
+ *
+ * This transport is only available in Node.js environments, and is exposed separately from the browser-compatible entry points.
+ */
+export class StdioClientTransport implements Transport {
+  private _process?: ChildProcess;
+  private _readBuffer: ReadBuffer;
+  private _serverParams: StdioServerParameters;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  /**
+   * Callback for output written by the server process to stderr.
+   *
+   * This must be set before the transport is started.
+   */
+  onstderr?: (data: string) => void;
+
+  constructor(server: StdioServerParameters) {
+    this._serverParams = server;
+    this._readBuffer = new ReadBuffer(server);
+  }
+
+  /**
+   * Starts the server process and prepares to communicate with it.
+   */
+  async start(): Promise<void> {
+    if (this._process) {
+      throw new Error(
+        "StdioClientTransport already started! If using Client class, note that connect() calls start() automatically.",
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      this._process = spawn(
+        this._serverParams.command,
+        this._serverParams.args ?? [],
+        {
+          env: this._serverParams.env ?? getDefaultEnvironment(),
+          stdio: ["pipe", "pipe", this.onstderr ? "pipe" : this._serverParams.stderr ?? "inherit"],
+          shell: false,
+          windowsHide: process.platform === "win32",
+          cwd: this._serverParams.cwd,
+        },
+      );
+
+      this._process.on("error", (error) => {
+        reject(error);
+        this.onerror?.(error);
+      });
+
+      this._process.on("spawn", () => {
+        resolve();
+      });
+
+      this._process.on("close", () => {
+        this._process = undefined;
+        this.onclose?.();
+      });
+
+      this._process.stdin?.on("error", (error) => {
+        this.onerror?.(error);
+      });
+
+      this._process.stdout?.on("data", (chunk) => {
+        this._readBuffer.append(chunk);
+        this.processReadBuffer();
+      });
+
+      this._process.stdout?.on("error", (error) => {
+        this.onerror?.(error);
+      });
+
+      this._process.stderr?.setEncoding("utf8");
+      this._process.stderr?.on("data", (data: string) => {
+        this.onstderr?.(data);
+      });
+    });
+  }
+
+  /**
+   * The child process pid spawned by this transport.
+   *
+   * This is only available after the transport has been started.
+   */
+  get pid(): number | null {
+    return this._process?.pid ?? null;
+  }
+
+  private processReadBuffer() {
+    while (true) {
+      try {
+        const message = this._readBuffer.readMessage();
+        if (message === null) {
+          break;
+        }
+
+        this.onmessage?.(message);
+      } catch (error) {
+        this.onerror?.(error as Error);
+        if (error instanceof FramingError) {
+          // The stream can no longer be split into messages
+          void this.close();
+          break;
+        }
+      }
+    }
+  }
+
+  /**
+   * Shuts down the server process gracefully: its stdin is closed first, then SIGTERM is sent if it has not exited
+   * within the shutdown timeout, and finally SIGKILL.
+   */
+  async close(): Promise<void> {
+    const processToClose = this._process;
+    if (processToClose && processToClose.exitCode === null && processToClose.signalCode === null) {
+      const timeout = this._serverParams.shutdownTimeout ?? DEFAULT_SHUTDOWN_TIMEOUT_MSEC;
+      const exited = new Promise<void>((resolve) => {
+        processToClose.once("close", () => resolve());
+      });
+      const waitForExit = () =>
+        Promise.race([
+          exited.then(() => true),
+          new Promise<boolean>((resolve) => setTimeout(() => resolve(false), timeout).unref()),
+        ]);
+
+      processToClose.stdin?.end();
+      if (!(await waitForExit())) {
+        processToClose.kill("SIGTERM");
+
+        if (!(await waitForExit())) {
+          processToClose.kill("SIGKILL");
+          await exited;
+        }
+      }
+    }
+
+    this._process = undefined;
+    this._readBuffer.clear();
+  }
+
+  /**
+   * Writes the message to the server's stdin, waiting for it to drain if its buffer is full. Rejects if the server
+   * exits before then.
+   */
+  async send(message: JSONRPCMessage): Promise<void> {
+    const stdin = this._process?.stdin;
+    if (!stdin) {
+      throw new Error("Not connected");
+    }
+
+    if (!stdin.write(frameMessage(message, this._serverParams))) {
+      await waitForDrain(stdin);
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { StreamableHTTPClientTransport, StreamableHTTPReconnectionOptions } from "./streamableHttp.js";
 import { JSONRPCMessage } from "../types.js";
+import { msgpackCodec } from "../shared/codec.js";
 
 
 describe("StreamableHTTPClientTransport", () => {
@@ -101,6 +102,23 @@ describe("StreamableHTTPClientTransport", () => {
     expect(lastCall[1].headers.get("mcp-session-id")).toBe("test-session-id");
   });
 
+  it("should send the negotiated protocol version on subsequent requests", async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 202,
+      headers: new Headers()
+    });
+
+    await transport.send({ jsonrpc: "2.0", method: "test", params: {} } as JSONRPCMessage);
+    transport.setProtocolVersion("2025-03-26");
+    await transport.send({ jsonrpc: "2.0", method: "test", params: {} } as JSONRPCMessage);
+
+    const calls = (global.fetch as jest.Mock).mock.calls;
+    expect(calls[0][1].headers.has("mcp-protocol-version")).toBe(false);
+    expect(calls[1][1].headers.get("mcp-protocol-version")).toBe("2025-03-26");
+    expect(transport.protocolVersion).toBe("2025-03-26");
+  });
+
   it("should terminate session with DELETE request", async () => {
     // First, simulate getting a session ID
     const message: JSONRPCMessage = {
@@ -497,4 +515,41 @@ describe("StreamableHTTPClientTransport", () => {
     expect(getDelay(10)).toBe(5000);
   });
 
+  it("should send and receive messages with a configured codec", async () => {
+    transport = new StreamableHTTPClientTransport(new URL("http://localhost:1234/mcp"), { codec: msgpackCodec });
+    const message: JSONRPCMessage = { jsonrpc: "2.0", method: "test", params: {}, id: "test-id" };
+    const responseMessage: JSONRPCMessage = { jsonrpc: "2.0", result: { success: true }, id: "test-id" };
+
+    (global.fetch as jest.Mock).mockResolvedValueOnce(
+      new Response(msgpackCodec.encode(responseMessage), {
+        status: 200,
+        headers: { "content-type": msgpackCodec.mediaType },
+      }),
+    );
+
+    const messageSpy = jest.fn();
+    transport.onmessage = messageSpy;
+
+    await transport.send(message);
+
+    const init = (global.fetch as jest.Mock).mock.calls[0][1];
+    expect(init.headers.get("content-type")).toBe(msgpackCodec.mediaType);
+    expect(msgpackCodec.decode(init.body)).toEqual(message);
+    expect(messageSpy).toHaveBeenCalledWith(responseMessage);
+  });
+
+  it("should fall back to JSON when the server does not support the codec", async () => {
+    transport = new StreamableHTTPClientTransport(new URL("http://localhost:1234/mcp"), { codec: msgpackCodec });
+    const message: JSONRPCMessage = { jsonrpc: "2.0", method: "initialized" };
+
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(new Response(null, { status: 415 }))
+      .mockResolvedValueOnce(new Response(null, { status: 202 }));
+
+    await transport.send(message);
+
+    const init = (global.fetch as jest.Mock).mock.calls[1][1];
+    expect(init.headers.get("content-type")).toBe("application/json");
+    expect(init.body).toBe(JSON.stringify(message));
+  });
 });
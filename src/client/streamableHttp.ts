@@ -1,3 +1,4 @@
+import { codecForMediaType, jsonCodec, MessageCodec } from "../shared/codec.js";
 import { Transport } from "../shared/transport.js";
 import { isInitializedNotification, isJSONRPCRequest, isJSONRPCResponse, JSONRPCMessage, JSONRPCMessageSchema } from "../types.js";
 import { auth, AuthResult, OAuthClientProvider, UnauthorizedError } from "./auth.js";
@@ -109,6 +110,14 @@ export type StreamableHTTPClientTransportOptions = {
    * When not provided and connecting to a server that supports session IDs, the server will generate a new session ID.
    */
   sessionId?: string;
+
+  /**
+   * The codec used for POST request bodies and JSON responses. Default is `jsonCodec`.
+   *
+   * If the server rejects the codec's media type with 415 Unsupported Media Type, the transport falls back to JSON
+   * for the rest of the session. SSE streams always carry JSON.
+   */
+  codec?: MessageCodec;
 };
 
 /**
@@ -122,7 +131,9 @@ export class StreamableHTTPClientTransport implements Transport {
   private _requestInit?: RequestInit;
   private _authProvider?: OAuthClientProvider;
   private _sessionId?: string;
+  private _protocolVersion?: string;
   private _reconnectionOptions: StreamableHTTPReconnectionOptions;
+  private _codec: MessageCodec;
 
   onclose?: () => void;
   onerror?: (error: Error) => void;
@@ -137,6 +148,7 @@ export class StreamableHTTPClientTransport implements Transport {
     this._authProvider = opts?.authProvider;
     this._sessionId = opts?.sessionId;
     this._reconnectionOptions = opts?.reconnectionOptions ?? DEFAULT_STREAMABLE_HTTP_RECONNECTION_OPTIONS;
+    this._codec = opts?.codec ?? jsonCodec;
   }
 
   private async _authThenStart(): Promise<void> {
@@ -172,6 +184,10 @@ export class StreamableHTTPClientTransport implements Transport {
       headers["mcp-session-id"] = this._sessionId;
     }
 
+    if (this._protocolVersion) {
+      headers["mcp-protocol-version"] = this._protocolVersion;
+    }
+
     return new Headers(
       { ...headers, ...this._requestInit?.headers }
     );
@@ -379,15 +395,19 @@ export class StreamableHTTPClientTransport implements Transport {
         return;
       }
 
+      const codec = this._codec;
       const headers = await this._commonHeaders();
-      headers.set("content-type", "application/json");
-      headers.set("accept", "application/json, text/event-stream");
+      headers.set("content-type", codec.mediaType);
+      headers.set(
+        "accept",
+        codec === jsonCodec ? "application/json, text/event-stream" : `${codec.mediaType}, application/json, text/event-stream`,
+      );
 
       const init = {
         ...this._requestInit,
         method: "POST",
         headers,
-        body: JSON.stringify(message),
+        body: codec.encode(message),
         signal: this._abortController?.signal,
       };
 
@@ -410,6 +430,12 @@ export class StreamableHTTPClientTransport implements Transport {
           return this.send(message);
         }
 
+        if (response.status === 415 && codec !== jsonCodec) {
+          // The server does not support this codec, so fall back to JSON
+          this._codec = jsonCodec;
+          return this.send(message, options);
+        }
+
         const text = await response.text().catch(() => null);
         throw new Error(
           `Error POSTing to endpoint (HTTP ${response.status}): ${text}`,
@@ -434,6 +460,7 @@ export class StreamableHTTPClientTransport implements Transport {
 
       // Check the response type
       const contentType = response.headers.get("content-type");
+      const responseCodec = codecForMediaType(contentType, [codec]);
 
       if (hasRequests) {
         if (contentType?.includes("text/event-stream")) {
@@ -448,6 +475,16 @@ export class StreamableHTTPClientTransport implements Transport {
             ? data.map(msg => JSONRPCMessageSchema.parse(msg))
             : [JSONRPCMessageSchema.parse(data)];
 
+          for (const msg of responseMessages) {
+            this.onmessage?.(msg);
+          }
+        } else if (responseCodec) {
+          // Or responses in the codec of the request
+          const data = responseCodec.decode(
+            responseCodec.binary ? new Uint8Array(await response.arrayBuffer()) : await response.text(),
+          );
+          const responseMessages = Array.isArray(data) ? data : [data];
+
           for (const msg of responseMessages) {
             this.onmessage?.(msg);
           }
@@ -468,6 +505,14 @@ export class StreamableHTTPClientTransport implements Transport {
     return this._sessionId;
   }
 
+  setProtocolVersion(version: string): void {
+    this._protocolVersion = version;
+  }
+
+  get protocolVersion(): string | undefined {
+    return this._protocolVersion;
+  }
+
   /**
    * Terminates the current session by sending a DELETE request to the server.
    * 
@@ -0,0 +1,369 @@
+import { once } from "node:events";
+import { AddressInfo } from "node:net";
+import { WebSocket as NodeWebSocket, WebSocketServer } from "ws";
+import { Server } from "../server/index.js";
+import { selectSubprotocol, ServerWebSocket, WebSocketServerTransport } from "../server/websocket.js";
+import { jsonCodec, msgpackCodec } from "../shared/codec.js";
+import { TransportDemultiplexer, TransportMultiplexer } from "../shared/multiplex.js";
+import { Transport } from "../shared/transport.js";
+import { composeTransport } from "../shared/transportMiddleware.js";
+import { CallToolRequestSchema, ErrorCode, JSONRPCMessage, ListToolsRequestSchema } from "../types.js";
+import { Client } from "./index.js";
+import { WebSocketClientTransport, WebSocketConnectionStateEvent } from "./websocket.js";
+
+// Minimal stand-in for the browser WebSocket, controlled by the tests
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+
+  onopen?: () => void;
+  onclose?: (event: { code: number }) => void;
+  onerror?: (event: unknown) => void;
+  onmessage?: (event: { data: string | ArrayBuffer }) => void;
+  sent: (string | Uint8Array)[] = [];
+
+  constructor(public url: URL, public protocol: string | string[]) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string | Uint8Array): void {
+    this.sent.push(data);
+  }
+
+  close(): void {
+    this.onclose?.({ code: 1000 });
+  }
+
+  // Test helpers
+  open(): void {
+    this.onopen?.();
+  }
+
+  drop(code = 1006): void {
+    this.onclose?.({ code });
+  }
+
+  fail(): void {
+    this.onerror?.({ error: new Error("connection refused") });
+    this.onclose?.({ code: 1006 });
+  }
+}
+
+const latestSocket = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+describe("WebSocketClientTransport", () => {
+  const url = new URL("ws://localhost:1234/mcp");
+  const message: JSONRPCMessage = { jsonrpc: "2.0", method: "ping", id: 1 };
+  let originalWebSocket: unknown;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    FakeWebSocket.instances = [];
+    originalWebSocket = (globalThis as Record<string, unknown>).WebSocket;
+    (globalThis as Record<string, unknown>).WebSocket = FakeWebSocket;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    (globalThis as Record<string, unknown>).WebSocket = originalWebSocket;
+  });
+
+  async function startTransport(transport: WebSocketClientTransport): Promise<void> {
+    const started = transport.start();
+    latestSocket().open();
+    await started;
+  }
+
+  it("connects with the mcp subprotocol and sends messages", async () => {
+    const transport = new WebSocketClientTransport(url);
+    await startTransport(transport);
+
+    expect(latestSocket().protocol).toBe("mcp");
+    await transport.send(message);
+    expect(latestSocket().sent).toEqual([JSON.stringify(message)]);
+  });
+
+  it("offers several codecs and uses the one the server selects", async () => {
+    const transport = new WebSocketClientTransport(url, { codecs: [msgpackCodec, jsonCodec] });
+    const onmessage = jest.fn();
+    transport.onmessage = onmessage;
+
+    const started = transport.start();
+    const socket = latestSocket();
+    expect(socket.protocol).toEqual(["mcp.msgpack", "mcp"]);
+    socket.protocol = "mcp.msgpack";
+    socket.open();
+    await started;
+
+    expect(transport.codec).toBe(msgpackCodec);
+    await transport.send(message);
+    expect(msgpackCodec.decode(socket.sent[0])).toEqual(message);
+
+    const encoded = msgpackCodec.encode({ jsonrpc: "2.0", result: {}, id: 1 }) as Uint8Array;
+    socket.onmessage?.({ data: encoded.buffer.slice(encoded.byteOffset, encoded.byteOffset + encoded.byteLength) });
+    expect(onmessage).toHaveBeenCalledWith({ jsonrpc: "2.0", result: {}, id: 1 });
+  });
+
+  it("closes on the first socket close when reconnection is not configured", async () => {
+    const transport = new WebSocketClientTransport(url);
+    const onclose = jest.fn();
+    transport.onclose = onclose;
+    await startTransport(transport);
+
+    latestSocket().drop();
+
+    expect(onclose).toHaveBeenCalledTimes(1);
+    expect(transport.connectionState).toBe("closed");
+  });
+
+  it("reconnects with exponential backoff and reports state changes", async () => {
+    const transport = new WebSocketClientTransport(url, {
+      reconnectionOptions: {
+        initialReconnectionDelay: 100,
+        maxReconnectionDelay: 1000,
+        reconnectionDelayGrowFactor: 2,
+        maxRetries: 5,
+      },
+    });
+    const events: WebSocketConnectionStateEvent[] = [];
+    transport.onConnectionStateChange((event) => events.push(event));
+    const onclose = jest.fn();
+    transport.onclose = onclose;
+    transport.onerror = jest.fn();
+    await startTransport(transport);
+
+    latestSocket().drop();
+    expect(transport.connectionState).toBe("reconnecting");
+    expect(FakeWebSocket.instances).toHaveLength(1);
+
+    jest.advanceTimersByTime(100);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    latestSocket().fail();
+
+    jest.advanceTimersByTime(199);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    jest.advanceTimersByTime(1);
+    expect(FakeWebSocket.instances).toHaveLength(3);
+    latestSocket().open();
+
+    expect(onclose).not.toHaveBeenCalled();
+    expect(events).toEqual([
+      { state: "connecting" },
+      { state: "open" },
+      { state: "reconnecting", attempt: 0, delay: 100 },
+      { state: "reconnecting", attempt: 1, delay: 200 },
+      { state: "open" },
+    ]);
+  });
+
+  it("rejects messages while reconnecting with the fail policy", async () => {
+    const transport = new WebSocketClientTransport(url, {
+      reconnectionOptions: true,
+      pendingMessagePolicy: "fail",
+    });
+    await startTransport(transport);
+
+    latestSocket().drop();
+
+    await expect(transport.send(message)).rejects.toThrow(/reconnecting/);
+  });
+
+  it("gives up after maxRetries and rejects buffered messages", async () => {
+    const transport = new WebSocketClientTransport(url, {
+      reconnectionOptions: {
+        initialReconnectionDelay: 10,
+        maxReconnectionDelay: 10,
+        reconnectionDelayGrowFactor: 1,
+        maxRetries: 1,
+      },
+    });
+    const onclose = jest.fn();
+    const onerror = jest.fn();
+    transport.onclose = onclose;
+    transport.onerror = onerror;
+    await startTransport(transport);
+
+    latestSocket().drop();
+    const sent = transport.send(message);
+
+    jest.advanceTimersByTime(10);
+    latestSocket().fail();
+
+    await expect(sent).rejects.toThrow("Connection closed");
+    expect(onclose).toHaveBeenCalledTimes(1);
+    expect(onerror).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "Maximum reconnection attempts (1) exceeded." }),
+    );
+  });
+
+  it("does not reconnect after a normal closure or an explicit close", async () => {
+    const transport = new WebSocketClientTransport(url, { reconnectionOptions: true });
+    const onclose = jest.fn();
+    transport.onclose = onclose;
+    await startTransport(transport);
+
+    await transport.close();
+    jest.advanceTimersByTime(60000);
+
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    expect(onclose).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("WebSocketClientTransport with a WebSocketServerTransport", () => {
+  let wss: WebSocketServer;
+  let url: URL;
+  let sockets: NodeWebSocket[];
+  // The methods received on each connection, in order
+  let methods: string[][];
+  let releaseCalls: () => void;
+  let originalWebSocket: unknown;
+  let client: Client;
+  let transport: WebSocketClientTransport;
+  // Whether connections carry a multiplexed session, rather than a session of their own
+  let multiplexed: boolean;
+  // Whether connections after the first are dropped as soon as they are accepted
+  let dropReconnections: boolean;
+
+  const waitFor = async (condition: () => boolean) => {
+    while (!condition()) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  };
+
+  beforeEach(async () => {
+    originalWebSocket = (globalThis as Record<string, unknown>).WebSocket;
+    (globalThis as Record<string, unknown>).WebSocket = NodeWebSocket;
+
+    sockets = [];
+    methods = [];
+    multiplexed = false;
+    dropReconnections = false;
+    const released = new Promise<void>((resolve) => (releaseCalls = resolve));
+    wss = new WebSocketServer({
+      port: 0,
+      handleProtocols: (protocols) => selectSubprotocol([...protocols].join(",")) ?? false,
+    });
+    wss.on("connection", (socket) => {
+      const received: string[] = [];
+      sockets.push(socket);
+      methods.push(received);
+      if (dropReconnections && sockets.length > 1) {
+        socket.terminate();
+        return;
+      }
+      socket.on("message", (data) => {
+        const message = JSON.parse(data.toString());
+        received.push(message.method === "mux/message" ? message.params.message.method : message.method);
+      });
+
+      // Each connection, or channel, is a new session, served by its own server
+      const serve = (serverTransport: Transport) => {
+        const server = new Server({ name: "test server", version: "1.0" }, { capabilities: { tools: {} } });
+        server.setRequestHandler(ListToolsRequestSchema, () => ({ tools: [] }));
+        server.setRequestHandler(CallToolRequestSchema, async () => {
+          await released;
+          return { content: [] };
+        });
+        return server.connect(serverTransport);
+      };
+      const socketTransport = new WebSocketServerTransport(socket as unknown as ServerWebSocket, { pingInterval: 0 });
+      if (multiplexed) {
+        void new TransportDemultiplexer(socketTransport, { onchannel: serve }).start();
+      } else {
+        void serve(socketTransport);
+      }
+    });
+    await once(wss, "listening");
+    url = new URL(`ws://localhost:${(wss.address() as AddressInfo).port}`);
+
+    client = new Client({ name: "test client", version: "1.0" });
+    transport = new WebSocketClientTransport(url, {
+      reconnectionOptions: {
+        initialReconnectionDelay: 10,
+        maxReconnectionDelay: 10,
+        reconnectionDelayGrowFactor: 1,
+        maxRetries: 5,
+      },
+    });
+  });
+
+  afterEach(async () => {
+    releaseCalls();
+    await client.close();
+    for (const socket of sockets) {
+      socket.terminate();
+    }
+    await new Promise((resolve) => wss.close(resolve));
+    (globalThis as Record<string, unknown>).WebSocket = originalWebSocket;
+  });
+
+  it("initializes the new session before sending messages held while reconnecting", async () => {
+    await client.connect(transport);
+    await waitFor(() => methods[0].length === 2);
+    sockets[0].terminate();
+    await waitFor(() => transport.connectionState === "reconnecting");
+
+    await expect(client.listTools()).resolves.toEqual({ tools: [] });
+    expect(transport.connectionState).toBe("open");
+    expect(methods).toEqual([
+      ["initialize", "notifications/initialized"],
+      ["initialize", "notifications/initialized", "tools/list"],
+    ]);
+  });
+
+  it("initializes the new session through a composed transport", async () => {
+    await client.connect(composeTransport(transport, { send: (message, options, next) => next(message, options) }));
+    await waitFor(() => methods[0].length === 2);
+    sockets[0].terminate();
+    await waitFor(() => transport.connectionState === "reconnecting");
+
+    await expect(client.listTools()).resolves.toEqual({ tools: [] });
+    expect(methods).toEqual([
+      ["initialize", "notifications/initialized"],
+      ["initialize", "notifications/initialized", "tools/list"],
+    ]);
+  });
+
+  it("opens multiplexed channels again and initializes their sessions", async () => {
+    multiplexed = true;
+    await client.connect(new TransportMultiplexer(transport).channel());
+    await waitFor(() => methods[0].length === 3);
+    sockets[0].terminate();
+    await waitFor(() => transport.connectionState === "reconnecting");
+
+    await expect(client.listTools()).resolves.toEqual({ tools: [] });
+    expect(methods).toEqual([
+      ["mux/open", "initialize", "notifications/initialized"],
+      ["mux/open", "initialize", "notifications/initialized", "tools/list"],
+    ]);
+  });
+
+  it("gives up when the server drops every new socket before the session is restored", async () => {
+    dropReconnections = true;
+    const onerror = jest.fn();
+    client.onerror = onerror;
+    await client.connect(transport);
+    await waitFor(() => methods[0].length === 2);
+
+    sockets[0].terminate();
+    await waitFor(() => transport.connectionState === "closed");
+
+    // The first connection, and one for each of the 5 attempts
+    expect(sockets).toHaveLength(6);
+    expect(onerror).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "Maximum reconnection attempts (5) exceeded." }),
+    );
+  });
+
+  it("fails requests in flight when the socket drops", async () => {
+    await client.connect(transport);
+    const call = client.callTool({ name: "slow" });
+    await waitFor(() => methods[0].includes("tools/call"));
+
+    sockets[0].terminate();
+
+    await expect(call).rejects.toMatchObject({ code: ErrorCode.ConnectionClosed });
+    await expect(client.listTools()).resolves.toEqual({ tools: [] });
+    expect(sockets).toHaveLength(2);
+  });
+});
@@ -1,34 +1,223 @@
+import { codecForSubprotocol, decodeMessage, jsonCodec, MessageCodec } from "../shared/codec.js";
+import { createEventNotifier } from "../shared/eventNotifier.js";
+import { isMultiplexHandshake } from "../shared/multiplex.js";
 import { Transport } from "../shared/transport.js";
-import { JSONRPCMessage, JSONRPCMessageSchema } from "../types.js";
+import {
+  ErrorCode,
+  isInitializedNotification,
+  isInitializeRequest,
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  JSONRPCMessage,
+  RequestId,
+} from "../types.js";
 
-const SUBPROTOCOL = "mcp";
+/**
+ * WebSocket close code indicating a normal closure, after which no reconnection is attempted.
+ */
+const NORMAL_CLOSURE = 1000;
+
+// Default reconnection options for WebSocket connections
+const DEFAULT_WEBSOCKET_RECONNECTION_OPTIONS: WebSocketReconnectionOptions = {
+  initialReconnectionDelay: 1000,
+  maxReconnectionDelay: 30000,
+  reconnectionDelayGrowFactor: 1.5,
+  maxRetries: 2,
+};
+
+const DEFAULT_MAX_BUFFERED_MESSAGES = 100;
+
+/**
+ * Configuration options for reconnection behavior of the WebSocketClientTransport.
+ */
+export interface WebSocketReconnectionOptions {
+  /**
+   * Maximum backoff time between reconnection attempts in milliseconds.
+   * Default is 30000 (30 seconds).
+   */
+  maxReconnectionDelay: number;
+
+  /**
+   * Initial backoff time between reconnection attempts in milliseconds.
+   * Default is 1000 (1 second).
+   */
+  initialReconnectionDelay: number;
+
+  /**
+   * The factor by which the reconnection delay increases after each attempt.
+   * Default is 1.5.
+   */
+  reconnectionDelayGrowFactor: number;
+
+  /**
+   * Maximum number of reconnection attempts before giving up. A value of 0 retries indefinitely.
+   * The count starts over once a new socket has been opened and, through `onreconnect`, its session initialized.
+   * Default is 2.
+   */
+  maxRetries: number;
+}
+
+/**
+ * What to do with messages sent while the socket is reconnecting.
+ *
+ * - `buffer`: hold messages in memory and send them, in order, once the socket is open again.
+ * - `fail`: reject the `send()` call immediately.
+ */
+export type WebSocketPendingMessagePolicy = "buffer" | "fail";
+
+/**
+ * The lifecycle state of a WebSocketClientTransport.
+ */
+export type WebSocketConnectionState = "idle" | "connecting" | "open" | "reconnecting" | "closed";
+
+/**
+ * Event emitted whenever the connection state of a WebSocketClientTransport changes.
+ */
+export type WebSocketConnectionStateEvent = {
+  state: WebSocketConnectionState;
+
+  /**
+   * The reconnection attempt counter, present while reconnecting.
+   */
+  attempt?: number;
+
+  /**
+   * The delay (in milliseconds) before the next reconnection attempt, present while reconnecting.
+   */
+  delay?: number;
+};
+
+/**
+ * Configuration options for the `WebSocketClientTransport`.
+ */
+export type WebSocketClientTransportOptions = {
+  /**
+   * Options to configure the reconnection behavior.
+   *
+   * When omitted, the transport closes as soon as the socket closes (the behavior of earlier versions).
+   * Pass `true` to reconnect with the default options.
+   */
+  reconnectionOptions?: WebSocketReconnectionOptions | true;
+
+  /**
+   * What to do with messages sent while the socket is reconnecting. Default is `buffer`.
+   *
+   * Requests already on the wire when the socket dropped are not replayed: they fail with a `ConnectionClosed` error,
+   * since the server cannot answer them on the new socket.
+   */
+  pendingMessagePolicy?: WebSocketPendingMessagePolicy;
+
+  /**
+   * Maximum number of messages held while reconnecting with the `buffer` policy. Further sends are rejected.
+   * Default is 100.
+   */
+  maxBufferedMessages?: number;
+
+  /**
+   * Codecs to offer to the server, in order of preference, each as its own WebSocket subprotocol.
+   * The codec the server selects is used for all messages. Default is `[jsonCodec]`.
+   */
+  codecs?: MessageCodec[];
+};
+
+type PendingMessage = {
+  message: JSONRPCMessage;
+  resolve: () => void;
+  reject: (error: Error) => void;
+};
 
 /**
  * Client transport for WebSocket: this will connect to a server over the WebSocket protocol.
+ *
+ * If reconnection is enabled, an unexpected socket close is followed by reconnection attempts with
+ * exponential backoff. `onclose` is only invoked once the transport gives up or is closed explicitly,
+ * so a connected `Client` survives transient network failures.
+ *
+ * Each new socket is a new session for the server, so a `Client` initializes it again through `onreconnect` before the
+ * messages held while reconnecting are sent.
  */
 export class WebSocketClientTransport implements Transport {
   private _socket?: WebSocket;
   private _url: URL;
+  private _reconnectionOptions?: WebSocketReconnectionOptions;
+  private _pendingMessagePolicy: WebSocketPendingMessagePolicy;
+  private _maxBufferedMessages: number;
+  private _codecs: MessageCodec[];
+  private _codec: MessageCodec = jsonCodec;
+  private _pendingMessages: PendingMessage[] = [];
+  private _state: WebSocketConnectionState = "idle";
+  private _reconnectionAttempt = 0;
+  private _reconnectionTimeout?: ReturnType<typeof setTimeout>;
+  // Requests sent on the current socket that have not been answered yet, tracked only when reconnecting is enabled
+  private _inFlightRequestIds: Set<RequestId> = new Set();
+  // Whether `onreconnect` is initializing the session on a new socket
+  private _resuming = false;
+  private _onConnectionStateChange = createEventNotifier<WebSocketConnectionStateEvent>();
 
   onclose?: () => void;
   onerror?: (error: Error) => void;
   onmessage?: (message: JSONRPCMessage) => void;
+  onreconnect?: () => Promise<void>;
 
-  constructor(url: URL) {
+  constructor(url: URL, opts?: WebSocketClientTransportOptions) {
     this._url = url;
+    this._reconnectionOptions = opts?.reconnectionOptions === true
+      ? DEFAULT_WEBSOCKET_RECONNECTION_OPTIONS
+      : opts?.reconnectionOptions;
+    this._pendingMessagePolicy = opts?.pendingMessagePolicy ?? "buffer";
+    this._maxBufferedMessages = opts?.maxBufferedMessages ?? DEFAULT_MAX_BUFFERED_MESSAGES;
+    this._codecs = opts?.codecs ?? [jsonCodec];
+  }
+
+  /**
+   * Event notifier for connection state changes, e.g. to show a "reconnecting" indicator.
+   *
+   * @example
+   * const subscription = transport.onConnectionStateChange(({ state, attempt }) => {
+   *   console.log(`WebSocket is ${state}`, attempt);
+   * });
+   */
+  public readonly onConnectionStateChange = this._onConnectionStateChange.onEvent;
+
+  /**
+   * The current connection state.
+   */
+  get connectionState(): WebSocketConnectionState {
+    return this._state;
+  }
+
+  /**
+   * The codec selected by the server, once connected.
+   */
+  get codec(): MessageCodec {
+    return this._codec;
   }
 
   start(): Promise<void> {
-    if (this._socket) {
+    if (this._state !== "idle") {
       throw new Error(
         "WebSocketClientTransport already started! If using Client class, note that connect() calls start() automatically.",
       );
     }
 
+    this._setState({ state: "connecting" });
+    return this._openSocket();
+  }
+
+  private _setState(event: WebSocketConnectionStateEvent): void {
+    this._state = event.state;
+    this._onConnectionStateChange.notify(event);
+  }
+
+  private _openSocket(): Promise<void> {
     return new Promise((resolve, reject) => {
-      this._socket = new WebSocket(this._url, SUBPROTOCOL);
+      const subprotocols = this._codecs.map((codec) => codec.subprotocol);
+      const socket = new WebSocket(this._url, subprotocols.length === 1 ? subprotocols[0] : subprotocols);
+      socket.binaryType = "arraybuffer";
+      this._socket = socket;
 
-      this._socket.onerror = (event) => {
+      socket.onerror = (event) => {
         const error =
           "error" in event
             ? (event.error as Error)
@@ -37,40 +226,210 @@ export class WebSocketClientTransport implements Transport {
         this.onerror?.(error);
       };
 
-      this._socket.onopen = () => {
+      socket.onopen = () => {
+        // Servers that predate codec negotiation may not echo a subprotocol
+        this._codec = codecForSubprotocol(socket.protocol, this._codecs) ?? jsonCodec;
         resolve();
+
+        if (this._state === "reconnecting" && this.onreconnect) {
+          this._resume(socket, this.onreconnect);
+          return;
+        }
+
+        this._reconnectionAttempt = 0;
+        this._setState({ state: "open" });
+        this._flushPendingMessages();
       };
 
-      this._socket.onclose = () => {
-        this.onclose?.();
+      socket.onclose = (event: CloseEvent) => {
+        if (this._socket !== socket) {
+          return;
+        }
+
+        this._socket = undefined;
+        this._handleSocketClose(event);
       };
 
-      this._socket.onmessage = (event: MessageEvent) => {
+      socket.onmessage = (event: MessageEvent) => {
         let message: JSONRPCMessage;
         try {
-          message = JSONRPCMessageSchema.parse(JSON.parse(event.data));
+          const data = event.data instanceof ArrayBuffer ? new Uint8Array(event.data) : event.data;
+          message = decodeMessage(this._codec, data);
         } catch (error) {
           this.onerror?.(error as Error);
           return;
         }
 
+        if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+          this._inFlightRequestIds.delete(message.id);
+        }
         this.onmessage?.(message);
       };
     });
   }
 
+  private async _resume(socket: WebSocket, onreconnect: () => Promise<void>): Promise<void> {
+    this._resuming = true;
+    try {
+      await onreconnect();
+    } catch (error) {
+      if (this._socket === socket) {
+        this.onerror?.(error as Error);
+        await this.close();
+      }
+      return;
+    } finally {
+      this._resuming = false;
+    }
+
+    // The socket may have dropped again in the meantime, and its close event scheduled another attempt
+    if (this._socket === socket) {
+      // Only a restored session ends the attempts, so that a server that drops every new socket is not retried forever
+      this._reconnectionAttempt = 0;
+      this._setState({ state: "open" });
+      this._flushPendingMessages();
+    }
+  }
+
+  // Fails the requests sent on a socket that dropped, as no response to them can arrive on the next one
+  private _failInFlightRequests(): void {
+    const ids = [...this._inFlightRequestIds];
+    this._inFlightRequestIds.clear();
+    for (const id of ids) {
+      this.onmessage?.({
+        jsonrpc: "2.0",
+        id,
+        error: { code: ErrorCode.ConnectionClosed, message: "Connection closed" },
+      });
+    }
+  }
+
+  private _handleSocketClose(event: CloseEvent): void {
+    // The initial connection never reconnects: failures surface through start() instead.
+    const canReconnect =
+      this._reconnectionOptions !== undefined &&
+      event.code !== NORMAL_CLOSURE &&
+      (this._state === "open" || this._state === "reconnecting");
+
+    if (!canReconnect) {
+      this._finalize();
+      return;
+    }
+
+    if (this._state === "reconnecting") {
+      this._reconnectionAttempt++;
+    }
+
+    this._scheduleReconnection();
+    this._failInFlightRequests();
+  }
+
+  /**
+   * Calculates the next reconnection delay using backoff algorithm
+   *
+   * @param attempt Current reconnection attempt count
+   * @returns Time to wait in milliseconds before next reconnection attempt
+   */
+  private _getNextReconnectionDelay(attempt: number): number {
+    const { initialReconnectionDelay, reconnectionDelayGrowFactor, maxReconnectionDelay } = this._reconnectionOptions!;
+
+    // Cap at maximum delay
+    return Math.min(initialReconnectionDelay * Math.pow(reconnectionDelayGrowFactor, attempt), maxReconnectionDelay);
+  }
+
+  /**
+   * Schedule a reconnection attempt with exponential backoff
+   */
+  private _scheduleReconnection(): void {
+    const { maxRetries } = this._reconnectionOptions!;
+    const attempt = this._reconnectionAttempt;
+
+    // Check if we've exceeded maximum retry attempts
+    if (maxRetries > 0 && attempt >= maxRetries) {
+      this.onerror?.(new Error(`Maximum reconnection attempts (${maxRetries}) exceeded.`));
+      this._finalize();
+      return;
+    }
+
+    const delay = this._getNextReconnectionDelay(attempt);
+    this._setState({ state: "reconnecting", attempt, delay });
+
+    this._reconnectionTimeout = setTimeout(() => {
+      this._reconnectionTimeout = undefined;
+      // Failures are reported through onerror, and the following close event schedules the next attempt.
+      this._openSocket().catch(() => {});
+    }, delay);
+  }
+
+  private _flushPendingMessages(): void {
+    const pending = this._pendingMessages;
+    this._pendingMessages = [];
+
+    for (const { message, resolve, reject } of pending) {
+      try {
+        this._socket!.send(this._codec.encode(message));
+        resolve();
+      } catch (error) {
+        reject(error as Error);
+      }
+    }
+  }
+
+  private _finalize(): void {
+    if (this._state === "closed") {
+      return;
+    }
+
+    clearTimeout(this._reconnectionTimeout);
+    this._reconnectionTimeout = undefined;
+    this._inFlightRequestIds.clear();
+
+    const pending = this._pendingMessages;
+    this._pendingMessages = [];
+    for (const { reject } of pending) {
+      reject(new Error("Connection closed"));
+    }
+
+    this._setState({ state: "closed" });
+    this.onclose?.();
+  }
+
   async close(): Promise<void> {
-    this._socket?.close();
+    const socket = this._socket;
+    this._socket = undefined;
+    socket?.close();
+    this._finalize();
+    this._onConnectionStateChange.close();
   }
 
   send(message: JSONRPCMessage): Promise<void> {
     return new Promise((resolve, reject) => {
-      if (!this._socket) {
+      const handshake =
+        isInitializeRequest(message) || isInitializedNotification(message) || isMultiplexHandshake(message);
+      if (this._state === "reconnecting" && !(this._resuming && handshake)) {
+        if (this._pendingMessagePolicy === "fail") {
+          reject(new Error("Not connected: WebSocket is reconnecting"));
+          return;
+        }
+
+        if (this._pendingMessages.length >= this._maxBufferedMessages) {
+          reject(new Error(`Not connected: reconnection buffer is full (${this._maxBufferedMessages} messages)`));
+          return;
+        }
+
+        this._pendingMessages.push({ message, resolve, reject });
+        return;
+      }
+
+      if (!this._socket || (this._state !== "open" && !this._resuming)) {
         reject(new Error("Not connected"));
         return;
       }
 
-      this._socket?.send(JSON.stringify(message));
+      this._socket.send(this._codec.encode(message));
+      if (this._reconnectionOptions !== undefined && isJSONRPCRequest(message)) {
+        this._inFlightRequestIds.add(message.id);
+      }
       resolve();
     });
   }
@@ -1,26 +1,7 @@
 import { JSONRPCMessage } from '../../types.js';
+import { EventStore } from '../../server/streamableHttp.js';
 
-
-export type StreamId = string;
-export type EventId = string;
-
-/**
- * Interface for resumability support via event storage
- */
-export interface EventStore {
-  /**
-   * Stores an event for later retrieval
-   * @param streamId ID of the stream the event belongs to
-   * @param message The JSON-RPC message to store
-   * @returns The generated event ID for the stored event
-   */
-  storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId>;
-
-  replayEventsAfter(lastEventId: EventId, { send }: {
-    send: (eventId: EventId, message: JSONRPCMessage) => Promise<void>
-  }): Promise<StreamId>;
-}
-
+export type { EventStore, StreamId, EventId } from '../../server/streamableHttp.js';
 
 /**
  * Simple in-memory implementation of the EventStore interface for resumability
@@ -41,8 +22,9 @@ export class InMemoryEventStore implements EventStore {
    * Extracts the stream ID from an event ID
    */
   private getStreamIdFromEventId(eventId: string): string {
+    // Event IDs end with `_<timestamp>_<random>`; the stream ID itself may contain underscores
     const parts = eventId.split('_');
-    return parts.length > 0 ? parts[0] : '';
+    return parts.length > 2 ? parts.slice(0, -2).join('_') : '';
   }
 
   /**
@@ -74,10 +56,8 @@ export class InMemoryEventStore implements EventStore {
 
     let foundLastEvent = false;
 
-    // Sort events by eventId for chronological ordering
-    const sortedEvents = [...this.events.entries()].sort((a, b) => a[0].localeCompare(b[0]));
-
-    for (const [eventId, { streamId: eventStreamId, message }] of sortedEvents) {
+    // Map iteration follows insertion order, which is chronological
+    for (const [eventId, { streamId: eventStreamId, message }] of this.events) {
       // Only include events from the same stream
       if (eventStreamId !== streamId) {
         continue;
@@ -0,0 +1,224 @@
+import { Client } from "./client/index.js";
+import { createFaultyFetch, createSeededRandom, FaultEvent, FaultyTransport, FaultyTransportOptions } from "./faulty.js";
+import { InMemoryTransport } from "./inMemory.js";
+import { McpServer } from "./server/mcp.js";
+import { Transport } from "./shared/transport.js";
+import { ErrorCode, JSONRPCMessage, McpError } from "./types.js";
+
+async function connect(options: FaultyTransportOptions) {
+  const server = new McpServer({ name: "test-server", version: "1.0.0" });
+  server.tool("echo", async () => ({ content: [{ type: "text", text: "echo" }] }));
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const faulty = new FaultyTransport(clientTransport, options);
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  await Promise.all([server.connect(serverTransport), client.connect(faulty)]);
+
+  return { client, faulty, server };
+}
+
+describe("createSeededRandom", () => {
+  it("produces the same sequence for the same seed", () => {
+    const draw = (seed: number) => {
+      const random = createSeededRandom(seed);
+      return Array.from({ length: 5 }, () => random());
+    };
+
+    expect(draw(42)).toEqual(draw(42));
+    expect(draw(42)).not.toEqual(draw(43));
+    expect(draw(42).every((value) => value >= 0 && value < 1)).toBe(true);
+  });
+});
+
+describe("FaultyTransport", () => {
+  it("passes messages through unchanged without a policy", async () => {
+    const { client } = await connect({});
+
+    const result = await client.callTool({ name: "echo" });
+    expect(result.content).toEqual([{ type: "text", text: "echo" }]);
+    await client.close();
+  });
+
+  it("drops messages for a method, exercising request timeouts", async () => {
+    const faults: FaultEvent[] = [];
+    const { client } = await connect({
+      send: { methods: { "tools/call": { dropRate: 1 } } },
+      onfault: (event) => faults.push(event),
+    });
+
+    await expect(client.ping()).resolves.toEqual({});
+    await expect(client.callTool({ name: "echo" }, undefined, { timeout: 20 })).rejects.toMatchObject({
+      code: ErrorCode.RequestTimeout,
+    });
+    expect(faults.map(({ direction, fault }) => [direction, fault])).toEqual([["send", "drop"]]);
+    await client.close();
+  });
+
+  it("matches responses to the method of their request", async () => {
+    const { client } = await connect({ receive: { methods: { "tools/call": { dropRate: 1 } } } });
+
+    await expect(client.ping()).resolves.toEqual({});
+    await expect(client.callTool({ name: "echo" }, undefined, { timeout: 20 })).rejects.toBeInstanceOf(McpError);
+    await client.close();
+  });
+
+  it("duplicates responses", async () => {
+    const { client } = await connect({ receive: { methods: { ping: { duplicateRate: 1 } } } });
+    const errors: Error[] = [];
+    client.onerror = (error) => errors.push(error);
+
+    await client.ping();
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toContain("unknown message ID");
+    await client.close();
+  });
+
+  it("reorders messages", async () => {
+    const [left, right] = InMemoryTransport.createLinkedPair();
+    const faulty = new FaultyTransport(left, {
+      receive: { methods: { "notifications/first": { reorderRate: 1, reorderDelay: 10 } } },
+    });
+    const received: string[] = [];
+    const bothReceived = new Promise<void>((resolve) => {
+      faulty.onmessage = (message) => {
+        received.push((message as { method: string }).method);
+        if (received.length === 2) {
+          resolve();
+        }
+      };
+    });
+    await faulty.start();
+
+    await right.send({ jsonrpc: "2.0", method: "notifications/first" });
+    await right.send({ jsonrpc: "2.0", method: "notifications/second" });
+    await bothReceived;
+
+    expect(received).toEqual(["notifications/second", "notifications/first"]);
+    await faulty.close();
+  });
+
+  it("closes the connection abruptly, failing outstanding requests", async () => {
+    const { client, server } = await connect({ send: { methods: { "tools/call": { closeRate: 1 } } } });
+    const onclose = jest.fn();
+    client.onclose = onclose;
+
+    await expect(client.callTool({ name: "echo" }, undefined, { timeout: 20 })).rejects.toMatchObject({
+      code: ErrorCode.ConnectionClosed,
+    });
+    expect(onclose).toHaveBeenCalledTimes(1);
+    await server.close();
+  });
+
+  it("reports a disconnect before the inner transport has closed", async () => {
+    const [left] = InMemoryTransport.createLinkedPair();
+    let finishClose!: () => void;
+    const inner = Object.assign(left, {
+      close: () => new Promise<void>((resolve) => (finishClose = resolve)).then(() => left.onclose?.()),
+    });
+    const faulty = new FaultyTransport(inner);
+    const onclose = jest.fn();
+    faulty.onclose = onclose;
+    await faulty.start();
+
+    const disconnected = faulty.disconnect();
+    expect(onclose).toHaveBeenCalledTimes(1);
+    await expect(faulty.send({ jsonrpc: "2.0", method: "notifications/initialized" })).rejects.toThrow(
+      "Not connected",
+    );
+
+    finishClose();
+    await disconnected;
+    expect(onclose).toHaveBeenCalledTimes(1);
+  });
+
+  it("passes the negotiated protocol version to the inner transport", () => {
+    const [clientTransport] = InMemoryTransport.createLinkedPair();
+    const setProtocolVersion = jest.fn();
+    const faulty = new FaultyTransport(Object.assign(clientTransport, { setProtocolVersion }));
+
+    faulty.setProtocolVersion("2025-06-18");
+
+    expect(setProtocolVersion).toHaveBeenCalledWith("2025-06-18");
+  });
+
+  it("installs the reconnect hook on the inner transport", () => {
+    const [clientTransport] = InMemoryTransport.createLinkedPair();
+    const faulty = new FaultyTransport(clientTransport);
+    const onreconnect = async () => {};
+
+    faulty.onreconnect = onreconnect;
+
+    expect((clientTransport as Transport).onreconnect).toBe(onreconnect);
+  });
+
+  it("injects the same faults for the same seed", async () => {
+    const run = async (seed: number) => {
+      const [left, right] = InMemoryTransport.createLinkedPair();
+      const faults: string[] = [];
+      const faulty = new FaultyTransport(left, {
+        seed,
+        send: { dropRate: 0.3, duplicateRate: 0.3 },
+        onfault: ({ fault, message }) => faults.push(`${fault}:${(message as { id: number }).id}`),
+      });
+      right.onmessage = () => {};
+      await faulty.start();
+
+      for (let id = 0; id < 20; id++) {
+        await faulty.send({ jsonrpc: "2.0", id, method: "ping" } as JSONRPCMessage);
+      }
+      await faulty.close();
+      return faults;
+    };
+
+    const first = await run(7);
+    expect(first.length).toBeGreaterThan(0);
+    expect(await run(7)).toEqual(first);
+    expect(await run(8)).not.toEqual(first);
+  });
+});
+
+describe("createFaultyFetch", () => {
+  const sseResponse = () => {
+    const encoder = new TextEncoder();
+    const chunks = ["id: 1\ndata: {}\n\n", "id: 2\ndata: {}\n\n"];
+    return new Response(
+      new ReadableStream<Uint8Array>({
+        pull(controller) {
+          const chunk = chunks.shift();
+          if (chunk === undefined) {
+            controller.close();
+          } else {
+            controller.enqueue(encoder.encode(chunk));
+          }
+        },
+      }),
+      { headers: { "content-type": "text/event-stream" } },
+    );
+  };
+
+  it("fails requests with network errors", async () => {
+    const fetchImpl = jest.fn(async () => new Response("ok"));
+    const faultyFetch = createFaultyFetch(fetchImpl, { errorRate: 1 });
+
+    await expect(faultyFetch("https://example.com/mcp")).rejects.toThrow("Failed to fetch");
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+
+  it("cuts off event streams", async () => {
+    const faultyFetch = createFaultyFetch(async () => sseResponse(), { streamCutRate: 1 });
+    const response = await faultyFetch("https://example.com/mcp");
+    const reader = response.body!.getReader();
+
+    const first = await reader.read();
+    expect(new TextDecoder().decode(first.value)).toBe("id: 1\ndata: {}\n\n");
+    await expect(reader.read()).rejects.toThrow("network error");
+  });
+
+  it("leaves other responses untouched", async () => {
+    const faultyFetch = createFaultyFetch(async () => new Response("ok"), { streamCutRate: 1 });
+    const response = await faultyFetch("https://example.com/mcp");
+
+    expect(await response.text()).toBe("ok");
+  });
+});
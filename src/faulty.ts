@@ -0,0 +1,411 @@
+import { AuthInfo } from "./shared/auth.js";
+import { Transport, TransportSendOptions } from "./shared/transport.js";
+import { isJSONRPCError, isJSONRPCRequest, isJSONRPCResponse, JSONRPCMessage, RequestId } from "./types.js";
+
+const DEFAULT_SEED = 1;
+const DEFAULT_REORDER_DELAY_MSEC = 20;
+
+/**
+ * Creates a deterministic pseudo-random number generator (mulberry32), returning numbers in [0, 1).
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A delay in milliseconds, either fixed or drawn uniformly from a range.
+ */
+export type FaultLatency = number | { min: number; max: number };
+
+/**
+ * Draws a delay in milliseconds from the latency, using the given random number generator for ranges.
+ */
+function drawLatency(latency: FaultLatency | undefined, random: () => number): number {
+  if (latency === undefined) {
+    return 0;
+  }
+
+  if (typeof latency === "number") {
+    return latency;
+  }
+
+  return latency.min + Math.floor(random() * (latency.max - latency.min + 1));
+}
+
+/**
+ * The faults injected into messages. Rates are probabilities between 0 and 1, drawn independently for each message.
+ */
+export type FaultPolicy = {
+  /**
+   * Delay before a message is delivered. Random delays can reorder messages.
+   */
+  latency?: FaultLatency;
+
+  /**
+   * Probability that a message is silently dropped.
+   */
+  dropRate?: number;
+
+  /**
+   * Probability that a message is delivered twice.
+   */
+  duplicateRate?: number;
+
+  /**
+   * Probability that a message is held back by `reorderDelay`, so that later messages overtake it.
+   */
+  reorderRate?: number;
+
+  /**
+   * How long (in milliseconds) a reordered message is held back. Default is 20.
+   */
+  reorderDelay?: number;
+
+  /**
+   * Probability that the connection is closed abruptly instead of delivering a message.
+   */
+  closeRate?: number;
+};
+
+/**
+ * Faults for one direction, with optional overrides by JSON-RPC method.
+ *
+ * Responses are matched by the method of the request they answer.
+ */
+export type DirectionalFaultPolicy = FaultPolicy & {
+  methods?: Record<string, FaultPolicy>;
+};
+
+export type FaultDirection = "send" | "receive";
+
+export type FaultKind = "drop" | "duplicate" | "reorder" | "delay" | "close";
+
+/**
+ * Describes a fault that was injected, e.g. for assertions in tests.
+ */
+export type FaultEvent = {
+  direction: FaultDirection;
+  fault: FaultKind;
+  message: JSONRPCMessage;
+};
+
+/**
+ * Configuration options for the `FaultyTransport`.
+ */
+export type FaultyTransportOptions = {
+  /**
+   * Seed for the random number generator, so a run can be reproduced exactly. Default is 1.
+   */
+  seed?: number;
+
+  /**
+   * Faults injected into messages passed to `send()`.
+   */
+  send?: DirectionalFaultPolicy;
+
+  /**
+   * Faults injected into messages received from the inner transport.
+   */
+  receive?: DirectionalFaultPolicy;
+
+  /**
+   * Called whenever a fault is injected.
+   */
+  onfault?: (event: FaultEvent) => void;
+};
+
+/**
+ * Wraps a transport and injects latency, dropped, duplicated and reordered messages, and abrupt closes, for testing how
+ * clients and servers cope with unreliable connections.
+ *
+ * Faults are drawn from a seeded random number generator, so a failing run can be reproduced with the same seed.
+ *
+ * Usage example:
+ *
+ * ```typescript
+ * const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+ * const faulty = new FaultyTransport(clientTransport, {
+ *   seed: 42,
+ *   receive: { latency: { min: 5, max: 50 }, methods: { "tools/call": { dropRate: 0.5 } } },
+ * });
+ * await client.connect(faulty);
+ * ```
+ */
+export class FaultyTransport implements Transport {
+  private _inner: Transport;
+  private _random: () => number;
+  private _sendPolicy?: DirectionalFaultPolicy;
+  private _receivePolicy?: DirectionalFaultPolicy;
+  private _onfault?: (event: FaultEvent) => void;
+  private _closed = false;
+  private _delays = new Map<ReturnType<typeof setTimeout>, () => void>();
+  // Methods of outstanding requests, so that responses can be matched to per-method policies
+  private _sentRequestMethods = new Map<RequestId, string>();
+  private _receivedRequestMethods = new Map<RequestId, string>();
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage, extra?: { authInfo?: AuthInfo }) => void;
+
+  constructor(inner: Transport, options?: FaultyTransportOptions) {
+    this._inner = inner;
+    this._random = createSeededRandom(options?.seed ?? DEFAULT_SEED);
+    this._sendPolicy = options?.send;
+    this._receivePolicy = options?.receive;
+    this._onfault = options?.onfault;
+
+    this._inner.onmessage = (message, extra) => this._handleReceive(message, extra);
+    this._inner.onerror = (error) => this.onerror?.(error);
+    this._inner.onclose = () => this._handleClose();
+  }
+
+  get sessionId(): string | undefined {
+    return this._inner.sessionId;
+  }
+
+  setProtocolVersion(version: string): void {
+    this._inner.setProtocolVersion?.(version);
+  }
+
+  get onreconnect(): (() => Promise<void>) | undefined {
+    return this._inner.onreconnect;
+  }
+
+  set onreconnect(onreconnect: (() => Promise<void>) | undefined) {
+    this._inner.onreconnect = onreconnect;
+  }
+
+  start(): Promise<void> {
+    return this._inner.start();
+  }
+
+  close(): Promise<void> {
+    return this._inner.close();
+  }
+
+  /**
+   * Simulates losing the connection: `onclose` is invoked at once and messages still in flight are dropped, before the
+   * inner transport is closed. `close()`, by contrast, closes the inner transport gracefully and only reports the
+   * closure once the inner transport has.
+   */
+  async disconnect(): Promise<void> {
+    this._handleClose();
+    await this._inner.close();
+  }
+
+  async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    const policy = this._policyFor(this._sendPolicy, message, this._sentRequestMethods, this._receivedRequestMethods);
+    await this._inject("send", message, policy, () => this._inner.send(message, options));
+  }
+
+  private _handleReceive(message: JSONRPCMessage, extra?: { authInfo?: AuthInfo }): void {
+    const policy = this._policyFor(this._receivePolicy, message, this._receivedRequestMethods, this._sentRequestMethods);
+    this._inject("receive", message, policy, async () => this.onmessage?.(message, extra)).catch((error) =>
+      this.onerror?.(error as Error),
+    );
+  }
+
+  /**
+   * Resolves the policy for a message. Requests are remembered by ID, so their responses, which travel in the
+   * other direction, use the policy of the request's method.
+   */
+  private _policyFor(
+    policy: DirectionalFaultPolicy | undefined,
+    message: JSONRPCMessage,
+    outgoingRequests: Map<RequestId, string>,
+    incomingRequests: Map<RequestId, string>,
+  ): FaultPolicy | undefined {
+    let method: string | undefined;
+    if (isJSONRPCRequest(message)) {
+      method = message.method;
+      outgoingRequests.set(message.id, method);
+    } else if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+      method = incomingRequests.get(message.id);
+      incomingRequests.delete(message.id);
+    } else if ("method" in message) {
+      method = message.method;
+    }
+
+    const override = method !== undefined ? policy?.methods?.[method] : undefined;
+    return override ? { ...policy, ...override } : policy;
+  }
+
+  private async _inject(
+    direction: FaultDirection,
+    message: JSONRPCMessage,
+    policy: FaultPolicy | undefined,
+    deliver: () => Promise<void>,
+  ): Promise<void> {
+    if (this._closed) {
+      if (direction === "send") {
+        throw new Error("Not connected");
+      }
+      return;
+    }
+
+    if (!policy) {
+      return deliver();
+    }
+
+    if (this._chance(policy.dropRate)) {
+      this._notify(direction, "drop", message);
+      return;
+    }
+
+    if (this._chance(policy.closeRate)) {
+      this._notify(direction, "close", message);
+      await this.disconnect();
+      return;
+    }
+
+    const copies = this._chance(policy.duplicateRate) ? 2 : 1;
+    if (copies === 2) {
+      this._notify(direction, "duplicate", message);
+    }
+
+    let delay = drawLatency(policy.latency, this._random);
+    if (delay > 0) {
+      this._notify(direction, "delay", message);
+    }
+    if (this._chance(policy.reorderRate)) {
+      this._notify(direction, "reorder", message);
+      delay += policy.reorderDelay ?? DEFAULT_REORDER_DELAY_MSEC;
+    }
+
+    if (delay > 0) {
+      await this._sleep(delay);
+      if (this._closed) {
+        return;
+      }
+    }
+
+    for (let i = 0; i < copies; i++) {
+      await deliver();
+    }
+  }
+
+  private _chance(rate: number | undefined): boolean {
+    return rate !== undefined && rate > 0 && this._random() < rate;
+  }
+
+  private _sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this._delays.delete(timer);
+        resolve();
+      }, ms);
+      this._delays.set(timer, resolve);
+    });
+  }
+
+  private _notify(direction: FaultDirection, fault: FaultKind, message: JSONRPCMessage): void {
+    this._onfault?.({ direction, fault, message });
+  }
+
+  private _handleClose(): void {
+    if (this._closed) {
+      return;
+    }
+
+    this._closed = true;
+    // Messages still in flight are lost with the connection
+    for (const [timer, resolve] of this._delays) {
+      clearTimeout(timer);
+      resolve();
+    }
+    this._delays.clear();
+    this.onclose?.();
+  }
+}
+
+/**
+ * Configuration options for `createFaultyFetch()`.
+ */
+export type FaultyFetchOptions = {
+  /**
+   * Seed for the random number generator, so a run can be reproduced exactly. Default is 1.
+   */
+  seed?: number;
+
+  /**
+   * Delay before each request is made.
+   */
+  latency?: FaultLatency;
+
+  /**
+   * Probability that a request fails with a network error.
+   */
+  errorRate?: number;
+
+  /**
+   * Probability, drawn for each chunk of a `text/event-stream` response, that the stream is cut off with a network error
+   * after the chunk. This exercises the reconnection of SSE streams.
+   */
+  streamCutRate?: number;
+};
+
+/**
+ * Wraps a `fetch` implementation to inject latency, network errors and dropped SSE streams, for testing HTTP-based
+ * client transports such as `StreamableHTTPClientTransport`, which use the global `fetch`.
+ *
+ * Usage example:
+ *
+ * ```typescript
+ * global.fetch = createFaultyFetch(realFetch, { seed: 7, streamCutRate: 0.2 });
+ * ```
+ */
+export function createFaultyFetch(fetchImpl: typeof fetch, options?: FaultyFetchOptions): typeof fetch {
+  const random = createSeededRandom(options?.seed ?? DEFAULT_SEED);
+  const chance = (rate: number | undefined) => rate !== undefined && rate > 0 && random() < rate;
+
+  const cutStream = (body: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> => {
+    const reader = body.getReader();
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          return;
+        }
+
+        controller.enqueue(value);
+        if (chance(options?.streamCutRate)) {
+          controller.error(new TypeError("network error"));
+          await reader.cancel().catch(() => {});
+        }
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    });
+  };
+
+  return async (input, init) => {
+    const delay = drawLatency(options?.latency, random);
+    if (delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+
+    if (chance(options?.errorRate)) {
+      throw new TypeError("Failed to fetch");
+    }
+
+    const response = await fetchImpl(input, init);
+    if (!response.body || !response.headers.get("content-type")?.includes("text/event-stream")) {
+      return response;
+    }
+
+    return new Response(cutStream(response.body), {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+}
@@ -1,5 +1,6 @@
 import { InMemoryTransport } from "./inMemory.js";
 import { AuthInfo } from "./shared/auth.js";
+import { msgpackCodec } from "./shared/codec.js";
 import { JSONRPCMessage } from "./types.js";
 
 describe("InMemoryTransport", () => {
@@ -118,4 +119,18 @@ describe("InMemoryTransport", () => {
     await serverTransport.start();
     expect(receivedMessage).toEqual(message);
   });
+
+  test("should round-trip messages through a codec", async () => {
+    [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair({ codec: msgpackCodec });
+    const message = { jsonrpc: "2.0", method: "test", params: { skipped: undefined }, id: 1 } as JSONRPCMessage;
+
+    let receivedMessage: JSONRPCMessage | undefined;
+    serverTransport.onmessage = (msg) => {
+      receivedMessage = msg;
+    };
+
+    await clientTransport.send(message);
+    expect(receivedMessage).toEqual({ jsonrpc: "2.0", method: "test", params: {}, id: 1 });
+    expect(receivedMessage).not.toBe(message);
+  });
 });
@@ -1,4 +1,5 @@
 import { AuthInfo } from "./shared/auth.js";
+import { decodeMessage, MessageCodec } from "./shared/codec.js";
 import { Transport } from "./shared/transport.js";
 import { JSONRPCMessage, RequestId } from "./types.js";
 
@@ -7,12 +8,24 @@ interface QueuedMessage {
   extra?: { authInfo?: AuthInfo };
 }
 
+/**
+ * Options for `InMemoryTransport.createLinkedPair()`.
+ */
+export type InMemoryTransportOptions = {
+  /**
+   * If set, every message is encoded and decoded with this codec on its way to the other side,
+   * so that tests exercise the same serialization as a real transport.
+   */
+  codec?: MessageCodec;
+};
+
 /**
  * In-memory transport for creating clients and servers that talk to each other within the same process.
  */
 export class InMemoryTransport implements Transport {
   private _otherTransport?: InMemoryTransport;
   private _messageQueue: QueuedMessage[] = [];
+  private _codec?: MessageCodec;
 
   onclose?: () => void;
   onerror?: (error: Error) => void;
@@ -22,9 +35,10 @@ export class InMemoryTransport implements Transport {
   /**
    * Creates a pair of linked in-memory transports that can communicate with each other. One should be passed to a Client and one to a Server.
    */
-  static createLinkedPair(): [InMemoryTransport, InMemoryTransport] {
+  static createLinkedPair(options?: InMemoryTransportOptions): [InMemoryTransport, InMemoryTransport] {
     const clientTransport = new InMemoryTransport();
     const serverTransport = new InMemoryTransport();
+    clientTransport._codec = serverTransport._codec = options?.codec;
     clientTransport._otherTransport = serverTransport;
     serverTransport._otherTransport = clientTransport;
     return [clientTransport, serverTransport];
@@ -54,6 +68,10 @@ export class InMemoryTransport implements Transport {
       throw new Error("Not connected");
     }
 
+    if (this._codec) {
+      message = decodeMessage(this._codec, this._codec.encode(message));
+    }
+
     if (this._otherTransport.onmessage) {
       this._otherTransport.onmessage(message, { authInfo: options?.authInfo });
     } else {
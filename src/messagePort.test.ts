@@ -0,0 +1,187 @@
+import { Client } from "./client/index.js";
+import { MessagePortTransport, PostMessageSource, PostMessageTarget, WindowPostMessageTransport } from "./messagePort.js";
+import { McpServer } from "./server/mcp.js";
+import { JSONRPCMessage } from "./types.js";
+
+/**
+ * A fake window: messages posted to it are dispatched to its listeners with the sender's origin.
+ */
+class FakeWindow implements PostMessageTarget, PostMessageSource {
+  private _listeners = new Set<(event: MessageEvent) => void>();
+  received: { data: unknown; targetOrigin: string }[] = [];
+  peer?: FakeWindow;
+
+  constructor(public origin: string) {}
+
+  postMessage(data: unknown, targetOrigin: string): void {
+    this.received.push({ data, targetOrigin });
+    if (targetOrigin !== "*" && targetOrigin !== this.origin) {
+      return;
+    }
+
+    const event = { data, origin: this.peer!.origin, source: this.peer } as unknown as MessageEvent;
+    setTimeout(() => this._listeners.forEach((listener) => listener(event)), 0);
+  }
+
+  addEventListener(_type: "message", listener: (event: MessageEvent) => void): void {
+    this._listeners.add(listener);
+  }
+
+  removeEventListener(_type: "message", listener: (event: MessageEvent) => void): void {
+    this._listeners.delete(listener);
+  }
+
+  get listenerCount(): number {
+    return this._listeners.size;
+  }
+}
+
+describe("MessagePortTransport", () => {
+  const message: JSONRPCMessage = { jsonrpc: "2.0", method: "test", id: 1 };
+
+  it("exchanges messages after both sides start", async () => {
+    const [left, right] = MessagePortTransport.createLinkedPair();
+    const received: JSONRPCMessage[] = [];
+    right.onmessage = (msg) => received.push(msg);
+
+    await Promise.all([left.start(), right.start()]);
+    await left.send(message);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(received).toEqual([message]);
+    await left.close();
+  });
+
+  it("waits for the other side when started first", async () => {
+    const [left, right] = MessagePortTransport.createLinkedPair();
+    let leftStarted = false;
+    const started = left.start().then(() => {
+      leftStarted = true;
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(leftStarted).toBe(false);
+    await expect(left.send(message)).rejects.toThrow("Not connected");
+
+    await right.start();
+    await started;
+    expect(leftStarted).toBe(true);
+    await left.close();
+  });
+
+  it("closes the other side on close", async () => {
+    const [left, right] = MessagePortTransport.createLinkedPair();
+    await Promise.all([left.start(), right.start()]);
+    const closed = new Promise<void>((resolve) => {
+      right.onclose = resolve;
+    });
+
+    await left.close();
+    await closed;
+
+    await expect(right.send(message)).rejects.toThrow("Not connected");
+  });
+
+  it("rejects start() when the handshake times out", async () => {
+    const [left, right] = MessagePortTransport.createLinkedPair({ handshakeTimeout: 20 });
+
+    await expect(left.start()).rejects.toThrow("Handshake timed out after 20ms");
+    await right.close();
+  });
+
+  it("ignores messages for other channels", async () => {
+    const { port1, port2 } = new MessageChannel();
+    const left = new MessagePortTransport(port1, { channel: "a", handshakeTimeout: 50 });
+    const right = new MessagePortTransport(port2, { channel: "b", handshakeTimeout: 50 });
+
+    await expect(Promise.all([left.start(), right.start()])).rejects.toThrow(/Handshake timed out/);
+    await left.close();
+    await right.close();
+  });
+
+  it("connects a Client and McpServer", async () => {
+    const [clientTransport, serverTransport] = MessagePortTransport.createLinkedPair();
+    const server = new McpServer({ name: "port-server", version: "1.0.0" });
+    const client = new Client({ name: "port-client", version: "1.0.0" });
+
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    expect(client.getServerVersion()).toEqual({ name: "port-server", version: "1.0.0" });
+    await client.close();
+    await server.close();
+  });
+});
+
+describe("WindowPostMessageTransport", () => {
+  let host: FakeWindow;
+  let frame: FakeWindow;
+
+  beforeEach(() => {
+    host = new FakeWindow("https://app.example.com");
+    frame = new FakeWindow("https://tools.example.com");
+    host.peer = frame;
+    frame.peer = host;
+  });
+
+  function createPair(allowedByHost = ["https://tools.example.com"]) {
+    const hostTransport = new WindowPostMessageTransport({
+      target: frame,
+      targetOrigin: "https://tools.example.com",
+      allowedOrigins: allowedByHost,
+      source: host,
+      handshakeInterval: 10,
+    });
+    const frameTransport = new WindowPostMessageTransport({
+      target: host,
+      targetOrigin: "https://app.example.com",
+      allowedOrigins: ["https://app.example.com"],
+      source: frame,
+      handshakeInterval: 10,
+    });
+    return [hostTransport, frameTransport];
+  }
+
+  it("exchanges messages between allow-listed origins", async () => {
+    const [hostTransport, frameTransport] = createPair();
+    const received: JSONRPCMessage[] = [];
+    frameTransport.onmessage = (msg) => received.push(msg);
+
+    await Promise.all([hostTransport.start(), frameTransport.start()]);
+    await hostTransport.send({ jsonrpc: "2.0", method: "test", id: 1 });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(received).toEqual([{ jsonrpc: "2.0", method: "test", id: 1 }]);
+    expect(frame.received.every(({ targetOrigin }) => targetOrigin === "https://tools.example.com")).toBe(true);
+
+    await hostTransport.close();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(host.listenerCount).toBe(0);
+    expect(frame.listenerCount).toBe(0);
+  });
+
+  it("retries the handshake until the other side is listening", async () => {
+    const [hostTransport, frameTransport] = createPair();
+    const started = hostTransport.start();
+
+    // The frame starts later, so the first handshake messages are lost
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    await Promise.all([started, frameTransport.start()]);
+
+    await hostTransport.close();
+  });
+
+  it("ignores messages from origins that are not allow-listed", async () => {
+    const [hostTransport, frameTransport] = createPair(["https://other.example.com"]);
+    let hostStarted = false;
+    void hostTransport.start().then(() => {
+      hostStarted = true;
+    }, () => {});
+    void frameTransport.start().catch(() => {});
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(hostStarted).toBe(false);
+    await hostTransport.close();
+    await frameTransport.close();
+  });
+});
@@ -0,0 +1,373 @@
+import { Transport } from "./shared/transport.js";
+import { JSONRPCMessage, JSONRPCMessageSchema } from "./types.js";
+
+const DEFAULT_CHANNEL = "mcp";
+const DEFAULT_HANDSHAKE_INTERVAL_MSEC = 100;
+
+/**
+ * The envelope carried over `postMessage`. Control messages implement the handshake and close semantics,
+ * and `message` envelopes carry the JSON-RPC payload.
+ */
+type PostMessageEnvelope = {
+  mcpChannel: string;
+  type: "hello" | "ack" | "message" | "close";
+  message?: unknown;
+};
+
+function isEnvelope(data: unknown, channel: string): data is PostMessageEnvelope {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    (data as PostMessageEnvelope).mcpChannel === channel &&
+    typeof (data as PostMessageEnvelope).type === "string"
+  );
+}
+
+/**
+ * Options shared by the `postMessage`-based transports.
+ */
+export type PostMessageTransportOptions = {
+  /**
+   * A name identifying this connection, so several transports can share one port or window. Both sides must use the same channel.
+   * Default is "mcp".
+   */
+  channel?: string;
+
+  /**
+   * How often (in milliseconds) to repeat the handshake until the other side answers. Messages posted before the other side
+   * is listening (for example, while an iframe is still loading) are lost, so the handshake is retried.
+   * Default is 100.
+   */
+  handshakeInterval?: number;
+
+  /**
+   * Maximum time (in milliseconds) to wait for the other side during start(). If exceeded, start() rejects.
+   * If not specified, start() waits indefinitely.
+   */
+  handshakeTimeout?: number;
+};
+
+/**
+ * Base class for transports that carry JSON-RPC messages across JS realms with `postMessage`.
+ *
+ * Both sides run a handshake in start(), which resolves once the other side has answered, so either side can start first.
+ * Closing either side closes the other.
+ */
+export abstract class PostMessageTransport implements Transport {
+  private _channel: string;
+  private _handshakeInterval: number;
+  private _handshakeTimeout?: number;
+  private _state: "idle" | "handshaking" | "connected" | "closed" = "idle";
+  private _handshakeTimer?: ReturnType<typeof setInterval>;
+  private _handshakeTimeoutId?: ReturnType<typeof setTimeout>;
+  private _handshake?: { resolve: () => void; reject: (error: Error) => void };
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(options?: PostMessageTransportOptions) {
+    this._channel = options?.channel ?? DEFAULT_CHANNEL;
+    this._handshakeInterval = options?.handshakeInterval ?? DEFAULT_HANDSHAKE_INTERVAL_MSEC;
+    this._handshakeTimeout = options?.handshakeTimeout;
+  }
+
+  /**
+   * Posts raw data to the other side.
+   */
+  protected abstract _post(data: PostMessageEnvelope): void;
+
+  /**
+   * Begins delivering incoming data to `_receive`.
+   */
+  protected abstract _listen(): void;
+
+  /**
+   * Stops listening and releases the underlying port, if any.
+   */
+  protected abstract _dispose(): void;
+
+  async start(): Promise<void> {
+    if (this._state !== "idle") {
+      throw new Error(
+        `${this.constructor.name} already started! If using Client or Server class, note that connect() calls start() automatically.`,
+      );
+    }
+
+    this._state = "handshaking";
+    this._listen();
+
+    await new Promise<void>((resolve, reject) => {
+      this._handshake = { resolve, reject };
+
+      this._postControl("hello");
+      this._handshakeTimer = setInterval(() => this._postControl("hello"), this._handshakeInterval);
+
+      if (this._handshakeTimeout !== undefined) {
+        this._handshakeTimeoutId = setTimeout(() => {
+          this._handleClose(new Error(`Handshake timed out after ${this._handshakeTimeout}ms`));
+        }, this._handshakeTimeout);
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this._state === "closed") {
+      return;
+    }
+
+    if (this._state !== "idle") {
+      this._postControl("close");
+    }
+    this._handleClose();
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this._state !== "connected") {
+      throw new Error("Not connected");
+    }
+
+    this._post({ mcpChannel: this._channel, type: "message", message });
+  }
+
+  /**
+   * Handles data received from the other side. Data that is not an envelope for this channel is ignored.
+   */
+  protected _receive(data: unknown): void {
+    if (this._state === "closed" || !isEnvelope(data, this._channel)) {
+      return;
+    }
+
+    switch (data.type) {
+      case "hello":
+        this._postControl("ack");
+        this._completeHandshake();
+        break;
+
+      case "ack":
+        this._completeHandshake();
+        break;
+
+      case "close":
+        this._handleClose();
+        break;
+
+      case "message": {
+        let message: JSONRPCMessage;
+        try {
+          message = JSONRPCMessageSchema.parse(data.message);
+        } catch (error) {
+          this.onerror?.(error as Error);
+          return;
+        }
+
+        this.onmessage?.(message);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Closes the transport without notifying the other side, e.g. because the underlying port was closed.
+   *
+   * If the handshake is still in progress, start() rejects with the given error.
+   */
+  protected _handleClose(error: Error = new Error("Connection closed")): void {
+    if (this._state === "closed") {
+      return;
+    }
+
+    this._handshake?.reject(error);
+    this._stopHandshake();
+    this._state = "closed";
+    this._dispose();
+    this.onclose?.();
+  }
+
+  private _postControl(type: "hello" | "ack" | "close"): void {
+    try {
+      this._post({ mcpChannel: this._channel, type });
+    } catch (error) {
+      this.onerror?.(error as Error);
+    }
+  }
+
+  private _completeHandshake(): void {
+    if (this._state !== "handshaking") {
+      return;
+    }
+
+    const handshake = this._handshake;
+    this._stopHandshake();
+    this._state = "connected";
+    handshake?.resolve();
+  }
+
+  private _stopHandshake(): void {
+    clearInterval(this._handshakeTimer);
+    clearTimeout(this._handshakeTimeoutId);
+    this._handshakeTimer = undefined;
+    this._handshakeTimeoutId = undefined;
+    this._handshake = undefined;
+  }
+}
+
+/**
+ * Transport over a `MessagePort`, e.g. one end of a `MessageChannel` transferred to an iframe, Web Worker or SharedWorker.
+ *
+ * Usage example:
+ *
+ * ```typescript
+ * // In the page
+ * const channel = new MessageChannel();
+ * worker.postMessage({ mcpPort: channel.port2 }, [channel.port2]);
+ * await client.connect(new MessagePortTransport(channel.port1));
+ *
+ * // In the worker
+ * self.onmessage = async (event) => {
+ *   await server.connect(new MessagePortTransport(event.data.mcpPort));
+ * };
+ * ```
+ */
+export class MessagePortTransport extends PostMessageTransport {
+  private _onPortMessage = (event: MessageEvent) => this._receive(event.data);
+  private _onPortMessageError = () => this.onerror?.(new Error("Received a message that could not be deserialized"));
+  private _onPortClose = () => this._handleClose();
+
+  constructor(private _port: MessagePort, options?: PostMessageTransportOptions) {
+    super(options);
+  }
+
+  /**
+   * Creates a pair of transports connected by a new `MessageChannel`. One should be passed to a Client and one to a Server,
+   * or its port transferred to another realm.
+   */
+  static createLinkedPair(options?: PostMessageTransportOptions): [MessagePortTransport, MessagePortTransport] {
+    const { port1, port2 } = new MessageChannel();
+    return [new MessagePortTransport(port1, options), new MessagePortTransport(port2, options)];
+  }
+
+  protected _post(data: PostMessageEnvelope): void {
+    this._port.postMessage(data);
+  }
+
+  protected _listen(): void {
+    this._port.addEventListener("message", this._onPortMessage);
+    this._port.addEventListener("messageerror", this._onPortMessageError);
+    // Fired by runtimes that report when the entangled port is closed
+    this._port.addEventListener("close", this._onPortClose);
+    this._port.start();
+  }
+
+  protected _dispose(): void {
+    this._port.removeEventListener("message", this._onPortMessage);
+    this._port.removeEventListener("messageerror", this._onPortMessageError);
+    this._port.removeEventListener("close", this._onPortClose);
+    this._port.close();
+  }
+}
+
+/**
+ * The subset of `Window` used by `WindowPostMessageTransport`.
+ */
+export type PostMessageTarget = {
+  postMessage(message: unknown, targetOrigin: string): void;
+};
+
+/**
+ * The subset of `Window` that incoming messages are received on.
+ */
+export type PostMessageSource = {
+  addEventListener(type: "message", listener: (event: MessageEvent) => void): void;
+  removeEventListener(type: "message", listener: (event: MessageEvent) => void): void;
+};
+
+/**
+ * Configuration options for the `WindowPostMessageTransport`.
+ */
+export type WindowPostMessageTransportOptions = PostMessageTransportOptions & {
+  /**
+   * The window to post messages to, e.g. `iframe.contentWindow` or `window.parent`.
+   */
+  target: PostMessageTarget;
+
+  /**
+   * The origin the target window must have for messages to be delivered, as passed to `window.postMessage`.
+   */
+  targetOrigin: string;
+
+  /**
+   * Origins that incoming messages are accepted from. Messages from any other origin are ignored.
+   *
+   * Use `["*"]` to accept any origin, which is only safe when the other side is trusted by other means.
+   */
+  allowedOrigins: string[];
+
+  /**
+   * The window to listen for messages on. Default is the current global object.
+   */
+  source?: PostMessageSource;
+};
+
+/**
+ * Transport over `window.postMessage`, e.g. between a page and a sandboxed iframe, with origin allow-listing.
+ *
+ * Only messages whose `source` is the target window and whose `origin` is allow-listed are accepted.
+ *
+ * Usage example:
+ *
+ * ```typescript
+ * // In the host page
+ * const transport = new WindowPostMessageTransport({
+ *   target: iframe.contentWindow!,
+ *   targetOrigin: "https://tools.example.com",
+ *   allowedOrigins: ["https://tools.example.com"],
+ * });
+ * await client.connect(transport);
+ *
+ * // In the iframe
+ * const transport = new WindowPostMessageTransport({
+ *   target: window.parent,
+ *   targetOrigin: "https://app.example.com",
+ *   allowedOrigins: ["https://app.example.com"],
+ * });
+ * await server.connect(transport);
+ * ```
+ */
+export class WindowPostMessageTransport extends PostMessageTransport {
+  private _target: PostMessageTarget;
+  private _targetOrigin: string;
+  private _allowedOrigins: string[];
+  private _source: PostMessageSource;
+  private _onWindowMessage = (event: MessageEvent) => {
+    if (event.source !== this._target || !this._isAllowedOrigin(event.origin)) {
+      return;
+    }
+
+    this._receive(event.data);
+  };
+
+  constructor(options: WindowPostMessageTransportOptions) {
+    super(options);
+    this._target = options.target;
+    this._targetOrigin = options.targetOrigin;
+    this._allowedOrigins = options.allowedOrigins;
+    this._source = options.source ?? (globalThis as unknown as PostMessageSource);
+  }
+
+  private _isAllowedOrigin(origin: string): boolean {
+    return this._allowedOrigins.includes("*") || this._allowedOrigins.includes(origin);
+  }
+
+  protected _post(data: PostMessageEnvelope): void {
+    this._target.postMessage(data, this._targetOrigin);
+  }
+
+  protected _listen(): void {
+    this._source.addEventListener("message", this._onWindowMessage);
+  }
+
+  protected _dispose(): void {
+    this._source.removeEventListener("message", this._onWindowMessage);
+  }
+}
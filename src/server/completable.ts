@@ -15,6 +15,12 @@ import {
   
   export type CompleteCallback<T extends ZodTypeAny = ZodTypeAny> = (
     value: T["_input"],
+    context?: {
+      /**
+       * The other prompt arguments already resolved by the client, if it sent them.
+       */
+      arguments?: Record<string, string>;
+    },
   ) => T["_input"][] | Promise<T["_input"][]>;
   
   export interface CompletableDef<T extends ZodTypeAny = ZodTypeAny>
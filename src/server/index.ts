@@ -77,6 +77,7 @@ import {
   > {
     private _clientCapabilities?: ClientCapabilities;
     private _clientVersion?: Implementation;
+    private _protocolVersion?: string;
     private _capabilities: ServerCapabilities;
     private _instructions?: string;
   
@@ -257,11 +258,14 @@ import {
   
       this._clientCapabilities = request.params.capabilities;
       this._clientVersion = request.params.clientInfo;
+      // Use the client's version if we support it, so that older clients keep working
+      this._protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.includes(requestedVersion)
+        ? requestedVersion
+        : LATEST_PROTOCOL_VERSION;
+      this.transport?.setProtocolVersion?.(this._protocolVersion);
   
       return {
-        protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requestedVersion)
-          ? requestedVersion
-          : LATEST_PROTOCOL_VERSION,
+        protocolVersion: this._protocolVersion,
         capabilities: this.getCapabilities(),
         serverInfo: this._serverInfo,
         ...(this._instructions && { instructions: this._instructions }),
@@ -282,6 +286,13 @@ import {
       return this._clientVersion;
     }
   
+    /**
+     * After initialization has completed, this will be populated with the protocol version negotiated with the client.
+     */
+    getProtocolVersion(): string | undefined {
+      return this._protocolVersion;
+    }
+  
     private getCapabilities(): ServerCapabilities {
       return this._capabilities;
     }
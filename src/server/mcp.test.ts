@@ -1,4 +1,5 @@
 import { McpServer } from "./mcp.js";
+import { Server } from "./index.js";
 import { Client } from "../client/index.js";
 import { InMemoryTransport } from "../inMemory.js";
 import { z } from "zod";
@@ -13,6 +14,9 @@ import {
   CompleteResultSchema,
   LoggingMessageNotificationSchema,
   Notification,
+  InitializeRequestSchema,
+  CallToolRequestSchema,
+  LATEST_PROTOCOL_VERSION,
 } from "../types.js";
 import { ResourceTemplate, CapabilityEvent } from "./mcp.js";
 import { completable } from "./completable.js";
@@ -76,6 +80,73 @@ describe("McpServer", () => {
       }
     ])
   });
+
+  test("should negotiate the latest protocol version", async () => {
+    const mcpServer = new McpServer({ name: "test server", version: "1.0" });
+    const client = new Client({ name: "test client", version: "1.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const setProtocolVersion = jest.fn();
+    Object.assign(clientTransport, { setProtocolVersion });
+
+    await Promise.all([client.connect(clientTransport), mcpServer.connect(serverTransport)]);
+
+    expect(client.getProtocolVersion()).toBe(LATEST_PROTOCOL_VERSION);
+    expect(mcpServer.server.getProtocolVersion()).toBe(LATEST_PROTOCOL_VERSION);
+    expect(setProtocolVersion).toHaveBeenCalledWith(LATEST_PROTOCOL_VERSION);
+    await mcpServer.close();
+  });
+
+  test("should keep working with peers that only support an older protocol version", async () => {
+    const mcpServer = new McpServer({ name: "test server", version: "1.0" });
+    mcpServer.tool("echo", { text: z.string() }, async ({ text }) => ({ content: [{ type: "text", text }] }));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mcpServer.connect(serverTransport);
+
+    const responses: unknown[] = [];
+    clientTransport.onmessage = (message) => responses.push(message);
+    await clientTransport.start();
+    await clientTransport.send({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: { protocolVersion: "2024-11-05", capabilities: {}, clientInfo: { name: "old client", version: "1.0" } },
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(responses).toMatchObject([{ id: 1, result: { protocolVersion: "2024-11-05" } }]);
+    expect(mcpServer.server.getProtocolVersion()).toBe("2024-11-05");
+
+    // A client talking to a server that answers with an older version
+    const oldServer = new Server({ name: "old server", version: "1.0" }, { capabilities: { tools: {} } });
+    oldServer.setRequestHandler(InitializeRequestSchema, () => ({
+      protocolVersion: "2024-11-05",
+      capabilities: { tools: {} },
+      serverInfo: { name: "old server", version: "1.0" },
+    }));
+    oldServer.setRequestHandler(CallToolRequestSchema, () => ({
+      content: [{ type: "text", text: "done" }],
+    }));
+    const client = new Client({ name: "test client", version: "1.0" });
+    const [oldClientTransport, oldServerTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(oldClientTransport), oldServer.connect(oldServerTransport)]);
+
+    expect(client.getProtocolVersion()).toBe("2024-11-05");
+    expect(await client.callTool({ name: "anything" })).toEqual({ content: [{ type: "text", text: "done" }] });
+    await Promise.all([mcpServer.close(), oldServer.close()]);
+  });
+
+  test("should accept tool results with structured content and resource links", async () => {
+    const result = CallToolResultSchema.parse({
+      structuredContent: { temperature: 21 },
+    });
+    expect(result).toEqual({ content: [], structuredContent: { temperature: 21 } });
+
+    expect(
+      CallToolResultSchema.parse({
+        content: [{ type: "resource_link", uri: "file:///report.pdf", name: "report", title: "Report" }],
+      }).content[0],
+    ).toEqual({ type: "resource_link", uri: "file:///report.pdf", name: "report", title: "Report" });
+  });
 });
 
 describe("ResourceTemplate", () => {
@@ -498,6 +569,96 @@ describe("tool()", () => {
     expect(result.tools[0].description).toBe("Test description");
   });
 
+  test("should register tool with title, annotations and output schema", async () => {
+    const mcpServer = new McpServer({
+      name: "test server",
+      version: "1.0",
+    });
+    const client = new Client({
+      name: "test client",
+      version: "1.0",
+    });
+
+    mcpServer.registerTool(
+      "weather",
+      {
+        title: "Weather",
+        description: "Gets the weather",
+        inputSchema: { city: z.string() },
+        outputSchema: { temperature: z.number() },
+        annotations: { readOnlyHint: true },
+      },
+      async ({ city }) => ({
+        content: [{ type: "text", text: `20 degrees in ${city}` }],
+        structuredContent: { temperature: 20 },
+      }),
+    );
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+
+    await Promise.all([
+      client.connect(clientTransport),
+      mcpServer.connect(serverTransport),
+    ]);
+
+    const result = await client.listTools();
+    expect(result.tools).toHaveLength(1);
+    expect(result.tools[0]).toMatchObject({
+      name: "weather",
+      title: "Weather",
+      description: "Gets the weather",
+      annotations: { readOnlyHint: true },
+      outputSchema: {
+        type: "object",
+        properties: { temperature: { type: "number" } },
+        required: ["temperature"],
+      },
+    });
+
+    const callResult = await client.callTool({ name: "weather", arguments: { city: "Paris" } });
+    expect(callResult.structuredContent).toEqual({ temperature: 20 });
+  });
+
+  test("should report tools whose structured content does not match the output schema", async () => {
+    const mcpServer = new McpServer({
+      name: "test server",
+      version: "1.0",
+    });
+    const client = new Client({
+      name: "test client",
+      version: "1.0",
+    });
+
+    mcpServer.registerTool(
+      "unstructured",
+      { outputSchema: { temperature: z.number() } },
+      async () => ({ content: [{ type: "text", text: "20 degrees" }] }),
+    );
+    mcpServer.registerTool(
+      "mismatched",
+      { outputSchema: { temperature: z.number() } },
+      async () => ({ content: [], structuredContent: { temperature: "warm" } }),
+    );
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+
+    await Promise.all([
+      client.connect(clientTransport),
+      mcpServer.connect(serverTransport),
+    ]);
+
+    expect(await client.callTool({ name: "unstructured" })).toMatchObject({
+      isError: true,
+      content: [{ type: "text", text: "Tool unstructured has an output schema but returned no structured content" }],
+    });
+    expect(await client.callTool({ name: "mismatched" })).toMatchObject({
+      isError: true,
+      content: [{ type: "text", text: expect.stringContaining("Invalid structured content for tool mismatched") }],
+    });
+  });
+
   test("should validate tool args", async () => {
     const mcpServer = new McpServer({
       name: "test server",
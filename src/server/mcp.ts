@@ -39,6 +39,7 @@ import {
   ReadResourceResult,
   ServerRequest,
   ServerNotification,
+  ToolAnnotations,
 } from "../types.js";
 import { Completable, CompletableDef } from "./completable.js";
 import { UriTemplate, Variables } from "../shared/uriTemplate.js";
@@ -145,12 +146,19 @@ export class McpServer {
           ([name, tool]): Tool => {
             return {
               name,
+              title: tool.title,
               description: tool.description,
               inputSchema: tool.inputSchema
                 ? (zodToJsonSchema(tool.inputSchema, {
                     strictUnions: true,
                   }) as Tool["inputSchema"])
                 : EMPTY_OBJECT_JSON_SCHEMA,
+              ...(tool.outputSchema && {
+                outputSchema: zodToJsonSchema(tool.outputSchema, {
+                  strictUnions: true,
+                }) as Tool["outputSchema"],
+              }),
+              annotations: tool.annotations,
             };
           },
         ),
@@ -225,7 +233,8 @@ export class McpServer {
           const args = parseResult.data;
           const cb = tool.callback as ToolCallback<ZodRawShape>;
           try {
-            return await Promise.resolve(cb(args, extra)).then((result) => {
+            return await Promise.resolve(cb(args, extra)).then(async (result) => {
+              await this.validateToolOutput(request.params.name, tool, result);
               this._onCapabilityChange.notify(() => ({
                 serverInfo: this.server.getVersion(),
                 capabilityType: "tool",
@@ -263,6 +272,7 @@ export class McpServer {
           const cb = tool.callback as ToolCallback<undefined>;
           try {
             const result = await Promise.resolve(cb(extra));
+            await this.validateToolOutput(request.params.name, tool, result);
 
             this._onCapabilityChange.notify(() => ({
               serverInfo: this.server.getVersion(),
@@ -303,6 +313,24 @@ export class McpServer {
     this._toolHandlersInitialized = true;
   }
 
+  /**
+   * Checks that a tool with an output schema returned matching structured content, unless it reported an error.
+   */
+  private async validateToolOutput(name: string, tool: RegisteredTool, result: CallToolResult): Promise<void> {
+    if (!tool.outputSchema || result.isError) {
+      return;
+    }
+
+    if (result.structuredContent === undefined) {
+      throw new Error(`Tool ${name} has an output schema but returned no structured content`);
+    }
+
+    const parseResult = await tool.outputSchema.safeParseAsync(result.structuredContent);
+    if (!parseResult.success) {
+      throw new Error(`Invalid structured content for tool ${name}: ${parseResult.error.message}`);
+    }
+  }
+
   private _completionHandlerInitialized = false;
 
   private setCompletionRequestHandler() {
@@ -409,7 +437,7 @@ export class McpServer {
     }
 
     const def: CompletableDef<ZodString> = field._def;
-    const suggestions = await def.complete(request.params.argument.value);
+    const suggestions = await def.complete(request.params.argument.value, request.params.context);
 
     this._onCapabilityChange.notify(() => ({
       serverInfo: this.server.getVersion(),
@@ -475,7 +503,7 @@ export class McpServer {
     }
 
     try {
-      const suggestions = await completer(request.params.argument.value);
+      const suggestions = await completer(request.params.argument.value, request.params.context);
 
       this._onCapabilityChange.notify(() => ({
         serverInfo: this.server.getVersion(),
@@ -1249,10 +1277,42 @@ export class McpServer {
     }
 
     const cb = rest[0] as ToolCallback<ZodRawShape | undefined>;
+    return this.createRegisteredTool(name, { description, inputSchema: paramsSchema }, cb);
+  }
+
+  /**
+   * Registers a tool `name` with the given configuration, which may declare a human-readable title, a description, the
+   * arguments it accepts and the structured content it returns as objects of named properties associated with Zod
+   * schemas, and annotations describing its behavior. When the client calls it, the function will be run with the
+   * parsed and validated arguments.
+   *
+   * If an output schema is given, the function must return `structuredContent` matching it, unless it reports an error.
+   */
+  registerTool<InputArgs extends ZodRawShape, OutputArgs extends ZodRawShape>(
+    name: string,
+    config: ToolConfig<InputArgs, OutputArgs>,
+    cb: ToolCallback<InputArgs>,
+  ): RegisteredTool {
+    if (this._registeredTools[name]) {
+      throw new Error(`Tool ${name} is already registered`);
+    }
+
+    return this.createRegisteredTool(name, config, cb as ToolCallback<ZodRawShape | undefined>);
+  }
+
+  private createRegisteredTool(
+    name: string,
+    { title, description, inputSchema: paramsSchema, outputSchema, annotations }: ToolConfig,
+    cb: ToolCallback<ZodRawShape | undefined>,
+  ): RegisteredTool {
     const registeredTool: RegisteredTool = {
+      title,
       description,
       inputSchema:
         paramsSchema === undefined ? undefined : z.object(paramsSchema),
+      outputSchema:
+        outputSchema === undefined ? undefined : z.object(outputSchema),
+      annotations,
       callback: cb,
       enabled: true,
       disable: () => {
@@ -1307,6 +1367,14 @@ export class McpServer {
           }
         }
 
+        if (
+          typeof updates.title !== "undefined" &&
+          updates.title !== registeredTool.title
+        ) {
+          updated = true;
+          registeredTool.title = updates.title;
+        }
+
         if (
           typeof updates.description !== "undefined" &&
           updates.description !== description
@@ -1323,6 +1391,22 @@ export class McpServer {
           registeredTool.inputSchema = z.object(updates.paramsSchema);
         }
 
+        if (
+          typeof updates.outputSchema !== "undefined" &&
+          updates.outputSchema !== outputSchema
+        ) {
+          updated = true;
+          registeredTool.outputSchema = z.object(updates.outputSchema);
+        }
+
+        if (
+          typeof updates.annotations !== "undefined" &&
+          updates.annotations !== registeredTool.annotations
+        ) {
+          updated = true;
+          registeredTool.annotations = updates.annotations;
+        }
+
         if (
           typeof updates.callback !== "undefined" &&
           updates.callback !== registeredTool.callback
@@ -1622,6 +1706,12 @@ export class McpServer {
  */
 export type CompleteResourceTemplateCallback = (
   value: string,
+  context?: {
+    /**
+     * The variables already resolved by the client, if it sent them.
+     */
+    arguments?: Record<string, string>;
+  },
 ) => string[] | Promise<string[]>;
 
 /**
@@ -1690,14 +1780,31 @@ export type ToolCallback<Args extends undefined | ZodRawShape = undefined> =
       ) => CallToolResult | Promise<CallToolResult>
     : (extra: RequestHandlerExtra<ServerRequest, ServerNotification>) => CallToolResult | Promise<CallToolResult>;
 
+/**
+ * The configuration of a tool registered with McpServer.registerTool().
+ */
+export type ToolConfig<
+  InputArgs extends ZodRawShape = ZodRawShape,
+  OutputArgs extends ZodRawShape = ZodRawShape,
+> = {
+  title?: string;
+  description?: string;
+  inputSchema?: InputArgs;
+  outputSchema?: OutputArgs;
+  annotations?: ToolAnnotations;
+};
+
 export type RegisteredTool = {
+  title?: string;
   description?: string;
   inputSchema?: AnyZodObject;
+  outputSchema?: AnyZodObject;
+  annotations?: ToolAnnotations;
   callback: ToolCallback<undefined | ZodRawShape>;
   enabled: boolean;
   enable(): void;
   disable(): void;
-  update<Args extends ZodRawShape>(updates: { name?: string | null, description?: string, paramsSchema?: Args, callback?: ToolCallback<Args>, enabled?: boolean }): void
+  update<Args extends ZodRawShape>(updates: { name?: string | null, title?: string, description?: string, paramsSchema?: Args, outputSchema?: ZodRawShape, annotations?: ToolAnnotations, callback?: ToolCallback<Args>, enabled?: boolean }): void
   remove(): void
 };
 
@@ -0,0 +1,143 @@
+import { z } from "zod";
+import { Client } from "../client/index.js";
+import { SSEClientTransport } from "../client/sse.js";
+import { JSONRPCMessage } from "../types.js";
+import { McpServer } from "./mcp.js";
+import { SSEServerTransport } from "./sse.js";
+
+/**
+ * Reads from the SSE response until the text contains the expected substring.
+ */
+async function readUntil(reader: ReadableStreamDefaultReader<Uint8Array>, expected: string): Promise<string> {
+  const decoder = new TextDecoder();
+  let text = "";
+  while (!text.includes(expected)) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text;
+}
+
+function postRequest(body: unknown, contentType = "application/json"): Request {
+  return new Request("http://localhost/messages", {
+    method: "POST",
+    headers: { "Content-Type": contentType },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+describe("SSEServerTransport", () => {
+  it("returns an SSE response and emits the endpoint event on start", async () => {
+    const transport = new SSEServerTransport("/messages");
+    await transport.start();
+
+    expect(transport.response.headers.get("content-type")).toBe("text/event-stream");
+    const text = await readUntil(transport.response.body!.getReader(), "\n\n");
+    expect(text).toBe(`event: endpoint\ndata: /messages?sessionId=${transport.sessionId}\n\n`);
+  });
+
+  it("preserves existing query parameters and absolute endpoints", async () => {
+    const transport = new SSEServerTransport("https://example.com/messages?tenant=a");
+    await transport.start();
+
+    const text = await readUntil(transport.response.body!.getReader(), "\n\n");
+    expect(text).toContain(`data: https://example.com/messages?tenant=a&sessionId=${transport.sessionId}`);
+  });
+
+  it("keeps path-relative endpoints relative", async () => {
+    const transport = new SSEServerTransport("messages?tenant=a#top");
+    await transport.start();
+
+    const text = await readUntil(transport.response.body!.getReader(), "\n\n");
+    expect(text).toBe(`event: endpoint\ndata: messages?tenant=a&sessionId=${transport.sessionId}#top\n\n`);
+  });
+
+  it("routes POSTed messages to onmessage with auth info", async () => {
+    const transport = new SSEServerTransport("/messages");
+    const onmessage = jest.fn();
+    transport.onmessage = onmessage;
+    await transport.start();
+
+    const message: JSONRPCMessage = { jsonrpc: "2.0", method: "ping", id: 1 };
+    const authInfo = { token: "token", clientId: "client", scopes: [] };
+    const response = await transport.handlePostMessage(postRequest(message), { authInfo });
+
+    expect(response.status).toBe(202);
+    expect(onmessage).toHaveBeenCalledWith(message, { authInfo });
+  });
+
+  it("rejects POSTs before the stream is started", async () => {
+    const transport = new SSEServerTransport("/messages");
+
+    const response = await transport.handlePostMessage(postRequest({ jsonrpc: "2.0", method: "ping", id: 1 }));
+
+    expect(response.status).toBe(500);
+  });
+
+  it("rejects POSTs with invalid content", async () => {
+    const transport = new SSEServerTransport("/messages");
+    transport.onerror = jest.fn();
+    await transport.start();
+
+    expect((await transport.handlePostMessage(postRequest("{}", "text/plain"))).status).toBe(400);
+    expect((await transport.handlePostMessage(postRequest({ not: "jsonrpc" }))).status).toBe(400);
+    expect(transport.onerror).toHaveBeenCalledTimes(2);
+  });
+
+  it("closes when the client disconnects", async () => {
+    const transport = new SSEServerTransport("/messages");
+    const onclose = jest.fn();
+    transport.onclose = onclose;
+    await transport.start();
+
+    await transport.response.body!.cancel();
+
+    expect(onclose).toHaveBeenCalledTimes(1);
+    await expect(transport.send({ jsonrpc: "2.0", method: "ping", id: 1 })).rejects.toThrow("Not connected");
+  });
+
+  describe("with SSEClientTransport", () => {
+    let originalFetch: typeof fetch;
+
+    beforeEach(() => {
+      originalFetch = global.fetch;
+    });
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it("serves a Client end to end", async () => {
+      const mcpServer = new McpServer({ name: "sse-server", version: "1.0.0" });
+      mcpServer.tool("echo", { text: z.string() }, async ({ text }) => ({
+        content: [{ type: "text", text }],
+      }));
+
+      const transports = new Map<string, SSEServerTransport>();
+      global.fetch = jest.fn(async (input: string | URL | Request, init?: RequestInit) => {
+        const request = new Request(input, init);
+        const url = new URL(request.url);
+        if (request.method === "GET") {
+          const transport = new SSEServerTransport("/messages");
+          transports.set(transport.sessionId, transport);
+          await mcpServer.connect(transport);
+          return transport.response;
+        }
+
+        return transports.get(url.searchParams.get("sessionId")!)!.handlePostMessage(request);
+      }) as typeof fetch;
+
+      const client = new Client({ name: "sse-client", version: "1.0.0" });
+      await client.connect(new SSEClientTransport(new URL("http://localhost/sse")));
+
+      const result = await client.callTool({ name: "echo", arguments: { text: "hi" } });
+      expect(result.content).toEqual([{ type: "text", text: "hi" }]);
+
+      await client.close();
+      await mcpServer.close();
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { Transport } from "../shared/transport.js";
+import { JSONRPCMessage, JSONRPCMessageSchema } from "../types.js";
+import { AuthInfo } from "../shared/auth.js";
+
+/**
+ * Options for handling a POSTed message.
+ */
+export type HandlePostMessageOptions = {
+  /**
+   * Information about a validated access token, passed on to request handlers.
+   */
+  authInfo?: AuthInfo;
+
+  /**
+   * A pre-parsed request body, for frameworks that have already consumed the request stream.
+   */
+  parsedBody?: unknown;
+};
+
+const encoder = new TextEncoder();
+
+/**
+ * Server transport for SSE: this will send messages over an SSE stream and receive messages from HTTP POST requests.
+ *
+ * This is the deprecated HTTP+SSE transport (protocol version 2024-11-05), kept for clients such as `SSEClientTransport`.
+ * It is built on the Fetch API `Request`/`Response` types, so it runs in Node.js, Deno, Bun and edge runtimes.
+ *
+ * Usage example:
+ *
+ * ```typescript
+ * const transports = new Map<string, SSEServerTransport>();
+ *
+ * async function handle(request: Request): Promise<Response> {
+ *   const url = new URL(request.url);
+ *   if (request.method === "GET" && url.pathname === "/sse") {
+ *     const transport = new SSEServerTransport("/messages");
+ *     transports.set(transport.sessionId, transport);
+ *     transport.onclose = () => transports.delete(transport.sessionId);
+ *     await server.connect(transport);
+ *     return transport.response;
+ *   }
+ *
+ *   const transport = transports.get(url.searchParams.get("sessionId") ?? "");
+ *   if (!transport) {
+ *     return new Response("Session not found", { status: 404 });
+ *   }
+ *   return transport.handlePostMessage(request);
+ * }
+ * ```
+ */
+export class SSEServerTransport implements Transport {
+  private _controller?: ReadableStreamDefaultController<Uint8Array>;
+  private _response: Response;
+  private _sessionId: string;
+  private _started = false;
+  private _closed = false;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage, extra?: { authInfo?: AuthInfo }) => void;
+
+  /**
+   * Creates a new SSE server transport, which will direct the client to POST messages to the relative or absolute URL identified by `_endpoint`.
+   */
+  constructor(private _endpoint: string) {
+    this._sessionId = crypto.randomUUID();
+
+    const body = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this._controller = controller;
+      },
+      cancel: () => {
+        // The client disconnected
+        this._handleClose();
+      },
+    });
+
+    this._response = new Response(body, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    });
+  }
+
+  /**
+   * The SSE response to return from the GET handler that established this connection.
+   */
+  get response(): Response {
+    return this._response;
+  }
+
+  /**
+   * Starts the SSE stream by sending the `endpoint` event.
+   *
+   * This should be called when a GET request is made to establish the SSE stream.
+   */
+  async start(): Promise<void> {
+    if (this._started) {
+      throw new Error(
+        "SSEServerTransport already started! If using Server class, note that connect() calls start() automatically.",
+      );
+    }
+
+    this._started = true;
+
+    // Only the query is changed, so that relative endpoints, including path-relative ones, keep their meaning and any
+    // query parameters already on the endpoint are preserved.
+    const [endpointWithoutHash, hash] = splitAt(this._endpoint, "#");
+    const [path, query] = splitAt(endpointWithoutHash, "?");
+    const params = new URLSearchParams(query.slice(1));
+    params.set("sessionId", this._sessionId);
+    const endpoint = `${path}?${params}${hash}`;
+
+    this._write(`event: endpoint\ndata: ${endpoint}\n\n`);
+  }
+
+  /**
+   * Handles a client message sent via HTTP POST, and returns the HTTP response.
+   *
+   * This should be called when a POST request is made to send a message to the server.
+   */
+  async handlePostMessage(request: Request, options?: HandlePostMessageOptions): Promise<Response> {
+    if (!this._started || this._closed) {
+      const message = "SSE connection not established";
+      return new Response(message, { status: 500 });
+    }
+
+    let body: unknown;
+    try {
+      const contentType = request.headers.get("content-type");
+      if (!contentType || !contentType.includes("application/json")) {
+        throw new Error(`Unsupported content-type: ${contentType}`);
+      }
+
+      body = options?.parsedBody ?? await request.json();
+    } catch (error) {
+      this.onerror?.(error as Error);
+      return new Response(String(error), { status: 400 });
+    }
+
+    try {
+      await this.handleMessage(body, { authInfo: options?.authInfo });
+    } catch {
+      return new Response(`Invalid message: ${JSON.stringify(body)}`, { status: 400 });
+    }
+
+    return new Response("Accepted", { status: 202 });
+  }
+
+  /**
+   * Handle a client message, regardless of how it arrived. This can be used to inform the server of messages that arrive via a means different than HTTP POST.
+   */
+  async handleMessage(message: unknown, extra?: { authInfo?: AuthInfo }): Promise<void> {
+    let parsedMessage: JSONRPCMessage;
+    try {
+      parsedMessage = JSONRPCMessageSchema.parse(message);
+    } catch (error) {
+      this.onerror?.(error as Error);
+      throw error;
+    }
+
+    this.onmessage?.(parsedMessage, extra);
+  }
+
+  async close(): Promise<void> {
+    if (this._closed) {
+      return;
+    }
+
+    try {
+      this._controller?.close();
+    } catch {
+      // Already closed or cancelled by the client
+    }
+    this._handleClose();
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this._started || this._closed) {
+      throw new Error("Not connected");
+    }
+
+    this._write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+
+  /**
+   * Returns the session ID for this transport.
+   *
+   * This can be used to route incoming POST requests.
+   */
+  get sessionId(): string {
+    return this._sessionId;
+  }
+
+  private _write(data: string): void {
+    this._controller?.enqueue(encoder.encode(data));
+  }
+
+  private _handleClose(): void {
+    if (this._closed) {
+      return;
+    }
+
+    this._closed = true;
+    this.onclose?.();
+  }
+}
+
+/**
+ * Splits the string before the first occurrence of the separator, which starts the second part, if present.
+ */
+function splitAt(value: string, separator: string): [string, string] {
+  const index = value.indexOf(separator);
+  return index === -1 ? [value, ""] : [value.slice(0, index), value.slice(index)];
+}
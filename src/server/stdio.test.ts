@@ -0,0 +1,211 @@
+import { Readable, Writable } from "node:stream";
+import { msgpackCodec } from "../shared/codec.js";
+import { frameMessage, FramingError, lengthPrefixFramer, ReadBuffer, serializeMessage } from "../shared/stdio.js";
+import { JSONRPCMessage } from "../types.js";
+import { StdioServerTransport } from "./stdio.js";
+
+let input: Readable;
+let outputBuffer: ReadBuffer;
+let output: Writable;
+
+beforeEach(() => {
+  input = new Readable({
+    // We'll use input.push() instead.
+    read: () => {},
+  });
+
+  outputBuffer = new ReadBuffer();
+  output = new Writable({
+    write(chunk, encoding, callback) {
+      outputBuffer.append(chunk);
+      callback();
+    },
+  });
+});
+
+test("should start then close cleanly", async () => {
+  const server = new StdioServerTransport(input, output);
+  server.onerror = (error) => {
+    throw error;
+  };
+
+  let didClose = false;
+  server.onclose = () => {
+    didClose = true;
+  };
+
+  await server.start();
+  expect(didClose).toBeFalsy();
+  await server.close();
+  expect(didClose).toBeTruthy();
+});
+
+test("should not read until started", async () => {
+  const server = new StdioServerTransport(input, output);
+  server.onerror = (error) => {
+    throw error;
+  };
+
+  let didRead = false;
+  const readMessage = new Promise((resolve) => {
+    server.onmessage = (message) => {
+      didRead = true;
+      resolve(message);
+    };
+  });
+
+  const message: JSONRPCMessage = {
+    jsonrpc: "2.0",
+    id: 1,
+    method: "ping",
+  };
+  input.push(serializeMessage(message));
+
+  expect(didRead).toBeFalsy();
+  await server.start();
+  expect(await readMessage).toEqual(message);
+});
+
+test("should read multiple messages", async () => {
+  const server = new StdioServerTransport(input, output);
+  server.onerror = (error) => {
+    throw error;
+  };
+
+  const messages: JSONRPCMessage[] = [
+    { jsonrpc: "2.0", id: 1, method: "ping" },
+    { jsonrpc: "2.0", method: "notifications/initialized" },
+  ];
+
+  const readMessages: JSONRPCMessage[] = [];
+  const finished = new Promise<void>((resolve) => {
+    server.onmessage = (message) => {
+      readMessages.push(message);
+      if (JSON.stringify(message) === JSON.stringify(messages[1])) {
+        resolve();
+      }
+    };
+  });
+
+  input.push(serializeMessage(messages[0]));
+  input.push(serializeMessage(messages[1]));
+
+  await server.start();
+  await finished;
+  expect(readMessages).toEqual(messages);
+});
+
+test("should report malformed lines and keep reading", async () => {
+  const server = new StdioServerTransport(input, output);
+  const errors: Error[] = [];
+  server.onerror = (error) => errors.push(error);
+
+  const message: JSONRPCMessage = { jsonrpc: "2.0", id: 1, method: "ping" };
+  const readMessage = new Promise((resolve) => {
+    server.onmessage = resolve;
+  });
+
+  input.push("not json\n");
+  input.push(JSON.stringify({ jsonrpc: "1.0" }) + "\n");
+  input.push(serializeMessage(message));
+
+  await server.start();
+  expect(await readMessage).toEqual(message);
+  expect(errors).toHaveLength(2);
+});
+
+test("should write messages to stdout", async () => {
+  const server = new StdioServerTransport(input, output);
+  await server.start();
+
+  const message: JSONRPCMessage = { jsonrpc: "2.0", id: 1, result: {} };
+  await server.send(message);
+
+  expect(outputBuffer.readMessage()).toEqual(message);
+});
+
+test("should wait for drain when stdout is backed up", async () => {
+  const pending: (() => void)[] = [];
+  const slowOutput = new Writable({
+    highWaterMark: 1,
+    write(_chunk, _encoding, callback) {
+      pending.push(callback);
+    },
+  });
+
+  const server = new StdioServerTransport(input, slowOutput);
+  await server.start();
+
+  let sent = false;
+  const sending = server.send({ jsonrpc: "2.0", method: "notifications/initialized" }).then(() => {
+    sent = true;
+  });
+
+  await new Promise((resolve) => setImmediate(resolve));
+  expect(sent).toBe(false);
+
+  pending.shift()!();
+  await sending;
+  expect(sent).toBe(true);
+});
+
+test("should reject sends waiting for drain when closed", async () => {
+  const stuckOutput = new Writable({
+    highWaterMark: 1,
+    write() {},
+  });
+
+  const server = new StdioServerTransport(input, stuckOutput);
+  await server.start();
+
+  const sending = server.send({ jsonrpc: "2.0", method: "notifications/initialized" });
+  await server.close();
+
+  await expect(sending).rejects.toThrow("Connection closed");
+  expect(stuckOutput.listenerCount("drain")).toBe(0);
+});
+
+test("should close when stdin ends", async () => {
+  const server = new StdioServerTransport(input, output);
+  const closed = new Promise<void>((resolve) => {
+    server.onclose = resolve;
+  });
+
+  await server.start();
+  input.push(null);
+  await closed;
+
+  await expect(server.send({ jsonrpc: "2.0", method: "ping", id: 1 })).rejects.toThrow("Not connected");
+});
+
+test("should use the configured framing and codec", async () => {
+  const framing = { framer: lengthPrefixFramer, codec: msgpackCodec };
+  outputBuffer = new ReadBuffer(framing);
+  const server = new StdioServerTransport(input, output, framing);
+  const readMessage = new Promise((resolve) => {
+    server.onmessage = resolve;
+  });
+
+  const message: JSONRPCMessage = { jsonrpc: "2.0", id: 1, method: "ping" };
+  input.push(frameMessage(message, framing));
+  await server.start();
+  expect(await readMessage).toEqual(message);
+
+  await server.send({ jsonrpc: "2.0", id: 1, result: {} });
+  expect(outputBuffer.readMessage()).toEqual({ jsonrpc: "2.0", id: 1, result: {} });
+});
+
+test("should close when a message exceeds the maximum size", async () => {
+  const server = new StdioServerTransport(input, output, { maxMessageSize: 16 });
+  const errors: Error[] = [];
+  server.onerror = (error) => errors.push(error);
+  const closed = new Promise<void>((resolve) => {
+    server.onclose = resolve;
+  });
+
+  await server.start();
+  input.push("x".repeat(32));
+  await closed;
+
+  expect(errors).toEqual([expect.any(FramingError)]);
+});
@@ -0,0 +1,129 @@
+import process from "node:process";
+import { Readable, Writable } from "node:stream";
+import { frameMessage, FramingError, ReadBuffer, StdioFramingOptions, waitForDrain } from "../shared/stdio.js";
+import { Transport } from "../shared/transport.js";
+import { JSONRPCMessage } from "../types.js";
+
+/**
+ * Server transport for stdio: this communicates with a MCP client by reading from the current process' stdin and writing to stdout.
+ *
+ * This transport is only available in Node.js environments, and is exposed separately from the browser-compatible entry points.
+ *
+ * Usage example:
+ *
+ * ```typescript
+ * const server = new McpServer({ name: "my-server", version: "1.0.0" });
+ * await server.connect(new StdioServerTransport());
+ * ```
+ *
+ * Messages are newline-delimited JSON by default. Other framings and codecs can be selected with `options`, and
+ * the client must use the same ones.
+ */
+export class StdioServerTransport implements Transport {
+  private _readBuffer: ReadBuffer;
+  private _started = false;
+  private _closed = false;
+  // Aborted on close, so that sends waiting for stdout to drain do not wait forever
+  private _closeController = new AbortController();
+
+  constructor(
+    private _stdin: Readable = process.stdin,
+    private _stdout: Writable = process.stdout,
+    private _options?: StdioFramingOptions,
+  ) {
+    this._readBuffer = new ReadBuffer(_options);
+  }
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  // Arrow functions to bind `this` properly, while maintaining function identity.
+  private _ondata = (chunk: Buffer) => {
+    this._readBuffer.append(chunk);
+    this.processReadBuffer();
+  };
+  private _onerror = (error: Error) => {
+    this.onerror?.(error);
+  };
+  private _onend = () => {
+    void this.close();
+  };
+
+  /**
+   * Starts listening for messages on stdin.
+   */
+  async start(): Promise<void> {
+    if (this._started) {
+      throw new Error(
+        "StdioServerTransport already started! If using Server class, note that connect() calls start() automatically.",
+      );
+    }
+
+    this._started = true;
+    this._stdin.on("data", this._ondata);
+    this._stdin.on("error", this._onerror);
+    this._stdin.on("end", this._onend);
+    this._stdout.on("error", this._onerror);
+  }
+
+  private processReadBuffer() {
+    while (true) {
+      try {
+        const message = this._readBuffer.readMessage();
+        if (message === null) {
+          break;
+        }
+
+        this.onmessage?.(message);
+      } catch (error) {
+        this.onerror?.(error as Error);
+        if (error instanceof FramingError) {
+          // The stream can no longer be split into messages
+          void this.close();
+          break;
+        }
+        // The malformed message has already been consumed, so keep reading the messages that follow it.
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this._closed) {
+      return;
+    }
+    this._closed = true;
+    this._closeController.abort(new Error("Connection closed"));
+
+    this._stdin.off("data", this._ondata);
+    this._stdin.off("error", this._onerror);
+    this._stdin.off("end", this._onend);
+    this._stdout.off("error", this._onerror);
+
+    // Check if we were the only data listener
+    const remainingDataListeners = this._stdin.listenerCount("data");
+    if (remainingDataListeners === 0) {
+      // Only pause stdin if we were the only listener
+      // This prevents interfering with other parts of the application that might be using stdin
+      this._stdin.pause();
+    }
+
+    // Clear the buffer and notify closure
+    this._readBuffer.clear();
+    this.onclose?.();
+  }
+
+  /**
+   * Writes the message to stdout, waiting for it to drain if its buffer is full. Rejects if stdout closes or fails, or
+   * the transport is closed, before then.
+   */
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this._closed) {
+      throw new Error("Not connected");
+    }
+
+    if (!this._stdout.write(frameMessage(message, this._options))) {
+      await waitForDrain(this._stdout, this._closeController.signal);
+    }
+  }
+}
@@ -0,0 +1,430 @@
+import { z } from "zod";
+import { InMemoryEventStore } from "../examples/shared/inMemoryEventStore.js";
+import { msgpackCodec } from "../shared/codec.js";
+import { ErrorCode, JSONRPCMessage } from "../types.js";
+import { McpServer } from "./mcp.js";
+import { StreamableHTTPServerTransport, StreamableHTTPServerTransportOptions } from "./streamableHttp.js";
+
+const BASE_URL = "http://localhost/mcp";
+
+const INITIALIZE_MESSAGE: JSONRPCMessage = {
+  jsonrpc: "2.0",
+  method: "initialize",
+  params: {
+    clientInfo: { name: "test-client", version: "1.0" },
+    protocolVersion: "2024-11-05",
+    capabilities: {},
+  },
+  id: "init-1",
+};
+
+const TOOLS_LIST_MESSAGE: JSONRPCMessage = {
+  jsonrpc: "2.0",
+  method: "tools/list",
+  params: {},
+  id: "tools-1",
+};
+
+function createRequest(
+  method: string,
+  body?: unknown,
+  headers: Record<string, string> = {},
+): Request {
+  return new Request(BASE_URL, {
+    method,
+    headers: {
+      Accept: "application/json, text/event-stream",
+      ...(body !== undefined && { "Content-Type": "application/json" }),
+      ...headers,
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+}
+
+/**
+ * Reads SSE events from a stream until the given number of events have arrived.
+ */
+async function readSseEvents(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  count: number,
+): Promise<{ id?: string; data: JSONRPCMessage }[]> {
+  const decoder = new TextDecoder();
+  const events: { id?: string; data: JSONRPCMessage }[] = [];
+  let buffer = "";
+
+  while (events.length < count) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+    let separator: number;
+    while ((separator = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, separator);
+      buffer = buffer.slice(separator + 2);
+      const id = /^id: (.*)$/m.exec(block)?.[1];
+      const data = /^data: (.*)$/m.exec(block)?.[1];
+      if (data) {
+        events.push({ id, data: JSON.parse(data) });
+      }
+    }
+  }
+
+  return events;
+}
+
+describe("StreamableHTTPServerTransport", () => {
+  let mcpServer: McpServer;
+  let transport: StreamableHTTPServerTransport;
+
+  async function setup(options?: Partial<StreamableHTTPServerTransportOptions>) {
+    mcpServer = new McpServer(
+      { name: "test-server", version: "1.0.0" },
+      { capabilities: { logging: {} } },
+    );
+    mcpServer.tool(
+      "greet",
+      "A simple greeting tool",
+      { name: z.string() },
+      async ({ name }) => ({ content: [{ type: "text", text: `Hello, ${name}!` }] }),
+    );
+
+    transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => "test-session",
+      ...options,
+    });
+    await mcpServer.connect(transport);
+  }
+
+  async function initialize(): Promise<Response> {
+    const response = await transport.handleRequest(createRequest("POST", INITIALIZE_MESSAGE));
+    const events = await readSseEvents(response.body!.getReader(), 1);
+    expect(events[0].data).toMatchObject({ id: "init-1", result: { serverInfo: { name: "test-server" } } });
+    return response;
+  }
+
+  afterEach(async () => {
+    await mcpServer.close();
+  });
+
+  describe("session management", () => {
+    beforeEach(async () => {
+      await setup();
+    });
+
+    it("initializes a session and returns the session ID", async () => {
+      const onsessioninitialized = jest.fn();
+      await mcpServer.close();
+      await setup({ onsessioninitialized });
+
+      const response = await initialize();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toBe("text/event-stream");
+      expect(response.headers.get("mcp-session-id")).toBe("test-session");
+      expect(transport.sessionId).toBe("test-session");
+      expect(onsessioninitialized).toHaveBeenCalledWith("test-session");
+    });
+
+    it("rejects a second initialization request", async () => {
+      await initialize();
+
+      const response = await transport.handleRequest(
+        createRequest("POST", { ...INITIALIZE_MESSAGE, id: "init-2" }),
+      );
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ error: { message: /already initialized/ } });
+    });
+
+    it("rejects requests before initialization", async () => {
+      const response = await transport.handleRequest(createRequest("POST", TOOLS_LIST_MESSAGE));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ error: { message: /not initialized/ } });
+    });
+
+    it("rejects requests without a session ID", async () => {
+      await initialize();
+
+      const response = await transport.handleRequest(createRequest("POST", TOOLS_LIST_MESSAGE));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ error: { message: /Mcp-Session-Id header is required/ } });
+    });
+
+    it("rejects requests with an unknown session ID", async () => {
+      await initialize();
+
+      const response = await transport.handleRequest(
+        createRequest("POST", TOOLS_LIST_MESSAGE, { "mcp-session-id": "other-session" }),
+      );
+
+      expect(response.status).toBe(404);
+    });
+
+    it("terminates the session on DELETE", async () => {
+      await initialize();
+      const onclose = jest.fn();
+      mcpServer.server.onclose = onclose;
+
+      const response = await transport.handleRequest(
+        createRequest("DELETE", undefined, { "mcp-session-id": "test-session" }),
+      );
+
+      expect(response.status).toBe(200);
+      expect(onclose).toHaveBeenCalled();
+    });
+
+    it("skips session validation in stateless mode", async () => {
+      await mcpServer.close();
+      await setup({ sessionIdGenerator: undefined });
+
+      const response = await initialize();
+      expect(response.headers.get("mcp-session-id")).toBeNull();
+
+      const toolsResponse = await transport.handleRequest(createRequest("POST", TOOLS_LIST_MESSAGE));
+      expect(toolsResponse.status).toBe(200);
+    });
+
+    it("accepts requests with a supported or missing MCP-Protocol-Version header", async () => {
+      await initialize();
+
+      const response = await transport.handleRequest(
+        createRequest("POST", TOOLS_LIST_MESSAGE, { "mcp-session-id": "test-session", "mcp-protocol-version": "2024-11-05" }),
+      );
+      expect(response.status).toBe(200);
+
+      const legacyResponse = await transport.handleRequest(
+        createRequest("POST", { ...TOOLS_LIST_MESSAGE, id: "tools-2" }, { "mcp-session-id": "test-session" }),
+      );
+      expect(legacyResponse.status).toBe(200);
+    });
+
+    it("rejects requests with an unsupported MCP-Protocol-Version header", async () => {
+      await initialize();
+
+      const response = await transport.handleRequest(
+        createRequest("POST", TOOLS_LIST_MESSAGE, { "mcp-session-id": "test-session", "mcp-protocol-version": "1999-01-01" }),
+      );
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ error: { message: /Unsupported protocol version/ } });
+    });
+  });
+
+  describe("POST requests", () => {
+    beforeEach(async () => {
+      await setup();
+      await initialize();
+    });
+
+    it("streams responses over SSE", async () => {
+      const response = await transport.handleRequest(
+        createRequest("POST", TOOLS_LIST_MESSAGE, { "mcp-session-id": "test-session" }),
+      );
+
+      const events = await readSseEvents(response.body!.getReader(), 1);
+      expect(events[0].data).toMatchObject({
+        id: "tools-1",
+        result: { tools: [expect.objectContaining({ name: "greet" })] },
+      });
+    });
+
+    it("returns 202 for notifications", async () => {
+      const response = await transport.handleRequest(
+        createRequest("POST", { jsonrpc: "2.0", method: "notifications/initialized" }, { "mcp-session-id": "test-session" }),
+      );
+
+      expect(response.status).toBe(202);
+    });
+
+    it("rejects requests that do not accept SSE", async () => {
+      const response = await transport.handleRequest(
+        createRequest("POST", TOOLS_LIST_MESSAGE, { "mcp-session-id": "test-session", Accept: "application/json" }),
+      );
+
+      expect(response.status).toBe(406);
+    });
+
+    it("rejects invalid JSON", async () => {
+      const response = await transport.handleRequest(new Request(BASE_URL, {
+        method: "POST",
+        headers: {
+          Accept: "application/json, text/event-stream",
+          "Content-Type": "application/json",
+          "mcp-session-id": "test-session",
+        },
+        body: "{ not json",
+      }));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ error: { code: -32700 } });
+    });
+
+    it("rejects unsupported HTTP methods", async () => {
+      const response = await transport.handleRequest(createRequest("PUT", TOOLS_LIST_MESSAGE));
+
+      expect(response.status).toBe(405);
+      expect(response.headers.get("allow")).toBe("GET, POST, DELETE");
+    });
+  });
+
+  describe("JSON response mode", () => {
+    beforeEach(async () => {
+      await setup({ enableJsonResponse: true });
+    });
+
+    it("returns JSON responses instead of SSE streams", async () => {
+      const initResponse = await transport.handleRequest(createRequest("POST", INITIALIZE_MESSAGE));
+      expect(initResponse.headers.get("content-type")).toBe("application/json");
+
+      const response = await transport.handleRequest(
+        createRequest(
+          "POST",
+          { jsonrpc: "2.0", method: "tools/call", params: { name: "greet", arguments: { name: "Ada" } }, id: "call-1" },
+          { "mcp-session-id": "test-session" },
+        ),
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({
+        id: "call-1",
+        result: { content: [{ type: "text", text: "Hello, Ada!" }] },
+      });
+    });
+
+    it("returns batched responses as an array", async () => {
+      await transport.handleRequest(createRequest("POST", INITIALIZE_MESSAGE));
+
+      const response = await transport.handleRequest(
+        createRequest(
+          "POST",
+          [TOOLS_LIST_MESSAGE, { jsonrpc: "2.0", method: "ping", id: "ping-1" }],
+          { "mcp-session-id": "test-session" },
+        ),
+      );
+
+      const body = await response.json();
+      expect(body).toHaveLength(2);
+      expect(body.map((message: { id: string }) => message.id)).toEqual(["tools-1", "ping-1"]);
+    });
+
+    it("answers pending requests with errors when the session is terminated", async () => {
+      let started: () => void;
+      const called = new Promise<void>((resolve) => (started = resolve));
+      mcpServer.tool("hang", () => {
+        started();
+        return new Promise(() => {});
+      });
+      await transport.handleRequest(createRequest("POST", INITIALIZE_MESSAGE));
+
+      const pending = transport.handleRequest(
+        createRequest(
+          "POST",
+          { jsonrpc: "2.0", method: "tools/call", params: { name: "hang" }, id: "call-1" },
+          { "mcp-session-id": "test-session" },
+        ),
+      );
+      await called;
+      const deleteResponse = await transport.handleRequest(
+        createRequest("DELETE", undefined, { "mcp-session-id": "test-session" }),
+      );
+
+      expect(deleteResponse.status).toBe(200);
+      const response = await pending;
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        jsonrpc: "2.0",
+        id: "call-1",
+        error: { code: ErrorCode.ConnectionClosed, message: "Connection closed" },
+      });
+    });
+  });
+
+  describe("codecs", () => {
+    const msgpackRequest = (message: JSONRPCMessage, headers: Record<string, string> = {}) =>
+      new Request(BASE_URL, {
+        method: "POST",
+        headers: {
+          Accept: `${msgpackCodec.mediaType}, text/event-stream`,
+          "Content-Type": msgpackCodec.mediaType,
+          ...headers,
+        },
+        body: msgpackCodec.encode(message),
+      });
+
+    it("accepts requests in a configured codec and responds in the same codec", async () => {
+      await setup({ enableJsonResponse: true, codecs: [msgpackCodec] });
+
+      const response = await transport.handleRequest(msgpackRequest(INITIALIZE_MESSAGE));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toBe(msgpackCodec.mediaType);
+      expect(msgpackCodec.decode(new Uint8Array(await response.arrayBuffer()))).toMatchObject({
+        id: "init-1",
+        result: { serverInfo: { name: "test-server" } },
+      });
+    });
+
+    it("rejects unsupported codecs with 415", async () => {
+      await setup();
+
+      const response = await transport.handleRequest(
+        msgpackRequest(INITIALIZE_MESSAGE, { Accept: `${msgpackCodec.mediaType}, application/json, text/event-stream` }),
+      );
+
+      expect(response.status).toBe(415);
+    });
+  });
+
+  describe("GET requests", () => {
+    it("opens a standalone SSE stream for server notifications", async () => {
+      await setup();
+      await initialize();
+
+      const response = await transport.handleRequest(
+        createRequest("GET", undefined, { Accept: "text/event-stream", "mcp-session-id": "test-session" }),
+      );
+      expect(response.status).toBe(200);
+
+      await mcpServer.server.sendLoggingMessage({ level: "info", data: "hello" });
+
+      const events = await readSseEvents(response.body!.getReader(), 1);
+      expect(events[0].data).toMatchObject({ method: "notifications/message", params: { data: "hello" } });
+    });
+
+    it("allows only one standalone SSE stream per session", async () => {
+      await setup();
+      await initialize();
+      const headers = { Accept: "text/event-stream", "mcp-session-id": "test-session" };
+
+      await transport.handleRequest(createRequest("GET", undefined, headers));
+      const response = await transport.handleRequest(createRequest("GET", undefined, headers));
+
+      expect(response.status).toBe(409);
+    });
+
+    it("replays missed events after Last-Event-ID", async () => {
+      await setup({ eventStore: new InMemoryEventStore() });
+      await initialize();
+      const headers = { Accept: "text/event-stream", "mcp-session-id": "test-session" };
+
+      const response = await transport.handleRequest(createRequest("GET", undefined, headers));
+      const reader = response.body!.getReader();
+      await mcpServer.server.sendLoggingMessage({ level: "info", data: "first" });
+      await mcpServer.server.sendLoggingMessage({ level: "info", data: "second" });
+      const [first] = await readSseEvents(reader, 1);
+      expect(first.id).toBeDefined();
+      await reader.cancel();
+
+      const replay = await transport.handleRequest(
+        createRequest("GET", undefined, { ...headers, "last-event-id": first.id! }),
+      );
+
+      const events = await readSseEvents(replay.body!.getReader(), 1);
+      expect(events[0].data).toMatchObject({ params: { data: "second" } });
+    });
+  });
+});
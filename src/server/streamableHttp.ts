@@ -0,0 +1,686 @@
+import { codecForMediaType, jsonCodec, MessageCodec } from "../shared/codec.js";
+import { Transport } from "../shared/transport.js";
+import {
+  DEFAULT_NEGOTIATED_PROTOCOL_VERSION,
+  ErrorCode,
+  isInitializeRequest,
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  RequestId,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from "../types.js";
+import { AuthInfo } from "../shared/auth.js";
+
+export type StreamId = string;
+export type EventId = string;
+
+/**
+ * Interface for resumability support via event storage
+ */
+export interface EventStore {
+  /**
+   * Stores an event for later retrieval
+   * @param streamId ID of the stream the event belongs to
+   * @param message The JSON-RPC message to store
+   * @returns The generated event ID for the stored event
+   */
+  storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId>;
+
+  replayEventsAfter(lastEventId: EventId, { send }: {
+    send: (eventId: EventId, message: JSONRPCMessage) => Promise<void>
+  }): Promise<StreamId>;
+}
+
+/**
+ * Configuration options for StreamableHTTPServerTransport
+ */
+export interface StreamableHTTPServerTransportOptions {
+  /**
+   * Function that generates a session ID for the transport.
+   * The session ID SHOULD be globally unique and cryptographically secure (e.g., a secure UUID, a JWT, or a cryptographic hash)
+   *
+   * Return undefined to disable session management.
+   */
+  sessionIdGenerator: (() => string) | undefined;
+
+  /**
+   * A callback for session initialization events
+   * This is called when the server initializes a new session.
+   * Useful in cases when you need to register multiple mcp sessions
+   * and need to keep track of them.
+   * @param sessionId The generated session ID
+   */
+  onsessioninitialized?: (sessionId: string) => void;
+
+  /**
+   * If true, the server will return JSON responses instead of starting an SSE stream.
+   * This can be useful for simple request/response scenarios without streaming.
+   * Default is false (SSE streams are preferred).
+   */
+  enableJsonResponse?: boolean;
+
+  /**
+   * Event store for resumability support
+   * If provided, resumability will be enabled, allowing clients to reconnect and resume messages
+   */
+  eventStore?: EventStore;
+
+  /**
+   * Codecs accepted for POST request bodies in addition to JSON, selected by the request's Content-Type.
+   * JSON responses are encoded with the codec of their request; SSE streams always carry JSON.
+   */
+  codecs?: MessageCodec[];
+}
+
+/**
+ * Options for handling a single HTTP request.
+ */
+export type HandleRequestOptions = {
+  /**
+   * Information about a validated access token, passed on to request handlers.
+   */
+  authInfo?: AuthInfo;
+
+  /**
+   * A pre-parsed request body, for frameworks that have already consumed the request stream.
+   */
+  parsedBody?: unknown;
+};
+
+/**
+ * An outbound stream for a set of requests: either an SSE stream, or a pending JSON response.
+ */
+type ResponseStream =
+  | { type: "sse"; controller: ReadableStreamDefaultController<Uint8Array> }
+  | { type: "json"; codec: MessageCodec; resolve: (response: Response) => void };
+
+const encoder = new TextEncoder();
+
+/**
+ * Server transport for Streamable HTTP: this implements the MCP Streamable HTTP transport specification.
+ * It supports both SSE streaming and direct HTTP responses.
+ *
+ * The transport is built on the Fetch API `Request`/`Response` types, so it runs in Node.js, Deno, Bun,
+ * Cloudflare Workers and other runtimes that provide them.
+ *
+ * Usage example:
+ *
+ * ```typescript
+ * // Stateful mode - server sets the session ID
+ * const statefulTransport = new StreamableHTTPServerTransport({
+ *   sessionIdGenerator: () => crypto.randomUUID(),
+ * });
+ *
+ * // Stateless mode - explicitly set session ID to undefined
+ * const statelessTransport = new StreamableHTTPServerTransport({
+ *   sessionIdGenerator: undefined,
+ * });
+ *
+ * // Using with a Fetch API handler
+ * export default {
+ *   fetch: (request: Request) => transport.handleRequest(request),
+ * };
+ * ```
+ *
+ * In stateful mode:
+ * - Session ID is generated and included in response headers
+ * - Session ID is always included in initialization responses
+ * - Requests with invalid session IDs are rejected with 404 Not Found
+ * - Non-initialization requests without a session ID are rejected with 400 Bad Request
+ * - State is maintained in-memory (connections, message history)
+ *
+ * In stateless mode:
+ * - No Session ID is included in any responses
+ * - No session validation is performed
+ */
+export class StreamableHTTPServerTransport implements Transport {
+  // when sessionId is not set (undefined), it means the transport is in stateless mode
+  private sessionIdGenerator: (() => string) | undefined;
+  private _started: boolean = false;
+  private _streamMapping: Map<string, ResponseStream> = new Map();
+  private _requestToStreamMapping: Map<RequestId, string> = new Map();
+  private _requestResponseMap: Map<RequestId, JSONRPCMessage> = new Map();
+  private _initialized: boolean = false;
+  private _enableJsonResponse: boolean = false;
+  private _standaloneSseStreamId: string = "_GET_stream";
+  private _eventStore?: EventStore;
+  private _onsessioninitialized?: (sessionId: string) => void;
+  private _codecs: MessageCodec[];
+
+  sessionId?: string;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage, extra?: { authInfo?: AuthInfo }) => void;
+
+  constructor(options: StreamableHTTPServerTransportOptions) {
+    this.sessionIdGenerator = options.sessionIdGenerator;
+    this._enableJsonResponse = options.enableJsonResponse ?? false;
+    this._eventStore = options.eventStore;
+    this._onsessioninitialized = options.onsessioninitialized;
+    this._codecs = [jsonCodec, ...(options.codecs ?? [])];
+  }
+
+  /**
+   * Starts the transport. This is required by the Transport interface but is a no-op
+   * for the Streamable HTTP transport as connections are managed per-request.
+   */
+  async start(): Promise<void> {
+    if (this._started) {
+      throw new Error("Transport already started");
+    }
+    this._started = true;
+  }
+
+  /**
+   * Handles an incoming HTTP request, whether GET, POST or DELETE, and returns the HTTP response.
+   */
+  async handleRequest(request: Request, options?: HandleRequestOptions): Promise<Response> {
+    switch (request.method) {
+      case "POST":
+        return this.handlePostRequest(request, options);
+      case "GET":
+        return this.handleGetRequest(request);
+      case "DELETE":
+        return this.handleDeleteRequest(request);
+      default:
+        return this.handleUnsupportedRequest();
+    }
+  }
+
+  /**
+   * Handles GET requests for SSE stream
+   */
+  private async handleGetRequest(request: Request): Promise<Response> {
+    // The client MUST include an Accept header, listing text/event-stream as a supported content type.
+    const acceptHeader = request.headers.get("accept");
+    if (!acceptHeader?.includes("text/event-stream")) {
+      return this.errorResponse(406, -32000, "Not Acceptable: Client must accept text/event-stream");
+    }
+
+    // If an Mcp-Session-Id is returned by the server during initialization,
+    // clients using the Streamable HTTP transport MUST include it
+    // in the Mcp-Session-Id header on all of their subsequent HTTP requests.
+    const sessionError = this.validateSession(request) ?? this.validateProtocolVersion(request);
+    if (sessionError) {
+      return sessionError;
+    }
+
+    // Handle resumability: check for Last-Event-ID header
+    if (this._eventStore) {
+      const lastEventId = request.headers.get("last-event-id");
+      if (lastEventId) {
+        return this.replayEvents(lastEventId);
+      }
+    }
+
+    // Check if there's already an active standalone SSE stream for this session
+    if (this._streamMapping.get(this._standaloneSseStreamId) !== undefined) {
+      // Only one GET SSE stream is allowed per session
+      return this.errorResponse(409, -32000, "Conflict: Only one SSE stream is allowed per session");
+    }
+
+    // The server MUST either return Content-Type: text/event-stream in response to this HTTP GET,
+    // or else return HTTP 405 Method Not Allowed
+    return this.createSseResponse(this._standaloneSseStreamId);
+  }
+
+  /**
+   * Replays events that would have been sent after the specified event ID
+   * Only used when resumability is enabled
+   */
+  private async replayEvents(lastEventId: string): Promise<Response> {
+    let controller!: ReadableStreamDefaultController<Uint8Array>;
+    let streamId: string | undefined;
+    const body = new ReadableStream<Uint8Array>({
+      start: (c) => {
+        controller = c;
+      },
+      cancel: () => {
+        if (streamId !== undefined) {
+          this._streamMapping.delete(streamId);
+        }
+      },
+    });
+
+    try {
+      streamId = await this._eventStore!.replayEventsAfter(lastEventId, {
+        send: async (eventId: EventId, message: JSONRPCMessage) => {
+          this.writeSSEEvent(controller, message, eventId);
+        },
+      });
+    } catch (error) {
+      this.onerror?.(error as Error);
+      return this.errorResponse(500, -32000, "Failed to replay events");
+    }
+
+    this._streamMapping.set(streamId, { type: "sse", controller });
+    return new Response(body, { status: 200, headers: this.sseHeaders() });
+  }
+
+  /**
+   * Writes an event to the SSE stream with proper formatting
+   */
+  private writeSSEEvent(controller: ReadableStreamDefaultController<Uint8Array>, message: JSONRPCMessage, eventId?: string): boolean {
+    let eventData = `event: message\n`;
+    // Include event ID if provided - this is important for resumability
+    if (eventId) {
+      eventData += `id: ${eventId}\n`;
+    }
+    eventData += `data: ${JSON.stringify(message)}\n\n`;
+
+    try {
+      controller.enqueue(encoder.encode(eventData));
+      return true;
+    } catch {
+      // The stream has already been closed or cancelled by the client
+      return false;
+    }
+  }
+
+  /**
+   * Handles unsupported requests (PUT, PATCH, etc.)
+   */
+  private handleUnsupportedRequest(): Response {
+    return new Response(
+      JSON.stringify({
+        jsonrpc: "2.0",
+        error: {
+          code: -32000,
+          message: "Method not allowed.",
+        },
+        id: null,
+      }),
+      {
+        status: 405,
+        headers: {
+          "Allow": "GET, POST, DELETE",
+          "Content-Type": "application/json",
+        },
+      },
+    );
+  }
+
+  /**
+   * Handles POST requests containing JSON-RPC messages
+   */
+  private async handlePostRequest(request: Request, options?: HandleRequestOptions): Promise<Response> {
+    try {
+      const contentType = request.headers.get("content-type");
+      const codec = contentType?.includes("application/json") ? jsonCodec : codecForMediaType(contentType, this._codecs);
+
+      // Validate the Accept header
+      const acceptHeader = request.headers.get("accept");
+      // The client MUST include an Accept header, listing both application/json and text/event-stream as supported content types.
+      // Clients using another codec may accept its media type instead of application/json.
+      const acceptsResponse = acceptHeader?.includes("application/json") || (codec && acceptHeader?.includes(codec.mediaType));
+      if (!acceptsResponse || !acceptHeader?.includes("text/event-stream")) {
+        return this.errorResponse(406, -32000, "Not Acceptable: Client must accept both application/json and text/event-stream");
+      }
+
+      if (!codec) {
+        const mediaTypes = this._codecs.map((codec) => codec.mediaType).join(", ");
+        return this.errorResponse(415, -32000, `Unsupported Media Type: Content-Type must be one of ${mediaTypes}`);
+      }
+
+      let messages: JSONRPCMessage[];
+
+      if (codec === jsonCodec) {
+        let rawMessage;
+        if (options?.parsedBody !== undefined) {
+          rawMessage = options.parsedBody;
+        } else {
+          try {
+            rawMessage = await request.json();
+          } catch {
+            return this.errorResponse(400, -32700, "Parse error: Invalid JSON");
+          }
+        }
+
+        // handle batch and single messages
+        try {
+          if (Array.isArray(rawMessage)) {
+            messages = rawMessage.map(msg => JSONRPCMessageSchema.parse(msg));
+          } else {
+            messages = [JSONRPCMessageSchema.parse(rawMessage)];
+          }
+        } catch (error) {
+          this.onerror?.(error as Error);
+          return this.errorResponse(400, -32700, "Parse error: Invalid JSON-RPC message");
+        }
+      } else {
+        try {
+          const decoded = codec.decode(codec.binary ? new Uint8Array(await request.arrayBuffer()) : await request.text());
+          messages = Array.isArray(decoded) ? decoded : [decoded];
+        } catch (error) {
+          this.onerror?.(error as Error);
+          return this.errorResponse(400, -32700, `Parse error: Invalid ${codec.name} message`);
+        }
+      }
+
+      // Check if this is an initialization request
+      // https://spec.modelcontextprotocol.io/specification/2025-03-26/basic/lifecycle/
+      const isInitializationRequest = messages.some(isInitializeRequest);
+      if (isInitializationRequest) {
+        // If it's a server with session management and the session ID is already set we should reject the request
+        // to avoid re-initialization.
+        if (this._initialized && this.sessionId !== undefined) {
+          return this.errorResponse(400, -32600, "Invalid Request: Server already initialized");
+        }
+        if (messages.length > 1) {
+          return this.errorResponse(400, -32600, "Invalid Request: Only one initialization request is allowed");
+        }
+        this.sessionId = this.sessionIdGenerator?.();
+        this._initialized = true;
+
+        // If we have a session ID and an onsessioninitialized handler, call it immediately
+        // This is needed in cases where the server needs to keep track of multiple sessions
+        if (this.sessionId && this._onsessioninitialized) {
+          this._onsessioninitialized(this.sessionId);
+        }
+      }
+
+      // If an Mcp-Session-Id is returned by the server during initialization,
+      // clients using the Streamable HTTP transport MUST include it
+      // in the Mcp-Session-Id header on all of their subsequent HTTP requests.
+      if (!isInitializationRequest) {
+        const sessionError = this.validateSession(request) ?? this.validateProtocolVersion(request);
+        if (sessionError) {
+          return sessionError;
+        }
+      }
+
+      // check if it contains requests
+      const hasRequests = messages.some(isJSONRPCRequest);
+      const extra = { authInfo: options?.authInfo };
+
+      if (!hasRequests) {
+        // handle each message
+        for (const message of messages) {
+          this.onmessage?.(message, extra);
+        }
+
+        // if it only contains notifications or responses, return 202
+        return new Response(null, { status: 202, headers: this.sessionHeaders() });
+      }
+
+      // The default behavior is to use SSE streaming
+      // but in some cases server will return JSON responses
+      const streamId = crypto.randomUUID();
+      let response: Promise<Response>;
+      if (this._enableJsonResponse) {
+        response = new Promise((resolve) => {
+          this._streamMapping.set(streamId, { type: "json", codec, resolve });
+        });
+      } else {
+        response = Promise.resolve(this.createSseResponse(streamId));
+      }
+
+      for (const message of messages) {
+        if (isJSONRPCRequest(message)) {
+          this._requestToStreamMapping.set(message.id, streamId);
+        }
+      }
+
+      // handle each message
+      for (const message of messages) {
+        this.onmessage?.(message, extra);
+      }
+
+      // The server SHOULD NOT close the SSE stream before sending all JSON-RPC responses
+      // This will be handled by the send() method when responses are ready
+      return response;
+    } catch (error) {
+      // return JSON-RPC formatted error
+      this.onerror?.(error as Error);
+      return this.errorResponse(400, -32700, "Parse error", String(error));
+    }
+  }
+
+  /**
+   * Handles DELETE requests to terminate sessions
+   */
+  private async handleDeleteRequest(request: Request): Promise<Response> {
+    const sessionError = this.validateSession(request) ?? this.validateProtocolVersion(request);
+    if (sessionError) {
+      return sessionError;
+    }
+
+    await this.close();
+    return new Response(null, { status: 200 });
+  }
+
+  /**
+   * Validates session ID for non-initialization requests
+   * Returns an error response if the session is invalid, undefined otherwise
+   */
+  private validateSession(request: Request): Response | undefined {
+    if (this.sessionIdGenerator === undefined) {
+      // If the sessionIdGenerator ID is not set, the session management is disabled
+      // and we don't need to validate the session ID
+      return undefined;
+    }
+
+    if (!this._initialized) {
+      // If the server has not been initialized yet, reject all requests
+      return this.errorResponse(400, -32000, "Bad Request: Server not initialized");
+    }
+
+    const sessionId = request.headers.get("mcp-session-id");
+    if (!sessionId) {
+      // Non-initialization requests without a session ID should return 400 Bad Request
+      return this.errorResponse(400, -32000, "Bad Request: Mcp-Session-Id header is required");
+    }
+
+    if (sessionId !== this.sessionId) {
+      // Reject requests with invalid session ID with 404 Not Found
+      return this.errorResponse(404, -32001, "Session not found");
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Validates the MCP-Protocol-Version header of non-initialization requests
+   * Returns an error response if the version is not supported, undefined otherwise
+   */
+  private validateProtocolVersion(request: Request): Response | undefined {
+    // Clients that predate the header are assumed to use the version that introduced this transport
+    const protocolVersion = request.headers.get("mcp-protocol-version") ?? DEFAULT_NEGOTIATED_PROTOCOL_VERSION;
+    if (!SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)) {
+      return this.errorResponse(
+        400,
+        -32000,
+        `Bad Request: Unsupported protocol version (supported versions: ${SUPPORTED_PROTOCOL_VERSIONS.join(", ")})`,
+      );
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Opens an SSE stream registered under the given stream ID, and returns the response that carries it.
+   */
+  private createSseResponse(streamId: string): Response {
+    const body = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this._streamMapping.set(streamId, { type: "sse", controller });
+      },
+      cancel: () => {
+        // The client disconnected
+        this._streamMapping.delete(streamId);
+      },
+    });
+
+    return new Response(body, { status: 200, headers: this.sseHeaders() });
+  }
+
+  private sessionHeaders(): Record<string, string> {
+    return this.sessionId !== undefined ? { "mcp-session-id": this.sessionId } : {};
+  }
+
+  private sseHeaders(): Record<string, string> {
+    return {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      ...this.sessionHeaders(),
+    };
+  }
+
+  private errorResponse(status: number, code: number, message: string, data?: unknown): Response {
+    return new Response(
+      JSON.stringify({
+        jsonrpc: "2.0",
+        error: {
+          code,
+          message,
+          ...(data !== undefined && { data }),
+        },
+        id: null,
+      }),
+      {
+        status,
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  }
+
+  async close(): Promise<void> {
+    // Close all SSE connections, and answer pending JSON responses with errors for the requests not yet answered
+    this._streamMapping.forEach((stream, streamId) => {
+      if (stream.type === "sse") {
+        try {
+          stream.controller.close();
+        } catch {
+          // Already closed or cancelled by the client
+        }
+        return;
+      }
+
+      const responses = Array.from(this._requestToStreamMapping.entries())
+        .filter(([_, mappedStreamId]) => mappedStreamId === streamId)
+        .map(([id]): JSONRPCMessage => this._requestResponseMap.get(id) ?? {
+          jsonrpc: "2.0",
+          id,
+          error: { code: ErrorCode.ConnectionClosed, message: "Connection closed" },
+        });
+      this.resolveJsonResponse(stream, responses);
+    });
+    this._streamMapping.clear();
+
+    // Clear any pending responses
+    this._requestResponseMap.clear();
+    this._requestToStreamMapping.clear();
+    this.onclose?.();
+  }
+
+  /**
+   * Sends the responses to the requests of a POST in a single JSON response, in the codec of the request
+   */
+  private resolveJsonResponse(stream: ResponseStream & { type: "json" }, responses: JSONRPCMessage[]): void {
+    stream.resolve(new Response(
+      stream.codec.encode(responses.length === 1 ? responses[0] : responses),
+      {
+        status: 200,
+        headers: {
+          "Content-Type": stream.codec.mediaType,
+          ...this.sessionHeaders(),
+        },
+      },
+    ));
+  }
+
+  async send(message: JSONRPCMessage, options?: { relatedRequestId?: RequestId }): Promise<void> {
+    let requestId = options?.relatedRequestId;
+    if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+      // If the message is a response, use the request ID from the message
+      requestId = message.id;
+    }
+
+    // Check if this message should be sent on the standalone SSE stream (no request ID)
+    // Ignore notifications from tools (which have relatedRequestId set)
+    // Those will be sent via dedicated response SSE streams
+    if (requestId === undefined) {
+      // For standalone SSE streams, we can only send requests and notifications
+      if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+        throw new Error("Cannot send a response on a standalone SSE stream unless resuming a previous client request");
+      }
+
+      const standaloneSse = this._streamMapping.get(this._standaloneSseStreamId);
+      if (standaloneSse === undefined || standaloneSse.type !== "sse") {
+        // The spec says the server MAY send messages on the stream, so it's ok to discard if no stream
+        return;
+      }
+
+      // Generate and store event ID if event store is provided
+      let eventId: string | undefined;
+      if (this._eventStore) {
+        // Stores the event and gets the generated event ID
+        eventId = await this._eventStore.storeEvent(this._standaloneSseStreamId, message);
+      }
+
+      // Send the message to the standalone SSE stream
+      this.writeSSEEvent(standaloneSse.controller, message, eventId);
+      return;
+    }
+
+    // Get the response for this request
+    const streamId = this._requestToStreamMapping.get(requestId);
+    if (!streamId) {
+      throw new Error(`No connection established for request ID: ${String(requestId)}`);
+    }
+
+    const stream = this._streamMapping.get(streamId);
+
+    if (stream?.type !== "json") {
+      // For SSE responses, generate event ID if event store is provided
+      let eventId: string | undefined;
+
+      if (this._eventStore) {
+        eventId = await this._eventStore.storeEvent(streamId, message);
+      }
+
+      if (stream) {
+        // Write the event to the response stream
+        this.writeSSEEvent(stream.controller, message, eventId);
+      }
+    }
+
+    if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+      this._requestResponseMap.set(requestId, message);
+      const relatedIds = Array.from(this._requestToStreamMapping.entries())
+        .filter(([_, mappedStreamId]) => mappedStreamId === streamId)
+        .map(([id]) => id);
+
+      // Check if we have responses for all requests using this connection
+      const allResponsesReady = relatedIds.every(id => this._requestResponseMap.has(id));
+
+      if (allResponsesReady) {
+        if (!stream) {
+          throw new Error(`No connection established for request ID: ${String(requestId)}`);
+        }
+
+        if (stream.type === "json") {
+          this.resolveJsonResponse(stream, relatedIds.map(id => this._requestResponseMap.get(id)!));
+        } else {
+          // End the SSE stream
+          try {
+            stream.controller.close();
+          } catch {
+            // Already closed or cancelled by the client
+          }
+        }
+
+        // Clean up
+        this._streamMapping.delete(streamId);
+        for (const id of relatedIds) {
+          this._requestResponseMap.delete(id);
+          this._requestToStreamMapping.delete(id);
+        }
+      }
+    }
+  }
+}
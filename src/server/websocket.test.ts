@@ -0,0 +1,287 @@
+import { jsonCodec, msgpackCodec } from "../shared/codec.js";
+import { JSONRPCMessage, LATEST_PROTOCOL_VERSION } from "../types.js";
+import { McpServer } from "./mcp.js";
+import { selectSubprotocol, ServerWebSocket, WebSocketServerTransport } from "./websocket.js";
+
+type Listener = (event: unknown) => void;
+
+// Minimal stand-in for an accepted server-side WebSocket, controlled by the tests
+class FakeServerSocket implements ServerWebSocket {
+  readyState = 1;
+  sent: (string | Uint8Array)[] = [];
+  closedWith?: { code?: number; reason?: string };
+  private _listeners = new Map<string, Set<Listener>>();
+
+  constructor(public protocol = "mcp") {}
+
+  send(data: string | Uint8Array): void {
+    this.sent.push(data);
+  }
+
+  close(code?: number, reason?: string): void {
+    this.closedWith = { code, reason };
+    this.readyState = 3;
+  }
+
+  addEventListener(type: string, listener: (event: never) => void): void {
+    const listeners = this._listeners.get(type) ?? new Set();
+    listeners.add(listener as Listener);
+    this._listeners.set(type, listeners);
+  }
+
+  removeEventListener(type: string, listener: (event: never) => void): void {
+    this._listeners.get(type)?.delete(listener as Listener);
+  }
+
+  // Test helpers
+  dispatch(type: string, event: unknown = {}): void {
+    this._listeners.get(type)?.forEach((listener) => listener(event));
+  }
+
+  receive(data: unknown): void {
+    this.dispatch("message", { data });
+  }
+
+  listenerCount(type: string): number {
+    return this._listeners.get(type)?.size ?? 0;
+  }
+
+  get sentMessages(): JSONRPCMessage[] {
+    return this.sent.map((data) => JSON.parse(data as string));
+  }
+}
+
+// A socket with `ws`-style protocol-level ping frames
+class FakeNodeSocket extends FakeServerSocket {
+  pings = 0;
+  private _pongListeners = new Set<() => void>();
+
+  ping(): void {
+    this.pings++;
+  }
+
+  on(_event: "pong", listener: () => void): void {
+    this._pongListeners.add(listener);
+  }
+
+  off(_event: "pong", listener: () => void): void {
+    this._pongListeners.delete(listener);
+  }
+
+  pong(): void {
+    this._pongListeners.forEach((listener) => listener());
+  }
+}
+
+describe("selectSubprotocol", () => {
+  it("selects mcp when the client offers it", () => {
+    expect(selectSubprotocol("chat, mcp")).toBe("mcp");
+    expect(selectSubprotocol("chat")).toBeUndefined();
+    expect(selectSubprotocol(null)).toBeUndefined();
+  });
+
+  it("selects the first offered subprotocol of a supported codec", () => {
+    expect(selectSubprotocol("mcp.msgpack, mcp", [jsonCodec, msgpackCodec])).toBe("mcp.msgpack");
+    expect(selectSubprotocol("mcp.msgpack, mcp")).toBe("mcp");
+  });
+});
+
+describe("WebSocketServerTransport", () => {
+  const message: JSONRPCMessage = { jsonrpc: "2.0", id: 1, method: "ping" };
+
+  it("generates a session ID per connection", () => {
+    const first = new WebSocketServerTransport(new FakeServerSocket());
+    const second = new WebSocketServerTransport(new FakeServerSocket());
+    expect(first.sessionId).not.toEqual(second.sessionId);
+
+    const custom = new WebSocketServerTransport(new FakeServerSocket(), { sessionIdGenerator: () => "custom" });
+    expect(custom.sessionId).toBe("custom");
+  });
+
+  it("rejects connections without the mcp subprotocol", async () => {
+    const socket = new FakeServerSocket("");
+    const transport = new WebSocketServerTransport(socket);
+    const onclose = jest.fn();
+    transport.onclose = onclose;
+
+    await expect(transport.start()).rejects.toThrow("Unsupported WebSocket subprotocol");
+    expect(socket.closedWith?.code).toBe(1002);
+    expect(onclose).toHaveBeenCalledTimes(1);
+  });
+
+  it("accepts an explicitly negotiated subprotocol", async () => {
+    const socket = new FakeServerSocket("");
+    const transport = new WebSocketServerTransport(socket, { subprotocol: "mcp", pingInterval: 0 });
+
+    await transport.start();
+    await transport.send(message);
+    expect(socket.sentMessages).toEqual([message]);
+    await transport.close();
+  });
+
+  it("encodes and decodes messages with the negotiated codec", async () => {
+    const socket = new FakeServerSocket("mcp.msgpack");
+    const transport = new WebSocketServerTransport(socket, { codecs: [jsonCodec, msgpackCodec], pingInterval: 0 });
+    const onmessage = jest.fn();
+    transport.onmessage = onmessage;
+
+    await transport.start();
+    socket.receive(msgpackCodec.encode(message));
+    await transport.send({ jsonrpc: "2.0", id: 1, result: {} });
+
+    expect(onmessage).toHaveBeenCalledWith(message);
+    expect(msgpackCodec.decode(socket.sent[0])).toEqual({ jsonrpc: "2.0", id: 1, result: {} });
+    await transport.close();
+  });
+
+  it("waits for a connecting socket to open", async () => {
+    const socket = new FakeServerSocket();
+    socket.readyState = 0;
+    const transport = new WebSocketServerTransport(socket, { pingInterval: 0 });
+    let started = false;
+    const starting = transport.start().then(() => {
+      started = true;
+    });
+
+    await Promise.resolve();
+    expect(started).toBe(false);
+
+    socket.readyState = 1;
+    socket.dispatch("open");
+    await starting;
+    expect(started).toBe(true);
+    await transport.close();
+  });
+
+  it("reports malformed messages and keeps the connection open", async () => {
+    const socket = new FakeServerSocket();
+    const transport = new WebSocketServerTransport(socket, { pingInterval: 0 });
+    const errors: Error[] = [];
+    const received: JSONRPCMessage[] = [];
+    transport.onerror = (error) => errors.push(error);
+    transport.onmessage = (msg) => received.push(msg);
+    await transport.start();
+
+    socket.receive("not json");
+    socket.receive(new TextEncoder().encode(JSON.stringify(message)));
+
+    expect(errors).toHaveLength(1);
+    expect(received).toEqual([message]);
+    expect(socket.closedWith).toBeUndefined();
+    await transport.close();
+  });
+
+  it("closes the connection when a message exceeds the maximum size", async () => {
+    const socket = new FakeServerSocket();
+    const transport = new WebSocketServerTransport(socket, { maxMessageSize: 64, pingInterval: 0 });
+    const onmessage = jest.fn();
+    const onclose = jest.fn();
+    transport.onmessage = onmessage;
+    transport.onclose = onclose;
+    transport.onerror = () => {};
+    await transport.start();
+
+    // Multi-byte characters count by their UTF-8 size
+    socket.receive(JSON.stringify({ jsonrpc: "2.0", method: "test", params: { text: "é".repeat(30) } }));
+
+    expect(onmessage).not.toHaveBeenCalled();
+    expect(socket.closedWith?.code).toBe(1009);
+    expect(onclose).toHaveBeenCalledTimes(1);
+    expect(socket.listenerCount("message")).toBe(0);
+  });
+
+  it("calls onclose when the socket closes", async () => {
+    const socket = new FakeServerSocket();
+    const transport = new WebSocketServerTransport(socket, { pingInterval: 0 });
+    const onclose = jest.fn();
+    transport.onclose = onclose;
+    await transport.start();
+
+    socket.readyState = 3;
+    socket.dispatch("close", { code: 1000 });
+
+    expect(onclose).toHaveBeenCalledTimes(1);
+    await expect(transport.send(message)).rejects.toThrow("Not connected");
+  });
+
+  describe("liveness checks", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("uses protocol-level pings when the socket supports them", async () => {
+      const socket = new FakeNodeSocket();
+      const transport = new WebSocketServerTransport(socket, { pingInterval: 1000, pingTimeout: 500 });
+      const onclose = jest.fn();
+      transport.onclose = onclose;
+      transport.onerror = () => {};
+      await transport.start();
+
+      jest.advanceTimersByTime(1000);
+      expect(socket.pings).toBe(1);
+      socket.pong();
+      jest.advanceTimersByTime(500);
+      expect(onclose).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(500);
+      expect(socket.pings).toBe(2);
+      jest.advanceTimersByTime(500);
+      expect(socket.closedWith?.code).toBe(1001);
+      expect(onclose).toHaveBeenCalledTimes(1);
+      expect(socket.sent).toEqual([]);
+    });
+
+    it("falls back to MCP ping requests and hides their responses", async () => {
+      const socket = new FakeServerSocket();
+      const transport = new WebSocketServerTransport(socket, {
+        pingInterval: 1000,
+        pingTimeout: 500,
+        sessionIdGenerator: () => "session",
+      });
+      const onmessage = jest.fn();
+      transport.onmessage = onmessage;
+      await transport.start();
+
+      jest.advanceTimersByTime(1000);
+      const [ping] = socket.sentMessages;
+      expect(ping).toEqual({ jsonrpc: "2.0", id: "session:ping:1", method: "ping" });
+
+      socket.receive(JSON.stringify({ jsonrpc: "2.0", id: "session:ping:1", result: {} }));
+      jest.advanceTimersByTime(500);
+
+      expect(onmessage).not.toHaveBeenCalled();
+      expect(socket.closedWith).toBeUndefined();
+      await transport.close();
+      expect(socket.closedWith?.code).toBe(1000);
+    });
+  });
+
+  it("serves an McpServer", async () => {
+    const socket = new FakeServerSocket();
+    const server = new McpServer({ name: "ws-server", version: "1.0.0" });
+    await server.connect(new WebSocketServerTransport(socket, { pingInterval: 0 }));
+
+    socket.receive(
+      JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {
+          protocolVersion: LATEST_PROTOCOL_VERSION,
+          capabilities: {},
+          clientInfo: { name: "ws-client", version: "1.0.0" },
+        },
+      }),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(socket.sentMessages).toEqual([
+      expect.objectContaining({ id: 1, result: expect.objectContaining({ serverInfo: { name: "ws-server", version: "1.0.0" } }) }),
+    ]);
+    await server.close();
+  });
+});
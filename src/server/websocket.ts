@@ -0,0 +1,366 @@
+import { codecForSubprotocol, decodeMessage, jsonCodec, MessageCodec } from "../shared/codec.js";
+import { Transport } from "../shared/transport.js";
+import { isJSONRPCError, isJSONRPCResponse, JSONRPCMessage } from "../types.js";
+
+/**
+ * The WebSocket subprotocol spoken by MCP clients, such as `WebSocketClientTransport`, with the default JSON codec.
+ */
+export const WEBSOCKET_SUBPROTOCOL = jsonCodec.subprotocol;
+
+const WEBSOCKET_CONNECTING = 0;
+const WEBSOCKET_OPEN = 1;
+
+/**
+ * WebSocket close codes used by the transport.
+ */
+const NORMAL_CLOSURE = 1000;
+const GOING_AWAY = 1001;
+const PROTOCOL_ERROR = 1002;
+const UNSUPPORTED_DATA = 1003;
+const MESSAGE_TOO_BIG = 1009;
+
+const DEFAULT_MAX_MESSAGE_SIZE = 4 * 1024 * 1024;
+const DEFAULT_PING_INTERVAL_MSEC = 30000;
+const DEFAULT_PING_TIMEOUT_MSEC = 10000;
+
+/**
+ * The subset of the standard `WebSocket` interface used by `WebSocketServerTransport`.
+ *
+ * This is implemented by the sockets of `ws` in Node.js, `Deno.upgradeWebSocket`, Bun and Cloudflare's `WebSocketPair`.
+ */
+export interface ServerWebSocket {
+  readonly readyState: number;
+  readonly protocol?: string;
+  send(data: string | Uint8Array): void;
+  close(code?: number, reason?: string): void;
+  addEventListener(type: "open" | "message" | "close" | "error", listener: (event: never) => void): void;
+  removeEventListener(type: "open" | "message" | "close" | "error", listener: (event: never) => void): void;
+
+  /**
+   * Sends a protocol-level ping frame, where the runtime supports it (e.g. `ws`).
+   */
+  ping?(): void;
+
+  /**
+   * Node.js-style event registration, used to receive protocol-level pong frames (e.g. `ws`).
+   */
+  on?(event: "pong", listener: () => void): unknown;
+  off?(event: "pong", listener: () => void): unknown;
+}
+
+/**
+ * Configuration options for the `WebSocketServerTransport`.
+ */
+export type WebSocketServerTransportOptions = {
+  /**
+   * Function that generates the session ID for this connection. Default is `crypto.randomUUID()`.
+   */
+  sessionIdGenerator?: () => string;
+
+  /**
+   * The subprotocol negotiated during the WebSocket handshake. Default is `socket.protocol`.
+   *
+   * Runtimes that do not record the negotiated subprotocol on the socket, such as Cloudflare's `WebSocketPair`,
+   * should pass the value sent in the `Sec-WebSocket-Protocol` response header.
+   */
+  subprotocol?: string;
+
+  /**
+   * Codecs the server accepts, each selected by its own subprotocol. Default is `[jsonCodec]`.
+   */
+  codecs?: MessageCodec[];
+
+  /**
+   * Maximum size (in bytes) of an incoming message. Larger messages close the connection with code 1009.
+   * Default is 4 MiB.
+   */
+  maxMessageSize?: number;
+
+  /**
+   * How often (in milliseconds) to check that the client is still alive. Set to 0 to disable liveness checks.
+   * Default is 30000.
+   *
+   * Sockets that expose `ping()` and pong events (like `ws`) use protocol-level ping frames.
+   * Otherwise, an MCP `ping` request is sent instead.
+   */
+  pingInterval?: number;
+
+  /**
+   * How long (in milliseconds) to wait for a pong, or any other message, before closing the connection.
+   * Default is 10000.
+   */
+  pingTimeout?: number;
+};
+
+/**
+ * Picks an MCP subprotocol from the value of a `Sec-WebSocket-Protocol` request header.
+ *
+ * The client's order of preference is respected among the subprotocols of the given codecs.
+ * Returns the subprotocol to echo in the handshake response, or `undefined` if the client did not offer one,
+ * in which case the upgrade should be refused.
+ */
+export function selectSubprotocol(
+  header: string | null | undefined,
+  codecs: MessageCodec[] = [jsonCodec],
+): string | undefined {
+  const offered = header?.split(",").map((protocol) => protocol.trim()) ?? [];
+  return offered.find((protocol) => codecForSubprotocol(protocol, codecs) !== undefined);
+}
+
+function byteLength(data: string): number {
+  return new TextEncoder().encode(data).byteLength;
+}
+
+/**
+ * Server transport for WebSocket: this wraps one accepted WebSocket connection, so each connection gets its own
+ * transport, server instance and session ID.
+ *
+ * The transport validates that the subprotocol of a supported codec was negotiated, enforces a maximum message size and
+ * closes connections whose client stops answering pings.
+ *
+ * Usage example (Cloudflare Workers):
+ *
+ * ```typescript
+ * const subprotocol = selectSubprotocol(request.headers.get("Sec-WebSocket-Protocol"));
+ * if (!subprotocol) {
+ *   return new Response("Expected the mcp subprotocol", { status: 400 });
+ * }
+ *
+ * const [client, socket] = Object.values(new WebSocketPair());
+ * socket.accept();
+ * await createServer().connect(new WebSocketServerTransport(socket, { subprotocol }));
+ *
+ * return new Response(null, {
+ *   status: 101,
+ *   webSocket: client,
+ *   headers: { "Sec-WebSocket-Protocol": subprotocol },
+ * });
+ * ```
+ */
+export class WebSocketServerTransport implements Transport {
+  private _socket: ServerWebSocket;
+  private _subprotocol?: string;
+  private _codecs: MessageCodec[];
+  private _codec: MessageCodec = jsonCodec;
+  private _maxMessageSize: number;
+  private _pingInterval: number;
+  private _pingTimeout: number;
+  private _started = false;
+  private _closed = false;
+  private _pingTimer?: ReturnType<typeof setInterval>;
+  private _pongTimeout?: ReturnType<typeof setTimeout>;
+  private _pingCounter = 0;
+  private _pendingPingId?: string;
+
+  sessionId: string;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(socket: ServerWebSocket, options?: WebSocketServerTransportOptions) {
+    this._socket = socket;
+    this._subprotocol = options?.subprotocol;
+    this._codecs = options?.codecs ?? [jsonCodec];
+    this._maxMessageSize = options?.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE;
+    this._pingInterval = options?.pingInterval ?? DEFAULT_PING_INTERVAL_MSEC;
+    this._pingTimeout = options?.pingTimeout ?? DEFAULT_PING_TIMEOUT_MSEC;
+    this.sessionId = options?.sessionIdGenerator?.() ?? crypto.randomUUID();
+  }
+
+  private _onSocketMessage = (event: { data: unknown }) => this._handleData(event.data);
+  private _onSocketClose = () => this._handleClose();
+  private _onSocketError = (event: { error?: unknown; message?: string }) => {
+    this.onerror?.(
+      event.error instanceof Error ? event.error : new Error(`WebSocket error: ${event.message ?? "unknown error"}`),
+    );
+  };
+  private _onPong = () => this._markAlive();
+
+  /**
+   * Validates the negotiated subprotocol and begins listening for messages.
+   *
+   * If the client did not negotiate the subprotocol of a supported codec, the socket is closed with code 1002 and start() rejects.
+   */
+  async start(): Promise<void> {
+    if (this._started) {
+      throw new Error(
+        "WebSocketServerTransport already started! If using Server class, note that connect() calls start() automatically.",
+      );
+    }
+    this._started = true;
+
+    const subprotocol = this._subprotocol ?? this._socket.protocol;
+    const codec = codecForSubprotocol(subprotocol, this._codecs);
+    if (!codec) {
+      const expected = this._codecs.map((codec) => `"${codec.subprotocol}"`).join(" or ");
+      this._socket.close(PROTOCOL_ERROR, "Unsupported subprotocol");
+      this._handleClose();
+      throw new Error(`Unsupported WebSocket subprotocol: expected ${expected}, got "${subprotocol ?? ""}"`);
+    }
+    this._codec = codec;
+
+    if (this._socket.readyState === WEBSOCKET_CONNECTING) {
+      // e.g. `Deno.upgradeWebSocket`, whose socket opens once the upgrade response has been returned
+      await new Promise<void>((resolve, reject) => {
+        const settle = (error?: Error) => {
+          this._socket.removeEventListener("open", onOpen);
+          this._socket.removeEventListener("close", onClose);
+          if (error) {
+            this._handleClose();
+            reject(error);
+          } else {
+            resolve();
+          }
+        };
+        const onOpen = () => settle();
+        const onClose = () => settle(new Error("WebSocket closed before opening"));
+        this._socket.addEventListener("open", onOpen);
+        this._socket.addEventListener("close", onClose);
+      });
+    } else if (this._socket.readyState !== WEBSOCKET_OPEN) {
+      this._handleClose();
+      throw new Error("WebSocket is not open");
+    }
+
+    this._socket.addEventListener("message", this._onSocketMessage);
+    this._socket.addEventListener("close", this._onSocketClose);
+    this._socket.addEventListener("error", this._onSocketError);
+    this._startPinging();
+  }
+
+  async close(): Promise<void> {
+    if (this._closed) {
+      return;
+    }
+
+    this._socket.close(NORMAL_CLOSURE);
+    this._handleClose();
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this._closed || this._socket.readyState !== WEBSOCKET_OPEN) {
+      throw new Error("Not connected");
+    }
+
+    this._socket.send(this._codec.encode(message));
+  }
+
+  private _handleData(data: unknown): void {
+    let payload: string | Uint8Array;
+    let size: number;
+    if (typeof data === "string") {
+      payload = data;
+      // Each UTF-16 code unit encodes to at most 3 bytes, so only strings that could exceed the limit are measured
+      size = data.length * 3 > this._maxMessageSize ? byteLength(data) : data.length;
+    } else if (data instanceof ArrayBuffer) {
+      payload = new Uint8Array(data);
+      size = data.byteLength;
+    } else if (ArrayBuffer.isView(data)) {
+      payload = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+      size = data.byteLength;
+    } else {
+      this._closeWithError(UNSUPPORTED_DATA, new Error("Unsupported WebSocket message type"));
+      return;
+    }
+
+    if (size > this._maxMessageSize) {
+      this._closeWithError(MESSAGE_TOO_BIG, new Error(`Message exceeds the maximum size of ${this._maxMessageSize} bytes`));
+      return;
+    }
+
+    this._markAlive();
+
+    let message: JSONRPCMessage;
+    try {
+      message = decodeMessage(this._codec, payload);
+    } catch (error) {
+      this.onerror?.(error as Error);
+      return;
+    }
+
+    // Answers to the transport's own liveness pings are not passed on
+    if (
+      this._pendingPingId !== undefined &&
+      (isJSONRPCResponse(message) || isJSONRPCError(message)) &&
+      message.id === this._pendingPingId
+    ) {
+      this._pendingPingId = undefined;
+      return;
+    }
+
+    this.onmessage?.(message);
+  }
+
+  private _startPinging(): void {
+    if (this._pingInterval <= 0) {
+      return;
+    }
+
+    if (this._supportsNativePing()) {
+      this._socket.on!("pong", this._onPong);
+    }
+
+    this._pingTimer = setInterval(() => this._ping(), this._pingInterval);
+  }
+
+  private _supportsNativePing(): boolean {
+    return typeof this._socket.ping === "function" && typeof this._socket.on === "function";
+  }
+
+  private _ping(): void {
+    if (this._pongTimeout !== undefined) {
+      // Still waiting on the previous ping
+      return;
+    }
+
+    try {
+      if (this._supportsNativePing()) {
+        this._socket.ping!();
+      } else {
+        this._pendingPingId = `${this.sessionId}:ping:${++this._pingCounter}`;
+        this._socket.send(this._codec.encode({ jsonrpc: "2.0", id: this._pendingPingId, method: "ping" }));
+      }
+    } catch (error) {
+      this.onerror?.(error as Error);
+    }
+
+    this._pongTimeout = setTimeout(() => {
+      this._closeWithError(GOING_AWAY, new Error(`WebSocket ping timed out after ${this._pingTimeout}ms`));
+    }, this._pingTimeout);
+  }
+
+  private _markAlive(): void {
+    clearTimeout(this._pongTimeout);
+    this._pongTimeout = undefined;
+  }
+
+  private _closeWithError(code: number, error: Error): void {
+    this.onerror?.(error);
+    try {
+      this._socket.close(code, error.message);
+    } catch {
+      // The socket may already be closing
+    }
+    this._handleClose();
+  }
+
+  private _handleClose(): void {
+    if (this._closed) {
+      return;
+    }
+    this._closed = true;
+
+    clearInterval(this._pingTimer);
+    this._markAlive();
+    this._pingTimer = undefined;
+    this._pendingPingId = undefined;
+
+    this._socket.removeEventListener("message", this._onSocketMessage);
+    this._socket.removeEventListener("close", this._onSocketClose);
+    this._socket.removeEventListener("error", this._onSocketError);
+    this._socket.off?.("pong", this._onPong);
+
+    this.onclose?.();
+  }
+}
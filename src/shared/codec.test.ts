@@ -0,0 +1,112 @@
+import { JSONRPCMessage } from "../types.js";
+import { codecForMediaType, codecForSubprotocol, decodeMessage, jsonCodec, msgpackCodec } from "./codec.js";
+import { decodeMsgpack, encodeMsgpack } from "./msgpack.js";
+
+const blob = Buffer.from(Array.from({ length: 3000 }, (_, i) => i % 256)).toString("base64");
+
+const resourceResult: JSONRPCMessage = {
+  jsonrpc: "2.0",
+  id: 7,
+  result: {
+    contents: [{ uri: "file:///image.png", mimeType: "image/png", blob }],
+  },
+};
+
+describe("jsonCodec", () => {
+  it("encodes messages as JSON text", () => {
+    expect(jsonCodec.encode(resourceResult)).toBe(JSON.stringify(resourceResult));
+    expect(jsonCodec.decode(JSON.stringify(resourceResult))).toEqual(resourceResult);
+    expect(jsonCodec.decode(new TextEncoder().encode(JSON.stringify(resourceResult)))).toEqual(resourceResult);
+  });
+
+  it("rejects invalid messages", () => {
+    expect(() => jsonCodec.decode('{"foo": 1}')).toThrow();
+    expect(() => jsonCodec.decode("not json")).toThrow();
+  });
+});
+
+describe("msgpackCodec", () => {
+  it("round-trips messages and batches", () => {
+    const batch: JSONRPCMessage[] = [
+      { jsonrpc: "2.0", id: "a", method: "tools/call", params: { name: "add", arguments: { a: -1.5, b: 2 ** 40 } } },
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+    ];
+
+    expect(msgpackCodec.decode(msgpackCodec.encode(resourceResult))).toEqual(resourceResult);
+    expect(msgpackCodec.decode(msgpackCodec.encode(batch))).toEqual(batch);
+  });
+
+  it("sends blobs as raw bytes", () => {
+    const encoded = msgpackCodec.encode(resourceResult);
+    const json = jsonCodec.encode(resourceResult) as string;
+
+    expect(encoded.length).toBeLessThan(json.length * 0.8);
+  });
+
+  it("keeps non-canonical base64 blobs as strings", () => {
+    const message: JSONRPCMessage = { jsonrpc: "2.0", id: 1, result: { contents: [{ uri: "a", blob: "QQ" }] } };
+
+    expect(msgpackCodec.decode(msgpackCodec.encode(message))).toEqual(message);
+  });
+
+  it("rejects text data", () => {
+    expect(() => msgpackCodec.decode("{}")).toThrow("expects binary data");
+  });
+});
+
+describe("MessagePack", () => {
+  it("round-trips JSON-compatible values", () => {
+    const value = {
+      nil: null,
+      flags: [true, false],
+      integers: [0, 127, 128, 255, 65535, 65536, 2 ** 32, -1, -32, -33, -129, -32769, -(2 ** 31) - 1, Number.MAX_SAFE_INTEGER],
+      float: 0.1,
+      text: "héllo ".repeat(20),
+      nested: { array: new Array(20).fill({ a: 1 }) },
+    };
+
+    expect(decodeMsgpack(encodeMsgpack(value))).toEqual(value);
+  });
+
+  it("omits undefined properties like JSON", () => {
+    expect(decodeMsgpack(encodeMsgpack({ a: undefined, b: [undefined] }))).toEqual({ b: [null] });
+  });
+
+  it("keeps a __proto__ key as an ordinary property", () => {
+    const decoded = decodeMsgpack(encodeMsgpack(JSON.parse('{"__proto__": {"polluted": true}}'))) as object;
+
+    expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+    expect(Object.keys(decoded)).toEqual(["__proto__"]);
+  });
+
+  it("rejects truncated and oversized input", () => {
+    const encoded = encodeMsgpack({ key: "value" });
+
+    expect(() => decodeMsgpack(encoded.subarray(0, encoded.length - 1))).toThrow(RangeError);
+    expect(() => decodeMsgpack(new Uint8Array([0xdd, 0xff, 0xff, 0xff, 0xff]))).toThrow(RangeError);
+    expect(() => decodeMsgpack(new Uint8Array([0xc0, 0xc0]))).toThrow("trailing bytes");
+  });
+});
+
+describe("codec negotiation", () => {
+  const codecs = [jsonCodec, msgpackCodec];
+
+  it("finds codecs by media type, ignoring parameters", () => {
+    expect(codecForMediaType("application/json; charset=utf-8", codecs)).toBe(jsonCodec);
+    expect(codecForMediaType("Application/VND.MCP+msgpack", codecs)).toBe(msgpackCodec);
+    expect(codecForMediaType("text/plain", codecs)).toBeUndefined();
+    expect(codecForMediaType(null, codecs)).toBeUndefined();
+  });
+
+  it("finds codecs by subprotocol", () => {
+    expect(codecForSubprotocol("mcp.msgpack", codecs)).toBe(msgpackCodec);
+    expect(codecForSubprotocol("", codecs)).toBeUndefined();
+  });
+
+  it("decodes single messages and rejects batches", () => {
+    const message: JSONRPCMessage = { jsonrpc: "2.0", method: "ping", id: 1 };
+
+    expect(decodeMessage(jsonCodec, JSON.stringify(message))).toEqual(message);
+    expect(() => decodeMessage(jsonCodec, JSON.stringify([message]))).toThrow("batch");
+  });
+});
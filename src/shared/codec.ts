@@ -0,0 +1,169 @@
+import { JSONRPCMessage, JSONRPCMessageSchema } from "../types.js";
+import { decodeMsgpack, encodeMsgpack } from "./msgpack.js";
+
+/**
+ * Converts JSON-RPC messages to and from their wire representation.
+ *
+ * Codecs are negotiated by WebSocket subprotocol or HTTP `Content-Type`, so both sides must support the same codec.
+ */
+export interface MessageCodec {
+  /**
+   * A short name for the codec, e.g. for logging.
+   */
+  readonly name: string;
+
+  /**
+   * The media type used as the HTTP `Content-Type` of encoded messages.
+   */
+  readonly mediaType: string;
+
+  /**
+   * The WebSocket subprotocol that selects this codec.
+   */
+  readonly subprotocol: string;
+
+  /**
+   * Whether encoded messages are binary. Text codecs produce strings.
+   */
+  readonly binary: boolean;
+
+  /**
+   * Encodes a message, or a batch of messages.
+   */
+  encode(message: JSONRPCMessage | JSONRPCMessage[]): string | Uint8Array;
+
+  /**
+   * Decodes and validates a message, or a batch of messages.
+   */
+  decode(data: string | Uint8Array): JSONRPCMessage | JSONRPCMessage[];
+}
+
+const textDecoder = new TextDecoder();
+
+function parseMessages(value: unknown): JSONRPCMessage | JSONRPCMessage[] {
+  return Array.isArray(value) ? value.map((item) => JSONRPCMessageSchema.parse(item)) : JSONRPCMessageSchema.parse(value);
+}
+
+/**
+ * The default codec: messages are JSON text.
+ */
+export const jsonCodec: MessageCodec = {
+  name: "json",
+  mediaType: "application/json",
+  subprotocol: "mcp",
+  binary: false,
+
+  encode(message) {
+    return JSON.stringify(message);
+  },
+
+  decode(data) {
+    return parseMessages(JSON.parse(typeof data === "string" ? data : textDecoder.decode(data)));
+  },
+};
+
+/**
+ * The MessagePack extension type used for binary resource contents.
+ */
+const BLOB_EXTENSION_TYPE = 1;
+
+const BASE64_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_LOOKUP = new Uint8Array(128);
+for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+  BASE64_LOOKUP[BASE64_ALPHABET.charCodeAt(i)] = i;
+}
+const CANONICAL_BASE64 = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}[AQgw]==|[A-Za-z0-9+/][AEIMQUYcgkosw048]=)?$/;
+
+function base64ToBytes(base64: string): Uint8Array {
+  const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+  const bytes = new Uint8Array((base64.length / 4) * 3 - padding);
+
+  let j = 0;
+  for (let i = 0; i < base64.length; i += 4) {
+    const n =
+      (BASE64_LOOKUP[base64.charCodeAt(i)] << 18) |
+      (BASE64_LOOKUP[base64.charCodeAt(i + 1)] << 12) |
+      (BASE64_LOOKUP[base64.charCodeAt(i + 2)] << 6) |
+      BASE64_LOOKUP[base64.charCodeAt(i + 3)];
+    bytes[j++] = n >> 16;
+    if (j < bytes.length) bytes[j++] = (n >> 8) & 0xff;
+    if (j < bytes.length) bytes[j++] = n & 0xff;
+  }
+
+  return bytes;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let result = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    result +=
+      BASE64_ALPHABET[n >> 18] +
+      BASE64_ALPHABET[(n >> 12) & 0x3f] +
+      (i + 1 < bytes.length ? BASE64_ALPHABET[(n >> 6) & 0x3f] : "=") +
+      (i + 2 < bytes.length ? BASE64_ALPHABET[n & 0x3f] : "=");
+  }
+  return result;
+}
+
+/**
+ * A compact binary codec based on MessagePack.
+ *
+ * Base64 `blob` fields, as in `BlobResourceContents`, are sent as raw bytes and restored on decode,
+ * which avoids the size and parsing overhead of base64 for binary resources.
+ */
+export const msgpackCodec: MessageCodec = {
+  name: "msgpack",
+  mediaType: "application/vnd.mcp+msgpack",
+  subprotocol: "mcp.msgpack",
+  binary: true,
+
+  encode(message) {
+    return encodeMsgpack(message, (key, value) =>
+      key === "blob" && typeof value === "string" && CANONICAL_BASE64.test(value)
+        ? { type: BLOB_EXTENSION_TYPE, data: base64ToBytes(value) }
+        : undefined,
+    );
+  },
+
+  decode(data) {
+    if (typeof data === "string") {
+      throw new TypeError("The msgpack codec expects binary data");
+    }
+
+    return parseMessages(
+      decodeMsgpack(data, (type, bytes) => {
+        if (type !== BLOB_EXTENSION_TYPE) {
+          throw new TypeError(`Unsupported MessagePack extension type ${type}`);
+        }
+        return bytesToBase64(bytes);
+      }),
+    );
+  },
+};
+
+/**
+ * Finds the codec for an HTTP `Content-Type` header, ignoring parameters such as `charset`.
+ */
+export function codecForMediaType(contentType: string | null | undefined, codecs: MessageCodec[]): MessageCodec | undefined {
+  const mediaType = contentType?.split(";")[0].trim().toLowerCase();
+  return codecs.find((codec) => codec.mediaType === mediaType);
+}
+
+/**
+ * Finds the codec for a negotiated WebSocket subprotocol.
+ */
+export function codecForSubprotocol(subprotocol: string | null | undefined, codecs: MessageCodec[]): MessageCodec | undefined {
+  return codecs.find((codec) => codec.subprotocol === subprotocol);
+}
+
+/**
+ * Decodes data that must contain a single message, rejecting batches.
+ */
+export function decodeMessage(codec: MessageCodec, data: string | Uint8Array): JSONRPCMessage {
+  const decoded = codec.decode(data);
+  if (Array.isArray(decoded)) {
+    throw new TypeError("Expected a single JSON-RPC message, but received a batch");
+  }
+  return decoded;
+}
@@ -0,0 +1,93 @@
+import { ConcurrencyLimiter } from "./concurrency.js";
+
+describe("ConcurrencyLimiter", () => {
+  test("should queue requests beyond the global limit in order of arrival", async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1 });
+    const started: string[] = [];
+    const first = await limiter.acquire("a");
+    const waiting = ["b", "c"].map((method) => limiter.acquire(method).then((release) => {
+      started.push(method);
+      return release;
+    }));
+
+    expect(limiter.stats).toEqual({
+      active: 1,
+      queued: 2,
+      methods: { a: { active: 1, queued: 0 }, b: { active: 0, queued: 1 }, c: { active: 0, queued: 1 } },
+    });
+
+    first();
+    const second = await waiting[0];
+    expect(started).toEqual(["b"]);
+
+    second();
+    (await waiting[1])();
+    expect(started).toEqual(["b", "c"]);
+    expect(limiter.stats).toEqual({ active: 0, queued: 0, methods: {} });
+  });
+
+  test("should start queued requests by priority", async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1, queueOrder: "priority" });
+    const started: string[] = [];
+    const first = await limiter.acquire("first");
+    const waiting = [
+      ["low", 0],
+      ["high", 5],
+      ["also high", 5],
+    ].map(([method, priority]) => limiter.acquire(method as string, { priority: priority as number }).then((release) => {
+      started.push(method as string);
+      release();
+    }));
+
+    first();
+    await Promise.all(waiting);
+    expect(started).toEqual(["high", "also high", "low"]);
+  });
+
+  test("should apply per-method limits independently", async () => {
+    const limiter = new ConcurrencyLimiter({ perMethod: { "tools/call": 1 } });
+    const call = await limiter.acquire("tools/call");
+    let queuedStarted = false;
+    const queued = limiter.acquire("tools/call").then((release) => {
+      queuedStarted = true;
+      return release;
+    });
+
+    // Other methods are not limited
+    const list = await limiter.acquire("tools/list");
+    await Promise.resolve();
+    expect(queuedStarted).toBe(false);
+
+    call();
+    (await queued)();
+    list();
+    expect(queuedStarted).toBe(true);
+  });
+
+  test("should remove a request from the queue when its signal is aborted", async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1 });
+    const release = await limiter.acquire("a");
+    const controller = new AbortController();
+    const queued = limiter.acquire("b", { signal: controller.signal });
+
+    controller.abort("stop");
+    await expect(queued).rejects.toBe("stop");
+    expect(limiter.stats.queued).toBe(0);
+
+    // Releasing twice has no effect
+    release();
+    release();
+    expect(limiter.stats.active).toBe(0);
+  });
+
+  test("should reject requests when the queue is full", async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1, maxQueueSize: 1 });
+    await limiter.acquire("a");
+    const queued = limiter.acquire("b");
+
+    await expect(limiter.acquire("c")).rejects.toThrow("Request queue is full");
+
+    limiter.clear(new Error("Connection closed"));
+    await expect(queued).rejects.toThrow("Connection closed");
+  });
+});
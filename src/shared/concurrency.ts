@@ -0,0 +1,189 @@
+/**
+ * Limits on how many requests may be in flight at once. Requests beyond the limits wait in a queue.
+ */
+export type ConcurrencyOptions = {
+  /**
+   * Maximum number of requests in flight across all methods. If not specified, only per-method limits apply.
+   */
+  maxConcurrent?: number;
+
+  /**
+   * Maximum number of requests in flight for individual methods, e.g. `{ "tools/call": 10 }`.
+   */
+  perMethod?: Record<string, number>;
+
+  /**
+   * The order in which queued requests are started: "fifo" in order of arrival, or "priority" by the request's
+   * `priority` (highest first, and in order of arrival for equal priorities). Default is "fifo".
+   */
+  queueOrder?: "fifo" | "priority";
+
+  /**
+   * Maximum number of queued requests. Requests beyond this are rejected immediately, rather than queued without bound.
+   * If not specified, the queue is unbounded.
+   */
+  maxQueueSize?: number;
+};
+
+/**
+ * A snapshot of how many requests are running and waiting.
+ */
+export type ConcurrencyStats = {
+  active: number;
+  queued: number;
+  methods: Record<string, { active: number; queued: number }>;
+};
+
+/**
+ * Releases a slot acquired from a `ConcurrencyLimiter`. Calling it more than once has no effect.
+ */
+export type ReleaseSlot = () => void;
+
+type Waiter = {
+  method: string;
+  priority: number;
+  resolve: (release: ReleaseSlot) => void;
+  reject: (reason: unknown) => void;
+  cleanup: () => void;
+};
+
+/**
+ * Hands out slots for running requests, up to global and per-method limits, and queues the rest.
+ */
+export class ConcurrencyLimiter {
+  private _active = 0;
+  private _activeByMethod = new Map<string, number>();
+  private _queue: Waiter[] = [];
+
+  constructor(private _options: ConcurrencyOptions) {}
+
+  /**
+   * Waits for a slot to run a request for the given method. The returned function must be called when the request is done.
+   *
+   * Rejects with the signal's reason if the signal is aborted while waiting.
+   */
+  acquire(method: string, options?: { priority?: number; signal?: AbortSignal }): Promise<ReleaseSlot> {
+    return new Promise((resolve, reject) => {
+      const signal = options?.signal;
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      // Anything already queued is blocked by a limit, so a request that fits can overtake it
+      if (this._canStart(method)) {
+        resolve(this._start(method));
+        return;
+      }
+
+      if (this._options.maxQueueSize !== undefined && this._queue.length >= this._options.maxQueueSize) {
+        reject(new Error(`Request queue is full (${this._options.maxQueueSize} requests)`));
+        return;
+      }
+
+      const onabort = () => {
+        this._remove(waiter);
+        reject(signal!.reason);
+      };
+      const waiter: Waiter = {
+        method,
+        priority: options?.priority ?? 0,
+        resolve,
+        reject,
+        cleanup: () => signal?.removeEventListener("abort", onabort),
+      };
+      signal?.addEventListener("abort", onabort);
+
+      if (this._options.queueOrder === "priority") {
+        const index = this._queue.findIndex((queued) => queued.priority < waiter.priority);
+        this._queue.splice(index === -1 ? this._queue.length : index, 0, waiter);
+      } else {
+        this._queue.push(waiter);
+      }
+    });
+  }
+
+  /**
+   * Rejects every queued request, e.g. when the connection closes.
+   */
+  clear(reason: unknown): void {
+    const queue = this._queue;
+    this._queue = [];
+    for (const waiter of queue) {
+      waiter.cleanup();
+      waiter.reject(reason);
+    }
+  }
+
+  get stats(): ConcurrencyStats {
+    const methods: ConcurrencyStats["methods"] = {};
+    for (const [method, active] of this._activeByMethod) {
+      methods[method] = { active, queued: 0 };
+    }
+    for (const { method } of this._queue) {
+      methods[method] ??= { active: 0, queued: 0 };
+      methods[method].queued++;
+    }
+
+    return { active: this._active, queued: this._queue.length, methods };
+  }
+
+  private _canStart(method: string): boolean {
+    const { maxConcurrent, perMethod } = this._options;
+    if (maxConcurrent !== undefined && this._active >= maxConcurrent) {
+      return false;
+    }
+
+    const methodLimit = perMethod?.[method];
+    return methodLimit === undefined || (this._activeByMethod.get(method) ?? 0) < methodLimit;
+  }
+
+  private _start(method: string): ReleaseSlot {
+    this._active++;
+    this._activeByMethod.set(method, (this._activeByMethod.get(method) ?? 0) + 1);
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      this._active--;
+      const active = this._activeByMethod.get(method)! - 1;
+      if (active === 0) {
+        this._activeByMethod.delete(method);
+      } else {
+        this._activeByMethod.set(method, active);
+      }
+      this._drain();
+    };
+  }
+
+  private _drain(): void {
+    const { maxConcurrent } = this._options;
+    for (let i = 0; i < this._queue.length; ) {
+      if (maxConcurrent !== undefined && this._active >= maxConcurrent) {
+        return;
+      }
+
+      const waiter = this._queue[i];
+      if (!this._canStart(waiter.method)) {
+        i++;
+        continue;
+      }
+
+      this._queue.splice(i, 1);
+      waiter.cleanup();
+      waiter.resolve(this._start(waiter.method));
+    }
+  }
+
+  private _remove(waiter: Waiter): void {
+    const index = this._queue.indexOf(waiter);
+    if (index !== -1) {
+      this._queue.splice(index, 1);
+    }
+    waiter.cleanup();
+  }
+}
@@ -0,0 +1,336 @@
+/**
+ * A minimal MessagePack encoder and decoder for JSON-compatible values.
+ *
+ * Values are encoded as JSON would see them: object properties that are `undefined` are omitted, and `undefined`
+ * array elements become `nil`. An extension hook allows values to be encoded as MessagePack extension types.
+ */
+
+/**
+ * Returns the extension type and payload to encode a property value as, or `undefined` to encode it normally.
+ */
+export type ExtensionEncoder = (key: string, value: unknown) => { type: number; data: Uint8Array } | undefined;
+
+/**
+ * Converts an extension type and payload back into a value.
+ */
+export type ExtensionDecoder = (type: number, data: Uint8Array) => unknown;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class Writer {
+  private _bytes = new Uint8Array(256);
+  private _view = new DataView(this._bytes.buffer);
+  private _length = 0;
+
+  private _reserve(size: number): void {
+    if (this._length + size <= this._bytes.length) {
+      return;
+    }
+
+    let capacity = this._bytes.length * 2;
+    while (capacity < this._length + size) {
+      capacity *= 2;
+    }
+
+    const bytes = new Uint8Array(capacity);
+    bytes.set(this._bytes.subarray(0, this._length));
+    this._bytes = bytes;
+    this._view = new DataView(bytes.buffer);
+  }
+
+  u8(value: number): void {
+    this._reserve(1);
+    this._bytes[this._length++] = value;
+  }
+
+  u16(value: number): void {
+    this._reserve(2);
+    this._view.setUint16(this._length, value);
+    this._length += 2;
+  }
+
+  u32(value: number): void {
+    this._reserve(4);
+    this._view.setUint32(this._length, value);
+    this._length += 4;
+  }
+
+  i8(value: number): void {
+    this._reserve(1);
+    this._view.setInt8(this._length, value);
+    this._length += 1;
+  }
+
+  i16(value: number): void {
+    this._reserve(2);
+    this._view.setInt16(this._length, value);
+    this._length += 2;
+  }
+
+  i32(value: number): void {
+    this._reserve(4);
+    this._view.setInt32(this._length, value);
+    this._length += 4;
+  }
+
+  f64(value: number): void {
+    this._reserve(8);
+    this._view.setFloat64(this._length, value);
+    this._length += 8;
+  }
+
+  bytes(value: Uint8Array): void {
+    this._reserve(value.length);
+    this._bytes.set(value, this._length);
+    this._length += value.length;
+  }
+
+  result(): Uint8Array {
+    return this._bytes.slice(0, this._length);
+  }
+}
+
+/**
+ * Encodes a JSON-compatible value as MessagePack.
+ */
+export function encodeMsgpack(value: unknown, encodeExtension?: ExtensionEncoder): Uint8Array {
+  const writer = new Writer();
+
+  const writeLength = (length: number, fix: number, fixMax: number, op8: number | undefined, op16: number, op32: number) => {
+    if (length <= fixMax) {
+      writer.u8(fix | length);
+    } else if (op8 !== undefined && length <= 0xff) {
+      writer.u8(op8);
+      writer.u8(length);
+    } else if (length <= 0xffff) {
+      writer.u8(op16);
+      writer.u16(length);
+    } else {
+      writer.u8(op32);
+      writer.u32(length);
+    }
+  };
+
+  const writeNumber = (value: number) => {
+    if (!Number.isSafeInteger(value)) {
+      if (Number.isFinite(value)) {
+        writer.u8(0xcb);
+        writer.f64(value);
+      } else {
+        // JSON has no representation for NaN or Infinity
+        writer.u8(0xc0);
+      }
+    } else if (value >= 0) {
+      if (value <= 0x7f) {
+        writer.u8(value);
+      } else if (value <= 0xff) {
+        writer.u8(0xcc);
+        writer.u8(value);
+      } else if (value <= 0xffff) {
+        writer.u8(0xcd);
+        writer.u16(value);
+      } else if (value <= 0xffffffff) {
+        writer.u8(0xce);
+        writer.u32(value);
+      } else {
+        writer.u8(0xcf);
+        writer.u32(Math.floor(value / 0x100000000));
+        writer.u32(value >>> 0);
+      }
+    } else if (value >= -0x20) {
+      writer.i8(value);
+    } else if (value >= -0x80) {
+      writer.u8(0xd0);
+      writer.i8(value);
+    } else if (value >= -0x8000) {
+      writer.u8(0xd1);
+      writer.i16(value);
+    } else if (value >= -0x80000000) {
+      writer.u8(0xd2);
+      writer.i32(value);
+    } else {
+      writer.u8(0xd3);
+      writer.i32(Math.floor(value / 0x100000000));
+      writer.u32(value >>> 0);
+    }
+  };
+
+  const writeExtension = (type: number, data: Uint8Array) => {
+    const fixed: Record<number, number> = { 1: 0xd4, 2: 0xd5, 4: 0xd6, 8: 0xd7, 16: 0xd8 };
+    if (fixed[data.length] !== undefined) {
+      writer.u8(fixed[data.length]);
+    } else if (data.length <= 0xff) {
+      writer.u8(0xc7);
+      writer.u8(data.length);
+    } else if (data.length <= 0xffff) {
+      writer.u8(0xc8);
+      writer.u16(data.length);
+    } else {
+      writer.u8(0xc9);
+      writer.u32(data.length);
+    }
+    writer.i8(type);
+    writer.bytes(data);
+  };
+
+  const write = (value: unknown): void => {
+    if (value === null || value === undefined || typeof value === "function" || typeof value === "symbol") {
+      writer.u8(0xc0);
+    } else if (typeof value === "boolean") {
+      writer.u8(value ? 0xc3 : 0xc2);
+    } else if (typeof value === "number") {
+      writeNumber(value);
+    } else if (typeof value === "string") {
+      const bytes = textEncoder.encode(value);
+      writeLength(bytes.length, 0xa0, 31, 0xd9, 0xda, 0xdb);
+      writer.bytes(bytes);
+    } else if (value instanceof Uint8Array) {
+      // bin has no fixed-size form
+      writeLength(value.length, 0, -1, 0xc4, 0xc5, 0xc6);
+      writer.bytes(value);
+    } else if (Array.isArray(value)) {
+      writeLength(value.length, 0x90, 15, undefined, 0xdc, 0xdd);
+      for (const item of value) {
+        write(item);
+      }
+    } else if (typeof value === "object") {
+      const entries = Object.entries(value).filter(
+        ([, item]) => item !== undefined && typeof item !== "function" && typeof item !== "symbol",
+      );
+      writeLength(entries.length, 0x80, 15, undefined, 0xde, 0xdf);
+      for (const [key, item] of entries) {
+        write(key);
+        const extension = encodeExtension?.(key, item);
+        if (extension) {
+          writeExtension(extension.type, extension.data);
+        } else {
+          write(item);
+        }
+      }
+    } else {
+      throw new TypeError(`Cannot encode a value of type ${typeof value} as MessagePack`);
+    }
+  };
+
+  write(value);
+  return writer.result();
+}
+
+/**
+ * Decodes a MessagePack value. Binary values are returned as `Uint8Array`.
+ */
+export function decodeMsgpack(bytes: Uint8Array, decodeExtension?: ExtensionDecoder): unknown {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  const take = (length: number): number => {
+    if (offset + length > bytes.length) {
+      throw new RangeError("Unexpected end of MessagePack data");
+    }
+    const start = offset;
+    offset += length;
+    return start;
+  };
+
+  const u8 = () => view.getUint8(take(1));
+  const u16 = () => view.getUint16(take(2));
+  const u32 = () => view.getUint32(take(4));
+
+  const readBytes = (length: number) => {
+    const start = take(length);
+    return bytes.subarray(start, start + length);
+  };
+  const readString = (length: number) => textDecoder.decode(readBytes(length));
+
+  // Every element takes at least one byte, which bounds the lengths read from untrusted input
+  const checkCount = (count: number) => {
+    if (count > bytes.length - offset) {
+      throw new RangeError("Unexpected end of MessagePack data");
+    }
+  };
+
+  const readArray = (length: number) => {
+    checkCount(length);
+    const result: unknown[] = new Array(length);
+    for (let i = 0; i < length; i++) {
+      result[i] = read();
+    }
+    return result;
+  };
+
+  const readMap = (length: number) => {
+    checkCount(length * 2);
+    const result: Record<string, unknown> = {};
+    for (let i = 0; i < length; i++) {
+      const key = read();
+      if (typeof key !== "string") {
+        throw new TypeError("MessagePack map keys must be strings");
+      }
+      // Define rather than assign, so that a "__proto__" key stays an ordinary property as with JSON.parse
+      Object.defineProperty(result, key, { value: read(), enumerable: true, writable: true, configurable: true });
+    }
+    return result;
+  };
+
+  const readExtension = (length: number) => {
+    const type = view.getInt8(take(1));
+    const data = readBytes(length);
+    if (!decodeExtension) {
+      throw new TypeError(`Unsupported MessagePack extension type ${type}`);
+    }
+    return decodeExtension(type, data);
+  };
+
+  const read = (): unknown => {
+    const byte = u8();
+
+    if (byte <= 0x7f) return byte;
+    if (byte >= 0xe0) return byte - 0x100;
+    if ((byte & 0xf0) === 0x80) return readMap(byte & 0x0f);
+    if ((byte & 0xf0) === 0x90) return readArray(byte & 0x0f);
+    if ((byte & 0xe0) === 0xa0) return readString(byte & 0x1f);
+
+    switch (byte) {
+      case 0xc0: return null;
+      case 0xc2: return false;
+      case 0xc3: return true;
+      case 0xc4: return readBytes(u8()).slice();
+      case 0xc5: return readBytes(u16()).slice();
+      case 0xc6: return readBytes(u32()).slice();
+      case 0xc7: return readExtension(u8());
+      case 0xc8: return readExtension(u16());
+      case 0xc9: return readExtension(u32());
+      case 0xca: return view.getFloat32(take(4));
+      case 0xcb: return view.getFloat64(take(8));
+      case 0xcc: return u8();
+      case 0xcd: return u16();
+      case 0xce: return u32();
+      case 0xcf: return u32() * 0x100000000 + u32();
+      case 0xd0: return view.getInt8(take(1));
+      case 0xd1: return view.getInt16(take(2));
+      case 0xd2: return view.getInt32(take(4));
+      case 0xd3: return view.getInt32(take(4)) * 0x100000000 + u32();
+      case 0xd4: return readExtension(1);
+      case 0xd5: return readExtension(2);
+      case 0xd6: return readExtension(4);
+      case 0xd7: return readExtension(8);
+      case 0xd8: return readExtension(16);
+      case 0xd9: return readString(u8());
+      case 0xda: return readString(u16());
+      case 0xdb: return readString(u32());
+      case 0xdc: return readArray(u16());
+      case 0xdd: return readArray(u32());
+      case 0xde: return readMap(u16());
+      case 0xdf: return readMap(u32());
+      default:
+        throw new TypeError(`Invalid MessagePack type byte 0x${byte.toString(16)}`);
+    }
+  };
+
+  const value = read();
+  if (offset !== bytes.length) {
+    throw new RangeError("Unexpected trailing bytes after MessagePack value");
+  }
+  return value;
+}
@@ -0,0 +1,119 @@
+import { Client } from "../client/index.js";
+import { InMemoryTransport } from "../inMemory.js";
+import { McpServer } from "../server/mcp.js";
+import { JSONRPCMessage, LATEST_PROTOCOL_VERSION } from "../types.js";
+import { MultiplexedTransport, TransportDemultiplexer, TransportMultiplexer } from "./multiplex.js";
+
+function createServer(name: string): McpServer {
+  const server = new McpServer({ name, version: "1.0.0" });
+  server.tool("whoami", async () => ({ content: [{ type: "text", text: name }] }));
+  return server;
+}
+
+async function connectPair(options?: { window?: number }) {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const serverChannels: MultiplexedTransport[] = [];
+  const demux = new TransportDemultiplexer(serverTransport, {
+    ...options,
+    onchannel: async (transport, { target }) => {
+      serverChannels.push(transport);
+      if (target === "missing") {
+        throw new Error("No such server");
+      }
+      if (target !== undefined) {
+        await createServer(target).connect(transport);
+      }
+    },
+  });
+  await demux.start();
+
+  const mux = new TransportMultiplexer(clientTransport, options);
+  return { mux, demux, serverChannels, clientTransport };
+}
+
+describe("TransportMultiplexer", () => {
+  it("runs independent sessions over one connection", async () => {
+    const { mux, serverChannels } = await connectPair();
+    const github = new Client({ name: "client", version: "1.0.0" });
+    const slack = new Client({ name: "client", version: "1.0.0" });
+
+    const githubTransport = mux.channel({ target: "github" });
+    const slackTransport = mux.channel({ target: "slack" });
+    await Promise.all([github.connect(githubTransport), slack.connect(slackTransport)]);
+
+    expect(githubTransport.sessionId).toBe(githubTransport.channelId);
+    expect(githubTransport.channelId).not.toEqual(slackTransport.channelId);
+    expect(serverChannels.map((channel) => channel.sessionId)).toEqual([githubTransport.channelId, slackTransport.channelId]);
+    expect(github.getServerVersion()?.name).toBe("github");
+    expect((await slack.callTool({ name: "whoami" })).content).toEqual([{ type: "text", text: "slack" }]);
+
+    await github.close();
+    expect(mux.channels).toEqual([slackTransport]);
+    expect((await slack.callTool({ name: "whoami" })).content).toEqual([{ type: "text", text: "slack" }]);
+    await mux.close();
+  });
+
+  it("rejects channels that the server refuses", async () => {
+    const { mux, demux } = await connectPair();
+    const errors: Error[] = [];
+    demux.onerror = (error) => errors.push(error);
+
+    await expect(mux.channel({ target: "missing" }).start()).rejects.toThrow("was rejected");
+    expect(errors[0].message).toBe("No such server");
+    expect(demux.channels).toEqual([]);
+  });
+
+  it("limits unacknowledged messages to the receive window", async () => {
+    const { mux, serverChannels } = await connectPair({ window: 2 });
+    const channel = mux.channel();
+    await channel.start();
+    const serverChannel = serverChannels[0];
+
+    const notification: JSONRPCMessage = { jsonrpc: "2.0", method: "notifications/test" };
+    let sent = 0;
+    const sending = Promise.all([1, 2, 3].map(() => channel.send(notification).then(() => sent++)));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    // The server side has not started yet, so it has only buffered the first window of messages
+    expect(sent).toBe(2);
+
+    const received: JSONRPCMessage[] = [];
+    serverChannel.onmessage = (message) => received.push(message);
+    await serverChannel.start();
+    await sending;
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(sent).toBe(3);
+    expect(received).toHaveLength(3);
+    await mux.close();
+  });
+
+  it("passes the negotiated protocol version to the connection", async () => {
+    const { mux, clientTransport } = await connectPair();
+    const setProtocolVersion = jest.fn();
+    Object.assign(clientTransport, { setProtocolVersion });
+    const client = new Client({ name: "client", version: "1.0.0" });
+
+    await client.connect(mux.channel({ target: "github" }));
+
+    expect(setProtocolVersion).toHaveBeenCalledWith(LATEST_PROTOCOL_VERSION);
+    await mux.close();
+  });
+
+  it("closes every channel when the connection closes", async () => {
+    const { mux, demux, serverChannels } = await connectPair();
+    const channel = mux.channel();
+    await channel.start();
+
+    const onclose = jest.fn();
+    channel.onclose = onclose;
+    const serverOnclose = jest.fn();
+    serverChannels[0].onclose = serverOnclose;
+
+    await demux.close();
+
+    expect(onclose).toHaveBeenCalledTimes(1);
+    expect(serverOnclose).toHaveBeenCalledTimes(1);
+    await expect(channel.send({ jsonrpc: "2.0", method: "notifications/test" })).rejects.toThrow("Not connected");
+  });
+});
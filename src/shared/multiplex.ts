@@ -0,0 +1,519 @@
+import { z } from "zod";
+import {
+  isInitializedNotification,
+  isInitializeRequest,
+  isJSONRPCNotification,
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+} from "../types.js";
+import { Transport } from "./transport.js";
+import { TransportMessageExtra } from "./transportMiddleware.js";
+
+/**
+ * The default number of messages a channel accepts before the receiver grants more credit.
+ */
+const DEFAULT_WINDOW = 64;
+
+/**
+ * The JSON-RPC notifications that carry the multiplexing protocol. Every envelope names the channel it belongs to.
+ */
+const MUX_OPEN = "mux/open";
+const MUX_ACCEPT = "mux/accept";
+const MUX_MESSAGE = "mux/message";
+const MUX_CREDIT = "mux/credit";
+const MUX_CLOSE = "mux/close";
+
+const MultiplexEnvelopeSchema = z.object({
+  channel: z.string(),
+  target: z.string().optional(),
+  window: z.number().int().positive().optional(),
+  message: JSONRPCMessageSchema.optional(),
+  credit: z.number().int().positive().optional(),
+  reason: z.string().optional(),
+});
+
+type MultiplexEnvelope = z.infer<typeof MultiplexEnvelopeSchema>;
+
+/**
+ * Whether the message opens a channel, or initializes the session on one. A reconnecting transport sends these while
+ * `onreconnect` runs, like the `initialize` request and `initialized` notification of an unmultiplexed session.
+ *
+ * @internal
+ */
+export function isMultiplexHandshake(message: JSONRPCMessage): boolean {
+  if (!isJSONRPCNotification(message)) {
+    return false;
+  }
+
+  if (message.method === MUX_OPEN) {
+    return true;
+  }
+
+  const inner = message.method === MUX_MESSAGE ? (message.params as MultiplexEnvelope | undefined)?.message : undefined;
+  return inner !== undefined && (isInitializeRequest(inner) || isInitializedNotification(inner));
+}
+
+/**
+ * Options shared by `TransportMultiplexer` and `TransportDemultiplexer`.
+ */
+export type MultiplexOptions = {
+  /**
+   * How many messages the peer may send on each channel before it has to wait for this side to process them.
+   * Messages received before a channel is started are buffered, so this bounds the memory used per channel.
+   * Default is 64.
+   */
+  window?: number;
+};
+
+/**
+ * Describes a channel requested by the client side.
+ */
+export type ChannelRequest = {
+  /**
+   * What the client asked to connect to, e.g. the name of a backend server behind a gateway.
+   */
+  target?: string;
+};
+
+/**
+ * How a channel transport talks to the multiplexer that owns it.
+ */
+type ChannelLink = {
+  open(channel: MultiplexedTransport): Promise<void>;
+  post(method: string, params: MultiplexEnvelope): Promise<void>;
+  remove(channel: MultiplexedTransport): void;
+  setProtocolVersion(version: string): void;
+};
+
+/**
+ * One logical session on a multiplexed connection. Instances are created by `TransportMultiplexer.channel()` and
+ * handed to `TransportDemultiplexer`'s `onchannel` callback.
+ *
+ * Each channel has its own session and lifecycle: closing it leaves the other channels open. Sending is flow
+ * controlled, so `send()` waits while the peer has not yet processed a full window of messages.
+ *
+ * The server side uses the channel ID as its `sessionId`. As with Streamable HTTP, the client side learns the
+ * session ID with the first message from the server, so that `Client.connect()` initializes the session.
+ */
+export class MultiplexedTransport implements Transport {
+  private _started = false;
+  private _closed = false;
+  private _queue: { message: JSONRPCMessage; extra?: TransportMessageExtra }[] = [];
+  private _credit = 0;
+  private _consumed = 0;
+  private _waitingForCredit: { resolve: () => void; reject: (error: Error) => void }[] = [];
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage, extra?: TransportMessageExtra) => void;
+
+  /**
+   * Invoked after the underlying connection reconnected and the channel was opened again on the other side.
+   */
+  onreconnect?: () => Promise<void>;
+
+  /**
+   * @internal
+   */
+  constructor(
+    readonly channelId: string,
+    private _link: ChannelLink,
+    private _window: number,
+    public sessionId?: string,
+  ) {}
+
+  async start(): Promise<void> {
+    if (this._started) {
+      throw new Error("MultiplexedTransport already started! If using Client or Server class, note that connect() calls start() automatically.");
+    }
+    if (this._closed) {
+      throw new Error("Channel is closed");
+    }
+
+    await this._link.open(this);
+    this._started = true;
+
+    const queue = this._queue;
+    this._queue = [];
+    for (const { message, extra } of queue) {
+      this._deliver(message, extra);
+    }
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    while (this._credit === 0) {
+      if (this._closed) {
+        throw new Error("Not connected");
+      }
+      await new Promise<void>((resolve, reject) => this._waitingForCredit.push({ resolve, reject }));
+    }
+
+    if (this._closed) {
+      throw new Error("Not connected");
+    }
+
+    this._credit--;
+    await this._link.post(MUX_MESSAGE, { channel: this.channelId, message });
+  }
+
+  /**
+   * Passes the negotiated protocol version on to the underlying connection. As the channels share that connection,
+   * the version negotiated last applies to all of them.
+   */
+  setProtocolVersion(version: string): void {
+    this._link.setProtocolVersion(version);
+  }
+
+  async close(): Promise<void> {
+    if (this._closed) {
+      return;
+    }
+
+    this._handleClose();
+    await this._link.post(MUX_CLOSE, { channel: this.channelId }).catch(() => {
+      // The connection itself may already be closed
+    });
+  }
+
+  /**
+   * Opens the channel again after the underlying connection reconnected, as the peer lost it with the old connection,
+   * and then lets the session on it be restored.
+   *
+   * @internal
+   */
+  async _reopen(): Promise<void> {
+    if (!this._started || this._closed) {
+      return;
+    }
+
+    // The new channel on the other side starts with a fresh window
+    this._credit = 0;
+    this._consumed = 0;
+    await this._link.open(this);
+    await this.onreconnect?.();
+  }
+
+  /**
+   * @internal
+   */
+  _grantCredit(credit: number): void {
+    this._credit += credit;
+    const waiting = this._waitingForCredit;
+    this._waitingForCredit = [];
+    waiting.forEach(({ resolve }) => resolve());
+  }
+
+  /**
+   * @internal
+   */
+  _receive(message: JSONRPCMessage, extra?: TransportMessageExtra): void {
+    if (this._closed) {
+      return;
+    }
+
+    if (this._queue.length + this._consumed >= this._window) {
+      this.onerror?.(new Error(`Peer exceeded the flow control window of channel ${this.channelId}`));
+      void this.close();
+      return;
+    }
+
+    this.sessionId ??= this.channelId;
+    if (!this._started) {
+      this._queue.push({ message, extra });
+      return;
+    }
+
+    this._deliver(message, extra);
+  }
+
+  /**
+   * @internal
+   */
+  _handleClose(): void {
+    if (this._closed) {
+      return;
+    }
+
+    this._closed = true;
+    this._queue = [];
+    const waiting = this._waitingForCredit;
+    this._waitingForCredit = [];
+    waiting.forEach(({ reject }) => reject(new Error("Not connected")));
+    this._link.remove(this);
+    this.onclose?.();
+  }
+
+  private _deliver(message: JSONRPCMessage, extra?: TransportMessageExtra): void {
+    this._consumed++;
+    this.onmessage?.(message, extra);
+
+    // Grant credit in batches, rather than for every message
+    if (!this._closed && this._consumed >= Math.ceil(this._window / 2)) {
+      const credit = this._consumed;
+      this._consumed = 0;
+      this._link.post(MUX_CREDIT, { channel: this.channelId, credit }).catch((error) => this.onerror?.(error));
+    }
+  }
+}
+
+/**
+ * Routes the envelopes received on a connection to its channels.
+ */
+abstract class Multiplexer {
+  protected _inner: Transport;
+  protected _window: number;
+  protected _channels = new Map<string, MultiplexedTransport>();
+  private _closed = false;
+
+  /**
+   * Called when the underlying connection closes, after all channels have been closed.
+   */
+  onclose?: () => void;
+
+  /**
+   * Called for errors on the underlying connection, and for envelopes that cannot be processed.
+   */
+  onerror?: (error: Error) => void;
+
+  constructor(inner: Transport, options?: MultiplexOptions) {
+    this._inner = inner;
+    this._window = options?.window ?? DEFAULT_WINDOW;
+
+    this._inner.onmessage = (message, extra) => this._handleMessage(message, extra);
+    this._inner.onerror = (error) => this.onerror?.(error);
+    this._inner.onclose = () => this._handleClose();
+  }
+
+  /**
+   * The channels that are currently open.
+   */
+  get channels(): MultiplexedTransport[] {
+    return [...this._channels.values()];
+  }
+
+  /**
+   * Closes the underlying connection, and with it every channel.
+   */
+  async close(): Promise<void> {
+    await this._inner.close();
+  }
+
+  protected abstract _handleEnvelope(method: string, envelope: MultiplexEnvelope): void;
+
+  protected _createChannel(
+    channelId: string,
+    link: Omit<ChannelLink, "post" | "remove" | "setProtocolVersion">,
+    sessionId?: string,
+  ): MultiplexedTransport {
+    const channel = new MultiplexedTransport(
+      channelId,
+      {
+        ...link,
+        post: (method, params) => this._post(method, params),
+        setProtocolVersion: (version) => this._inner.setProtocolVersion?.(version),
+        remove: (channel) => {
+          if (this._channels.get(channel.channelId) === channel) {
+            this._channels.delete(channel.channelId);
+          }
+        },
+      },
+      this._window,
+      sessionId,
+    );
+    this._channels.set(channelId, channel);
+    return channel;
+  }
+
+  protected _post(method: string, params: MultiplexEnvelope): Promise<void> {
+    if (this._closed) {
+      return Promise.reject(new Error("Not connected"));
+    }
+    return this._inner.send({ jsonrpc: "2.0", method, params });
+  }
+
+  private _handleMessage(message: JSONRPCMessage, extra?: TransportMessageExtra): void {
+    if (!isJSONRPCNotification(message) || !message.method.startsWith("mux/")) {
+      this.onerror?.(new Error(`Unexpected message on a multiplexed connection: ${JSON.stringify(message)}`));
+      return;
+    }
+
+    const parsed = MultiplexEnvelopeSchema.safeParse(message.params);
+    if (!parsed.success) {
+      this.onerror?.(new Error(`Invalid ${message.method} envelope: ${parsed.error.message}`));
+      return;
+    }
+
+    const envelope = parsed.data;
+    const channel = this._channels.get(envelope.channel);
+    switch (message.method) {
+      case MUX_MESSAGE:
+        if (!channel || !envelope.message) {
+          // Tell the peer that the channel is gone, so it stops sending
+          this._post(MUX_CLOSE, { channel: envelope.channel, reason: "Unknown channel" }).catch(() => {});
+          return;
+        }
+        channel._receive(envelope.message, extra);
+        return;
+
+      case MUX_CREDIT:
+        channel?._grantCredit(envelope.credit ?? 0);
+        return;
+
+      case MUX_CLOSE:
+        channel?._handleClose();
+        this._handleEnvelope(message.method, envelope);
+        return;
+
+      default:
+        this._handleEnvelope(message.method, envelope);
+    }
+  }
+
+  private _handleClose(): void {
+    if (this._closed) {
+      return;
+    }
+
+    this._closed = true;
+    for (const channel of this.channels) {
+      channel._handleClose();
+    }
+    this.onclose?.();
+  }
+}
+
+/**
+ * Opens several independent MCP sessions over one connection, typically a `WebSocketClientTransport`, so that a
+ * browser can reach many servers behind a gateway without opening a socket for each.
+ *
+ * Each message is wrapped in a `mux/message` notification naming its channel. The other side must use a
+ * `TransportDemultiplexer`.
+ *
+ * Usage example:
+ *
+ * ```typescript
+ * const mux = new TransportMultiplexer(new WebSocketClientTransport(new URL("wss://gateway.example.com/mcp")));
+ *
+ * await githubClient.connect(mux.channel({ target: "github" }));
+ * await slackClient.connect(mux.channel({ target: "slack" }));
+ * ```
+ */
+export class TransportMultiplexer extends Multiplexer {
+  private _starting?: Promise<void>;
+  private _pendingOpens = new Map<string, { resolve: () => void; reject: (error: Error) => void }>();
+
+  constructor(inner: Transport, options?: MultiplexOptions) {
+    super(inner, options);
+    this._inner.onreconnect = () => this._reopenChannels();
+  }
+
+  /**
+   * Creates a channel. The connection is started, and the channel opened on the other side, when the channel is started.
+   */
+  channel(options?: { target?: string }): MultiplexedTransport {
+    return this._createChannel(crypto.randomUUID(), {
+      open: async (channel) => {
+        this._starting ??= this._inner.start();
+        await this._starting;
+
+        const accepted = new Promise<void>((resolve, reject) =>
+          this._pendingOpens.set(channel.channelId, { resolve, reject }),
+        );
+        await this._post(MUX_OPEN, { channel: channel.channelId, target: options?.target, window: this._window });
+        await accepted;
+      },
+    });
+  }
+
+  // A channel that cannot be restored is closed on its own, rather than failing the connection for the other channels
+  private async _reopenChannels(): Promise<void> {
+    await Promise.all(
+      this.channels.map((channel) =>
+        channel._reopen().catch((error) => {
+          channel.onerror?.(error as Error);
+          void channel.close();
+        }),
+      ),
+    );
+  }
+
+  protected _handleEnvelope(method: string, envelope: MultiplexEnvelope): void {
+    const pending = this._pendingOpens.get(envelope.channel);
+    this._pendingOpens.delete(envelope.channel);
+
+    if (method === MUX_ACCEPT) {
+      this._channels.get(envelope.channel)?._grantCredit(envelope.window ?? DEFAULT_WINDOW);
+      pending?.resolve();
+    } else if (method === MUX_CLOSE) {
+      pending?.reject(new Error(`Channel ${envelope.channel} was rejected: ${envelope.reason ?? "closed by peer"}`));
+    } else {
+      this.onerror?.(new Error(`Unexpected ${method} envelope`));
+    }
+  }
+}
+
+/**
+ * Options for `TransportDemultiplexer`.
+ */
+export type TransportDemultiplexerOptions = MultiplexOptions & {
+  /**
+   * Called for each channel the client opens, typically to connect an `McpServer` to it. If this throws or rejects,
+   * the channel is closed.
+   */
+  onchannel: (transport: MultiplexedTransport, request: ChannelRequest) => void | Promise<void>;
+};
+
+/**
+ * Accepts the channels opened by a `TransportMultiplexer`, on a connection such as a `WebSocketServerTransport`.
+ *
+ * Usage example:
+ *
+ * ```typescript
+ * const demux = new TransportDemultiplexer(new WebSocketServerTransport(socket), {
+ *   onchannel: (transport, { target }) => createServerFor(target).connect(transport),
+ * });
+ * await demux.start();
+ * ```
+ */
+export class TransportDemultiplexer extends Multiplexer {
+  private _onchannel: TransportDemultiplexerOptions["onchannel"];
+
+  constructor(inner: Transport, options: TransportDemultiplexerOptions) {
+    super(inner, options);
+    this._onchannel = options.onchannel;
+  }
+
+  /**
+   * Starts the underlying connection.
+   */
+  start(): Promise<void> {
+    return this._inner.start();
+  }
+
+  protected _handleEnvelope(method: string, envelope: MultiplexEnvelope): void {
+    if (method === MUX_CLOSE) {
+      return;
+    }
+
+    if (method !== MUX_OPEN || this._channels.has(envelope.channel)) {
+      this.onerror?.(new Error(`Unexpected ${method} envelope for channel ${envelope.channel}`));
+      return;
+    }
+
+    const channel = this._createChannel(envelope.channel, { open: async () => {} }, envelope.channel);
+    channel._grantCredit(envelope.window ?? DEFAULT_WINDOW);
+
+    // Accept the channel once it has been set up, so that the client does not send messages nobody handles
+    Promise.resolve()
+      .then(() => this._onchannel(channel, { target: envelope.target }))
+      .then(
+        () => this._post(MUX_ACCEPT, { channel: envelope.channel, window: this._window }),
+        async (error) => {
+          this.onerror?.(error as Error);
+          channel._handleClose();
+          await this._post(MUX_CLOSE, { channel: envelope.channel, reason: (error as Error).message });
+        },
+      )
+      .catch((error) => this.onerror?.(error as Error));
+  }
+}
@@ -2,13 +2,14 @@ import { ZodType, z } from "zod";
 import {
   ClientCapabilities,
   ErrorCode,
+  JSONRPCRequest,
   McpError,
   Notification,
   Request,
   Result,
   ServerCapabilities,
 } from "../types.js";
-import { Protocol, mergeCapabilities } from "./protocol.js";
+import { Protocol, ProtocolOptions, RequestEvent, mergeCapabilities } from "./protocol.js";
 import { Transport } from "./transport.js";
 
 // Mock Transport class
@@ -258,6 +259,570 @@ describe("protocol tests", () => {
   });
 });
 
+describe("heartbeat", () => {
+  let transport: MockTransport;
+
+  const createProtocol = (heartbeat: ProtocolOptions["heartbeat"]) =>
+    new (class extends Protocol<Request, Notification, Result> {
+      protected assertCapabilityForMethod(): void {}
+      protected assertNotificationCapability(): void {}
+      protected assertRequestHandlerCapability(): void {}
+    })({ heartbeat });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    transport = new MockTransport();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test("should ping at the interval and track the round-trip time", async () => {
+    const protocol = createProtocol({ interval: 1000 });
+    const sendSpy = jest.spyOn(transport, "send").mockImplementation(async (message) => {
+      const { id } = message as JSONRPCRequest;
+      setTimeout(() => transport.onmessage?.({ jsonrpc: "2.0", id, result: {} }), 50);
+    });
+    await protocol.connect(transport);
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(sendSpy).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(sendSpy).toHaveBeenCalledWith(expect.objectContaining({ method: "ping" }), expect.anything());
+
+    await jest.advanceTimersByTimeAsync(50);
+    expect(protocol.roundTripTime).toBe(50);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(sendSpy).toHaveBeenCalledTimes(2);
+    await protocol.close();
+  });
+
+  test("should report an unhealthy connection after consecutive missed pings", async () => {
+    const protocol = createProtocol({ interval: 1000, timeout: 500, maxMissed: 2 });
+    const onunhealthy = jest.fn();
+    protocol.onunhealthy = onunhealthy;
+    await protocol.connect(transport);
+
+    await jest.advanceTimersByTimeAsync(1500);
+    expect(onunhealthy).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1500);
+    expect(onunhealthy).toHaveBeenCalledWith({ missed: 2, roundTripTime: undefined });
+
+    // Only once per unhealthy period
+    await jest.advanceTimersByTimeAsync(1500);
+    expect(onunhealthy).toHaveBeenCalledTimes(1);
+    await protocol.close();
+  });
+
+  test("should close the connection when unhealthy if asked to", async () => {
+    const protocol = createProtocol({ interval: 1000, maxMissed: 1, closeOnUnhealthy: true });
+    const onclose = jest.fn();
+    protocol.onclose = onclose;
+    const sendSpy = jest.spyOn(transport, "send");
+    await protocol.connect(transport);
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(onclose).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(sendSpy.mock.calls.filter(([message]) => (message as JSONRPCRequest).method === "ping")).toHaveLength(1);
+  });
+});
+
+describe("concurrency limits", () => {
+  let transport: MockTransport;
+
+  const createProtocol = (options: ProtocolOptions) =>
+    new (class extends Protocol<Request, Notification, Result> {
+      protected assertCapabilityForMethod(): void {}
+      protected assertNotificationCapability(): void {}
+      protected assertRequestHandlerCapability(): void {}
+    })(options);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    transport = new MockTransport();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test("should queue outgoing requests beyond the limit until earlier ones complete", async () => {
+    const protocol = createProtocol({ concurrency: { maxConcurrent: 2 } });
+    const sendSpy = jest.spyOn(transport, "send");
+    await protocol.connect(transport);
+
+    const requests = [1, 2, 3].map(() =>
+      protocol.request({ method: "example", params: {} }, z.object({})),
+    );
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(sendSpy).toHaveBeenCalledTimes(2);
+    expect(protocol.getConcurrencyStats().requests).toEqual({
+      active: 2,
+      queued: 1,
+      methods: { example: { active: 2, queued: 1 } },
+    });
+
+    transport.onmessage?.({ jsonrpc: "2.0", id: 0, result: {} });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sendSpy).toHaveBeenCalledTimes(3);
+    expect(sendSpy).toHaveBeenLastCalledWith(expect.objectContaining({ id: 2 }), expect.anything());
+
+    transport.onmessage?.({ jsonrpc: "2.0", id: 1, result: {} });
+    transport.onmessage?.({ jsonrpc: "2.0", id: 2, result: {} });
+    await Promise.all(requests);
+    expect(protocol.getConcurrencyStats().requests?.active).toBe(0);
+  });
+
+  test("should time out queued requests from the moment they were queued", async () => {
+    const protocol = createProtocol({ concurrency: { maxConcurrent: 1 } });
+    const sendSpy = jest.spyOn(transport, "send");
+    await protocol.connect(transport);
+
+    const first = protocol.request({ method: "example", params: {} }, z.object({}), { timeout: 10000 });
+    const queued = protocol.request({ method: "example", params: {} }, z.object({}), { timeout: 1000 });
+    const queuedResult = queued.catch((error) => error);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(await queuedResult).toMatchObject({ code: ErrorCode.RequestTimeout });
+    // The queued request was never sent, so there is nothing to cancel
+    expect(sendSpy).toHaveBeenCalledTimes(1);
+    expect(protocol.getConcurrencyStats().requests?.queued).toBe(0);
+
+    transport.onmessage?.({ jsonrpc: "2.0", id: 0, result: {} });
+    await first;
+  });
+
+  test("should reject queued requests whose signal is aborted", async () => {
+    const protocol = createProtocol({ concurrency: { perMethod: { example: 1 } } });
+    const sendSpy = jest.spyOn(transport, "send");
+    await protocol.connect(transport);
+
+    protocol.request({ method: "example", params: {} }, z.object({})).catch(() => {});
+    const controller = new AbortController();
+    const queued = protocol.request({ method: "example", params: {} }, z.object({}), { signal: controller.signal });
+
+    controller.abort("Cancelled by user");
+    await expect(queued).rejects.toBe("Cancelled by user");
+    expect(sendSpy).toHaveBeenCalledTimes(1);
+    await protocol.close();
+  });
+
+  test("should limit concurrent request handlers", async () => {
+    const protocol = createProtocol({ handlerConcurrency: { maxConcurrent: 1 } });
+    const sendSpy = jest.spyOn(transport, "send");
+    await protocol.connect(transport);
+
+    let running = 0;
+    let maxRunning = 0;
+    protocol.setRequestHandler(z.object({ method: z.literal("example") }), async () => {
+      maxRunning = Math.max(maxRunning, ++running);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      running--;
+      return {};
+    });
+
+    transport.onmessage?.({ jsonrpc: "2.0", id: 1, method: "example" });
+    transport.onmessage?.({ jsonrpc: "2.0", id: 2, method: "example" });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(protocol.getConcurrencyStats().handlers).toMatchObject({ active: 1, queued: 1 });
+
+    await jest.advanceTimersByTimeAsync(200);
+    expect(maxRunning).toBe(1);
+    expect(sendSpy).toHaveBeenCalledTimes(2);
+    expect(sendSpy).toHaveBeenCalledWith(expect.objectContaining({ id: 2, result: {} }));
+  });
+
+  test("should not queue pings behind requests or handlers", async () => {
+    const protocol = createProtocol({
+      concurrency: { maxConcurrent: 1 },
+      handlerConcurrency: { maxConcurrent: 1 },
+      heartbeat: { interval: 1000 },
+    });
+    const onunhealthy = jest.fn();
+    protocol.onunhealthy = onunhealthy;
+    const sendSpy = jest.spyOn(transport, "send");
+    await protocol.connect(transport);
+
+    protocol.setRequestHandler(z.object({ method: z.literal("example") }), async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10000));
+      return {};
+    });
+    transport.onmessage?.({ jsonrpc: "2.0", id: "handled", method: "example" });
+    const pending = protocol.request({ method: "example", params: {} }, z.object({}), { timeout: 20000 });
+    await jest.advanceTimersByTimeAsync(1000);
+
+    const pings = sendSpy.mock.calls.filter(([message]) => (message as JSONRPCRequest).method === "ping");
+    expect(pings).toHaveLength(1);
+    transport.onmessage?.({ jsonrpc: "2.0", id: (pings[0][0] as JSONRPCRequest).id, result: {} });
+
+    transport.onmessage?.({ jsonrpc: "2.0", id: "ping", method: "ping" });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sendSpy).toHaveBeenCalledWith({ jsonrpc: "2.0", id: "ping", result: {} });
+    expect(protocol.roundTripTime).toBe(0);
+    expect(protocol.getConcurrencyStats()).toMatchObject({ requests: { active: 1 }, handlers: { active: 1 } });
+
+    transport.onmessage?.({ jsonrpc: "2.0", id: 0, result: {} });
+    await pending;
+    expect(onunhealthy).not.toHaveBeenCalled();
+    await protocol.close();
+  });
+});
+
+describe("middleware", () => {
+  let protocol: Protocol<Request, Notification, Result>;
+  let transport: MockTransport;
+  let sendSpy: jest.SpyInstance;
+
+  beforeEach(async () => {
+    transport = new MockTransport();
+    sendSpy = jest.spyOn(transport, "send");
+    protocol = new (class extends Protocol<Request, Notification, Result> {
+      protected assertCapabilityForMethod(): void {}
+      protected assertNotificationCapability(): void {}
+      protected assertRequestHandlerCapability(): void {}
+    })();
+    await protocol.connect(transport);
+  });
+
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  test("should run middlewares around request handlers in the order they were added", async () => {
+    const calls: string[] = [];
+    protocol.use({
+      async request(request, _extra, next) {
+        calls.push(`outer ${request.method}`);
+        const result = await next();
+        return { ...result, outer: true };
+      },
+    });
+    protocol.use({
+      async request(request, _extra, next) {
+        calls.push("inner");
+        return next({ ...request, params: { value: "redacted" } });
+      },
+    });
+    protocol.setRequestHandler(
+      z.object({ method: z.literal("example"), params: z.object({ value: z.string() }) }),
+      (request) => {
+        calls.push(`handler ${request.params.value}`);
+        return {};
+      },
+    );
+
+    transport.onmessage?.({ jsonrpc: "2.0", id: 1, method: "example", params: { value: "secret" } });
+    await flush();
+
+    expect(calls).toEqual(["outer example", "inner", "handler redacted"]);
+    expect(sendSpy).toHaveBeenCalledWith({ jsonrpc: "2.0", id: 1, result: { outer: true } });
+  });
+
+  test("should send middleware errors as error responses", async () => {
+    protocol.use({
+      async request(_request, extra, next) {
+        if (!extra.authInfo?.scopes.includes("admin")) {
+          throw new McpError(ErrorCode.InvalidRequest, "Forbidden", { requiredScope: "admin" });
+        }
+        return next();
+      },
+    });
+    const handler = jest.fn(() => ({}));
+    protocol.setRequestHandler(z.object({ method: z.literal("example") }), handler);
+
+    transport.onmessage?.({ jsonrpc: "2.0", id: 1, method: "example" });
+    await flush();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(sendSpy).toHaveBeenCalledWith({
+      jsonrpc: "2.0",
+      id: 1,
+      error: {
+        code: ErrorCode.InvalidRequest,
+        message: "MCP error -32600: Forbidden",
+        data: { requiredScope: "admin" },
+      },
+    });
+  });
+
+  test("should let middlewares drop notifications", async () => {
+    const onerror = jest.fn();
+    protocol.onerror = onerror;
+    protocol.use({
+      async notification(notification, next) {
+        if (notification.method === "notifications/failing") {
+          throw new Error("Rejected");
+        }
+        if (notification.method !== "notifications/dropped") {
+          await next();
+        }
+      },
+    });
+    const handler = jest.fn();
+    protocol.setNotificationHandler(z.object({ method: z.literal("notifications/dropped") }), handler);
+    protocol.setNotificationHandler(z.object({ method: z.literal("notifications/kept") }), handler);
+    protocol.setNotificationHandler(z.object({ method: z.literal("notifications/failing") }), handler);
+
+    transport.onmessage?.({ jsonrpc: "2.0", method: "notifications/dropped" });
+    transport.onmessage?.({ jsonrpc: "2.0", method: "notifications/kept" });
+    transport.onmessage?.({ jsonrpc: "2.0", method: "notifications/failing" });
+    await flush();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith({ method: "notifications/kept" });
+    expect(onerror).toHaveBeenCalledWith(new Error("Uncaught error in notification handler: Error: Rejected"));
+  });
+});
+
+describe("introspection", () => {
+  let protocol: Protocol<Request, Notification, Result>;
+  let transport: MockTransport;
+  let events: RequestEvent[];
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    transport = new MockTransport();
+    protocol = new (class extends Protocol<Request, Notification, Result> {
+      protected assertCapabilityForMethod(): void {}
+      protected assertNotificationCapability(): void {}
+      protected assertRequestHandlerCapability(): void {}
+    })();
+    events = [];
+    protocol.onRequestEvent((event) => events.push(event));
+    await protocol.connect(transport);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test("should list outgoing requests with their age, remaining timeout and last progress", async () => {
+    const result = protocol.request({ method: "example", params: {} }, z.object({}), {
+      timeout: 1000,
+      onprogress: () => {},
+    });
+    await jest.advanceTimersByTimeAsync(300);
+    transport.onmessage?.({
+      jsonrpc: "2.0",
+      method: "notifications/progress",
+      params: { progressToken: 0, progress: 50, total: 100 },
+    });
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(protocol.getInFlightRequests()).toEqual([
+      {
+        direction: "outgoing",
+        id: 0,
+        method: "example",
+        queued: false,
+        age: 400,
+        remainingTimeout: 600,
+        lastProgress: { progress: 50, total: 100 },
+        lastProgressAge: 100,
+      },
+    ]);
+
+    transport.onmessage?.({ jsonrpc: "2.0", id: 0, result: {} });
+    await result;
+    expect(protocol.getInFlightRequests()).toEqual([]);
+    expect(events).toEqual([
+      { type: "started", direction: "outgoing", id: 0, method: "example" },
+      { type: "finished", direction: "outgoing", id: 0, method: "example", duration: 400 },
+    ]);
+  });
+
+  test("should report timed out and cancelled outgoing requests", async () => {
+    const timedOut = protocol.request({ method: "slow", params: {} }, z.object({}), { timeout: 100 }).catch(() => {});
+    const controller = new AbortController();
+    const cancelled = protocol
+      .request({ method: "example", params: {} }, z.object({}), { signal: controller.signal })
+      .catch(() => {});
+
+    controller.abort("Cancelled by user");
+    await jest.advanceTimersByTimeAsync(100);
+    await Promise.all([timedOut, cancelled]);
+
+    expect(events).toEqual([
+      { type: "started", direction: "outgoing", id: 0, method: "slow" },
+      { type: "started", direction: "outgoing", id: 1, method: "example" },
+      { type: "cancelled", direction: "outgoing", id: 1, method: "example", duration: 0, error: "Cancelled by user" },
+      {
+        type: "timedout",
+        direction: "outgoing",
+        id: 0,
+        method: "slow",
+        duration: 100,
+        error: expect.objectContaining({ code: ErrorCode.RequestTimeout }),
+      },
+    ]);
+  });
+
+  test("should list incoming requests while their handlers run", async () => {
+    protocol.setRequestHandler(z.object({ method: z.literal("example") }), async (_request, extra) => {
+      await extra.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken: "token", progress: 1 },
+      });
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      return {};
+    });
+    protocol.setRequestHandler(z.object({ method: z.literal("failing") }), async () => {
+      throw new McpError(ErrorCode.InvalidParams, "Bad params");
+    });
+
+    transport.onmessage?.({ jsonrpc: "2.0", id: "a", method: "example" });
+    await jest.advanceTimersByTimeAsync(200);
+
+    expect(protocol.getInFlightRequests()).toEqual([
+      {
+        direction: "incoming",
+        id: "a",
+        method: "example",
+        queued: false,
+        age: 200,
+        lastProgress: { progress: 1 },
+        lastProgressAge: 200,
+      },
+    ]);
+
+    transport.onmessage?.({ jsonrpc: "2.0", id: "b", method: "failing" });
+    transport.onmessage?.({ jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: "a", reason: "Stuck" } });
+    await jest.advanceTimersByTimeAsync(500);
+
+    expect(protocol.getInFlightRequests()).toEqual([]);
+    expect(events).toEqual([
+      { type: "started", direction: "incoming", id: "a", method: "example" },
+      { type: "started", direction: "incoming", id: "b", method: "failing" },
+      {
+        type: "finished",
+        direction: "incoming",
+        id: "b",
+        method: "failing",
+        duration: 0,
+        error: expect.objectContaining({ code: ErrorCode.InvalidParams }),
+      },
+      { type: "cancelled", direction: "incoming", id: "a", method: "example", duration: 500, error: "Stuck" },
+    ]);
+  });
+});
+
+describe("retries", () => {
+  let transport: MockTransport;
+  let sendSpy: jest.SpyInstance;
+
+  const createProtocol = (options?: ProtocolOptions) =>
+    new (class extends Protocol<Request, Notification, Result> {
+      protected assertCapabilityForMethod(): void {}
+      protected assertNotificationCapability(): void {}
+      protected assertRequestHandlerCapability(): void {}
+    })(options);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    transport = new MockTransport();
+    sendSpy = jest.spyOn(transport, "send");
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test("should retry idempotent requests with a new message ID after cancelling the timed out attempt", async () => {
+    const protocol = createProtocol({ retry: { initialRetryDelay: 100 } });
+    await protocol.connect(transport);
+
+    const result = protocol.request({ method: "tools/list", params: {} }, z.object({ tools: z.array(z.unknown()) }), {
+      timeout: 1000,
+    });
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(sendSpy).toHaveBeenLastCalledWith(
+      expect.objectContaining({ method: "notifications/cancelled", params: expect.objectContaining({ requestId: 0 }) }),
+      expect.anything(),
+    );
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(sendSpy).toHaveBeenLastCalledWith(
+      expect.objectContaining({ method: "tools/list", id: 1 }),
+      expect.anything(),
+    );
+
+    transport.onmessage?.({ jsonrpc: "2.0", id: 1, result: { tools: [] } });
+    await expect(result).resolves.toEqual({ tools: [] });
+  });
+
+  test("should only retry tool calls that are marked idempotent", async () => {
+    const protocol = createProtocol({ retry: { initialRetryDelay: 100 } });
+    await protocol.connect(transport);
+    sendSpy.mockRejectedValueOnce(new Error("Network error")).mockRejectedValueOnce(new Error("Network error"));
+
+    await expect(protocol.request({ method: "tools/call", params: {} }, z.object({}))).rejects.toThrow("Network error");
+    expect(sendSpy).toHaveBeenCalledTimes(1);
+
+    const result = protocol.request({ method: "tools/call", params: {} }, z.object({}), { idempotent: true });
+    await jest.advanceTimersByTimeAsync(100);
+    transport.onmessage?.({ jsonrpc: "2.0", id: 2, result: {} });
+    await expect(result).resolves.toEqual({});
+    expect(sendSpy).toHaveBeenCalledTimes(3);
+  });
+
+  test("should not retry error responses or requests without a retry policy", async () => {
+    const protocol = createProtocol({ retry: {} });
+    await protocol.connect(transport);
+
+    const failing = protocol.request({ method: "ping" }, z.object({}));
+    transport.onmessage?.({ jsonrpc: "2.0", id: 0, error: { code: ErrorCode.InternalError, message: "Failed" } });
+    await expect(failing).rejects.toMatchObject({ code: ErrorCode.InternalError });
+
+    sendSpy.mockRejectedValueOnce(new Error("Network error"));
+    await expect(protocol.request({ method: "ping" }, z.object({}), { retry: false })).rejects.toThrow("Network error");
+    expect(sendSpy).toHaveBeenCalledTimes(2);
+  });
+
+  test("should not retry errors raised before the request was sent", async () => {
+    const protocol = createProtocol({
+      retry: { initialRetryDelay: 100 },
+      concurrency: { maxConcurrent: 1, maxQueueSize: 0 },
+    });
+    await protocol.connect(transport);
+
+    const started: string[] = [];
+    protocol.onRequestEvent((event) => event.type === "started" && started.push(event.method));
+
+    const first = protocol.request({ method: "prompts/list" }, z.object({}));
+    const queued = protocol.request({ method: "tools/list" }, z.object({})).catch((error) => error);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(await queued).toEqual(new Error("Request queue is full (0 requests)"));
+    expect(started).toEqual(["prompts/list", "tools/list"]);
+
+    transport.onmessage?.({ jsonrpc: "2.0", id: 0, result: {} });
+    await first;
+  });
+
+  test("should not cancel earlier attempts again when the signal is aborted", async () => {
+    const protocol = createProtocol({ retry: { initialRetryDelay: 100 } });
+    await protocol.connect(transport);
+    const controller = new AbortController();
+
+    const result = protocol
+      .request({ method: "ping" }, z.object({}), { timeout: 1000, signal: controller.signal })
+      .catch((error) => error);
+    await jest.advanceTimersByTimeAsync(1100);
+    controller.abort("Cancelled by user");
+
+    expect(await result).toBe("Cancelled by user");
+    const cancellations = sendSpy.mock.calls
+      .map(([message]) => message)
+      .filter((message) => message.method === "notifications/cancelled");
+    expect(cancellations.map((message) => message.params.requestId)).toEqual([0, 1]);
+  });
+});
+
 describe("mergeCapabilities", () => {
   it("should merge client capabilities", () => {
     const base: ClientCapabilities = {
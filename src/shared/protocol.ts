@@ -2,6 +2,7 @@ import { ZodLiteral, ZodObject, ZodType, z } from "zod";
 import {
   CancelledNotificationSchema,
   ClientCapabilities,
+  EmptyResultSchema,
   ErrorCode,
   isJSONRPCError,
   isJSONRPCRequest,
@@ -24,6 +25,9 @@ import {
 } from "../types.js";
 import { Transport, TransportSendOptions } from "./transport.js";
 import { AuthInfo } from "./auth.js";
+import { ConcurrencyLimiter, ConcurrencyOptions, ConcurrencyStats, ReleaseSlot } from "./concurrency.js";
+import { createEventNotifier } from "./eventNotifier.js";
+import { IDEMPOTENT_METHODS, markSendFailure, retry, RetryOptions } from "./retry.js";
 
 /**
  * Callback for progress notifications.
@@ -42,13 +46,88 @@ export type ProtocolOptions = {
    * Currently this defaults to false, for backwards compatibility with SDK versions that did not advertise capabilities correctly. In future, this will default to true.
    */
   enforceStrictCapabilities?: boolean;
+
+  /**
+   * If set, pings the remote side periodically to detect dead connections, such as half-open TCP connections,
+   * without waiting for a request to time out.
+   */
+  heartbeat?: HeartbeatOptions;
+
+  /**
+   * Limits the number of outgoing requests in flight. Requests beyond the limits are queued, and their `timeout` and
+   * `signal` apply from the moment they are queued. Pings are never queued.
+   */
+  concurrency?: ConcurrencyOptions;
+
+  /**
+   * Limits the number of incoming requests whose handlers run at the same time. Requests beyond the limits are queued
+   * until a handler finishes, and can be cancelled while they wait. Pings are never queued.
+   */
+  handlerConcurrency?: ConcurrencyOptions;
+
+  /**
+   * If set, outgoing requests that fail with a transient error, such as a timeout or a closed connection, are retried
+   * with backoff. Only requests for methods in `IDEMPOTENT_METHODS`, or requests marked `idempotent`, are retried.
+   */
+  retry?: RetryOptions;
+};
+
+/**
+ * Options for sending periodic pings to the remote side.
+ */
+export type HeartbeatOptions = {
+  /**
+   * How long (in milliseconds) to wait after each ping before sending the next one.
+   */
+  interval: number;
+
+  /**
+   * How long (in milliseconds) to wait for a ping response before counting it as missed. Default is `interval`.
+   */
+  timeout?: number;
+
+  /**
+   * How many consecutive pings may be missed before `onunhealthy` is invoked. Default is 3.
+   */
+  maxMissed?: number;
+
+  /**
+   * If true, the connection is closed once it is unhealthy, so that reconnection logic can take over. Default: false
+   */
+  closeOnUnhealthy?: boolean;
 };
 
+/**
+ * The state of the heartbeat, as passed to `onunhealthy`.
+ */
+export type HeartbeatStatus = {
+  /**
+   * The number of consecutive pings that went unanswered.
+   */
+  missed: number;
+
+  /**
+   * The round-trip time (in milliseconds) of the last answered ping, if any.
+   */
+  roundTripTime?: number;
+};
+
+/**
+ * The default number of consecutive missed pings before a connection is considered unhealthy.
+ */
+export const DEFAULT_HEARTBEAT_MAX_MISSED = 3;
+
 /**
  * The default request timeout, in miliseconds.
  */
 export const DEFAULT_REQUEST_TIMEOUT_MSEC = 60000;
 
+/**
+ * Requests that the `concurrency` and `handlerConcurrency` limits do not apply to, so that pings (including heartbeats)
+ * are answered while other requests are queued. Notifications, such as cancellations, are never limited.
+ */
+const UNLIMITED_METHODS = new Set(["ping"]);
+
 /**
  * Options that can be given per request.
  */
@@ -83,6 +162,24 @@ export type RequestOptions = {
    * If not specified, there is no maximum total timeout.
    */
   maxTotalTimeout?: number;
+
+  /**
+   * The priority of this request in the queue, if the `concurrency` option limits outgoing requests with
+   * `queueOrder: "priority"`. Higher priorities start first. Default is 0.
+   */
+  priority?: number;
+
+  /**
+   * Overrides the `retry` option of the protocol for this request, or disables retries if false. Each attempt is sent
+   * with a new message ID, and `timeout` and `maxTotalTimeout` apply to each attempt separately.
+   */
+  retry?: RetryOptions | false;
+
+  /**
+   * Whether the request can safely be repeated, so that it is retried according to the `retry` option. Default is
+   * true for methods in `IDEMPOTENT_METHODS`, e.g. `tools/list`, and false otherwise, e.g. for `tools/call`.
+   */
+  idempotent?: boolean;
 } & TransportSendOptions;
 
 /**
@@ -130,12 +227,123 @@ export type RequestHandlerExtra<SendRequestT extends Request,
     sendRequest: <U extends ZodType<object>>(request: SendRequestT, resultSchema: U, options?: RequestOptions) => Promise<z.infer<U>>;
   };
 
+/**
+ * Passes a request on to the next middleware, and eventually to its handler. The request can be replaced, e.g. to
+ * redact or normalize its params.
+ */
+export type RequestMiddlewareNext<SendResultT extends Result> = (request?: Request) => Promise<SendResultT>;
+
+/**
+ * Passes a notification on to the next middleware, and eventually to its handler.
+ */
+export type NotificationMiddlewareNext = (notification?: Notification) => Promise<void>;
+
+/**
+ * Intercepts incoming requests and notifications before they reach the handlers registered with `setRequestHandler()`
+ * and `setNotificationHandler()`, for cross-cutting concerns such as authorization, rate limiting, redaction or timing.
+ *
+ * A middleware can inspect the message and call `next`, replace the message or the result, or reject it by throwing.
+ * Errors thrown from `request` are sent back as the error response: an `McpError` keeps its code and data, and any
+ * other error becomes an internal error.
+ */
+export interface ProtocolMiddleware<
+  SendRequestT extends Request = Request,
+  SendNotificationT extends Notification = Notification,
+  SendResultT extends Result = Result,
+> {
+  /**
+   * Intercepts a request that has a handler.
+   */
+  request?(
+    request: Request,
+    extra: RequestHandlerExtra<SendRequestT, SendNotificationT>,
+    next: RequestMiddlewareNext<SendResultT>,
+  ): Promise<SendResultT>;
+
+  /**
+   * Intercepts a notification that has a handler. Errors thrown here are reported to `onerror`.
+   */
+  notification?(notification: Notification, next: NotificationMiddlewareNext): Promise<void>;
+}
+
+/**
+ * Whether a request was sent by this side (`outgoing`) or received from the remote side (`incoming`).
+ */
+export type RequestDirection = "outgoing" | "incoming";
+
+/**
+ * A snapshot of a request that is in flight, as returned by `getInFlightRequests()`.
+ */
+export type InFlightRequest = {
+  direction: RequestDirection;
+  id: RequestId;
+  method: string;
+
+  /**
+   * Whether the request is waiting in a queue because of the `concurrency` or `handlerConcurrency` option, rather than
+   * being sent or handled.
+   */
+  queued: boolean;
+
+  /**
+   * How long (in milliseconds) ago the request was made or received.
+   */
+  age: number;
+
+  /**
+   * How long (in milliseconds) until an outgoing request times out, taking `maxTotalTimeout` into account.
+   */
+  remainingTimeout?: number;
+
+  /**
+   * The last progress received for an outgoing request, or sent for an incoming one.
+   */
+  lastProgress?: Progress;
+
+  /**
+   * How long (in milliseconds) ago `lastProgress` was received or sent.
+   */
+  lastProgressAge?: number;
+};
+
+/**
+ * A change in the lifecycle of a request, as passed to `onRequestEvent` listeners.
+ */
+export type RequestEvent = {
+  type: "started" | "finished" | "cancelled" | "timedout";
+  direction: RequestDirection;
+  id: RequestId;
+  method: string;
+
+  /**
+   * How long (in milliseconds) the request was in flight, for all but `started` events.
+   */
+  duration?: number;
+
+  /**
+   * The error that the request failed with, or the reason it was cancelled.
+   */
+  error?: unknown;
+};
+
+/**
+ * The bookkeeping behind `InFlightRequest` snapshots.
+ */
+type RequestState = {
+  method: string;
+  startTime: number;
+  queued: boolean;
+  lastProgress?: Progress;
+  lastProgressTime?: number;
+};
+
 /**
  * Information about a request's timeout state
  */
 type TimeoutInfo = {
   timeoutId: ReturnType<typeof setTimeout>;
   startTime: number;
+  resetTime: number;
   timeout: number;
   maxTotalTimeout?: number;
   resetTimeoutOnProgress: boolean;
@@ -172,6 +380,15 @@ export abstract class Protocol<
   > = new Map();
   private _progressHandlers: Map<number, ProgressCallback> = new Map();
   private _timeoutInfo: Map<number, TimeoutInfo> = new Map();
+  private _heartbeatTimer?: ReturnType<typeof setTimeout>;
+  private _missedHeartbeats = 0;
+  private _roundTripTime?: number;
+  private _requestLimiter?: ConcurrencyLimiter;
+  private _handlerLimiter?: ConcurrencyLimiter;
+  private _middlewares: ProtocolMiddleware<SendRequestT, SendNotificationT, SendResultT>[] = [];
+  private _outgoingRequests: Map<number, RequestState> = new Map();
+  private _incomingRequests: Map<RequestId, RequestState> = new Map();
+  private _onRequestEvent = createEventNotifier<RequestEvent>();
 
   /**
    * Callback for when the connection is closed for any reason.
@@ -187,6 +404,14 @@ export abstract class Protocol<
    */
   onerror?: (error: Error) => void;
 
+  /**
+   * Callback for when the remote side has missed `heartbeat.maxMissed` consecutive pings. It is invoked once each time
+   * the connection becomes unhealthy, and again only after a ping has been answered in between.
+   *
+   * This is only used if the `heartbeat` option is set.
+   */
+  onunhealthy?: (status: HeartbeatStatus) => void;
+
   /**
    * A handler to invoke for any request types that do not have their own handler installed.
    */
@@ -197,7 +422,30 @@ export abstract class Protocol<
    */
   fallbackNotificationHandler?: (notification: Notification) => Promise<void>;
 
+  /**
+   * Event notifier for the lifecycle of requests in both directions. Listeners are notified when a request is started,
+   * and when it has finished (successfully or with an error), been cancelled or timed out.
+   *
+   * @example
+   * const subscription = protocol.onRequestEvent((event) => {
+   *   if (event.type !== "started") {
+   *     console.log(`${event.direction} ${event.method} ${event.type} after ${event.duration}ms`);
+   *   }
+   * });
+   *
+   * // Later, to stop listening:
+   * subscription.close();
+   */
+  public readonly onRequestEvent = this._onRequestEvent.onEvent;
+
   constructor(private _options?: ProtocolOptions) {
+    if (_options?.concurrency) {
+      this._requestLimiter = new ConcurrencyLimiter(_options.concurrency);
+    }
+    if (_options?.handlerConcurrency) {
+      this._handlerLimiter = new ConcurrencyLimiter(_options.handlerConcurrency);
+    }
+
     this.setNotificationHandler(CancelledNotificationSchema, (notification) => {
       const controller = this._requestHandlerAbortControllers.get(
         notification.params.requestId,
@@ -223,9 +471,11 @@ export abstract class Protocol<
     onTimeout: () => void,
     resetTimeoutOnProgress: boolean = false
   ) {
+    const startTime = Date.now();
     this._timeoutInfo.set(messageId, {
       timeoutId: setTimeout(onTimeout, timeout),
-      startTime: Date.now(),
+      startTime,
+      resetTime: startTime,
       timeout,
       maxTotalTimeout,
       resetTimeoutOnProgress,
@@ -249,6 +499,7 @@ export abstract class Protocol<
 
     clearTimeout(info.timeoutId);
     info.timeoutId = setTimeout(info.onTimeout, info.timeout);
+    info.resetTime = Date.now();
     return true;
   }
 
@@ -288,9 +539,149 @@ export abstract class Protocol<
     };
 
     await this._transport.start();
+    this._scheduleHeartbeat();
+  }
+
+  /**
+   * The number of requests in flight and waiting in the queue, in each direction, if concurrency limits are configured.
+   */
+  getConcurrencyStats(): { requests?: ConcurrencyStats; handlers?: ConcurrencyStats } {
+    return { requests: this._requestLimiter?.stats, handlers: this._handlerLimiter?.stats };
+  }
+
+  /**
+   * Returns a snapshot of the requests that are in flight in both directions: outgoing requests that are waiting for a
+   * response, and incoming requests whose handlers are still running. This is meant for debugging stuck sessions.
+   */
+  getInFlightRequests(): InFlightRequest[] {
+    const now = Date.now();
+    const snapshot = (direction: RequestDirection, id: RequestId, state: RequestState): InFlightRequest => ({
+      direction,
+      id,
+      method: state.method,
+      queued: state.queued,
+      age: now - state.startTime,
+      lastProgress: state.lastProgress,
+      lastProgressAge: state.lastProgressTime === undefined ? undefined : now - state.lastProgressTime,
+    });
+
+    const requests: InFlightRequest[] = [];
+    for (const [id, state] of this._outgoingRequests) {
+      const request = snapshot("outgoing", id, state);
+      const info = this._timeoutInfo.get(id);
+      if (info) {
+        request.remainingTimeout = Math.max(0, info.resetTime + info.timeout - now);
+        if (info.maxTotalTimeout) {
+          request.remainingTimeout = Math.min(
+            request.remainingTimeout,
+            Math.max(0, info.startTime + info.maxTotalTimeout - now),
+          );
+        }
+      }
+      requests.push(request);
+    }
+    for (const [id, state] of this._incomingRequests) {
+      requests.push(snapshot("incoming", id, state));
+    }
+    return requests;
+  }
+
+  private _requestStates(direction: RequestDirection): Map<RequestId, RequestState> {
+    return direction === "outgoing" ? this._outgoingRequests : this._incomingRequests;
+  }
+
+  private _startRequest(direction: RequestDirection, id: RequestId, method: string, queued: boolean): void {
+    const requests = this._requestStates(direction);
+    requests.set(id, { method, startTime: Date.now(), queued });
+    this._onRequestEvent.notify({ type: "started", direction, id, method });
+  }
+
+  private _endRequest(
+    direction: RequestDirection,
+    id: RequestId,
+    type: Exclude<RequestEvent["type"], "started">,
+    error?: unknown,
+  ): void {
+    const requests = this._requestStates(direction);
+    const state = requests.get(id);
+    if (!state) {
+      return;
+    }
+
+    requests.delete(id);
+    this._onRequestEvent.notify({
+      type,
+      direction,
+      id,
+      method: state.method,
+      duration: Date.now() - state.startTime,
+      ...(error !== undefined && { error }),
+    });
+  }
+
+  /**
+   * The round-trip time (in milliseconds) of the last ping answered by the remote side, if the `heartbeat` option is set.
+   */
+  get roundTripTime(): number | undefined {
+    return this._roundTripTime;
+  }
+
+  private _scheduleHeartbeat(): void {
+    const heartbeat = this._options?.heartbeat;
+    clearTimeout(this._heartbeatTimer);
+    if (!heartbeat || !this._transport) {
+      return;
+    }
+
+    this._heartbeatTimer = setTimeout(() => {
+      this._heartbeatTimer = undefined;
+      void this._sendHeartbeat(heartbeat);
+    }, heartbeat.interval);
+  }
+
+  private async _sendHeartbeat(heartbeat: HeartbeatOptions): Promise<void> {
+    const transport = this._transport;
+    const startTime = Date.now();
+    try {
+      await this.request({ method: "ping" } as SendRequestT, EmptyResultSchema, {
+        timeout: heartbeat.timeout ?? heartbeat.interval,
+        // Each missed ping counts on its own
+        retry: false,
+      });
+      this._missedHeartbeats = 0;
+      this._roundTripTime = Date.now() - startTime;
+    } catch (error) {
+      if (this._transport !== transport) {
+        // The connection was closed or replaced in the meantime
+        return;
+      }
+
+      if (error instanceof McpError && error.code !== ErrorCode.RequestTimeout && error.code !== ErrorCode.ConnectionClosed) {
+        // An error response still shows that the remote side is alive
+        this._missedHeartbeats = 0;
+      } else {
+        this._missedHeartbeats++;
+        if (this._missedHeartbeats === (heartbeat.maxMissed ?? DEFAULT_HEARTBEAT_MAX_MISSED)) {
+          this.onunhealthy?.({ missed: this._missedHeartbeats, roundTripTime: this._roundTripTime });
+          if (heartbeat.closeOnUnhealthy) {
+            await this.close();
+            return;
+          }
+        }
+      }
+    }
+
+    if (this._transport === transport) {
+      this._scheduleHeartbeat();
+    }
   }
 
   private _onclose(): void {
+    clearTimeout(this._heartbeatTimer);
+    this._heartbeatTimer = undefined;
+    this._missedHeartbeats = 0;
+    this._handlerLimiter?.clear(new McpError(ErrorCode.ConnectionClosed, "Connection closed"));
+
     const responseHandlers = this._responseHandlers;
     this._responseHandlers = new Map();
     this._progressHandlers.clear();
@@ -317,9 +708,17 @@ export abstract class Protocol<
       return;
     }
 
+    const run = this._middlewares.reduceRight<(notification: JSONRPCNotification) => Promise<void>>(
+      (next, middleware) =>
+        middleware.notification
+          ? (current) => middleware.notification!(current, (replacement = current) => next({ ...replacement, jsonrpc: "2.0" }))
+          : next,
+      handler,
+    );
+
     // Starting with Promise.resolve() puts any synchronous errors into the monad as well.
     Promise.resolve()
-      .then(() => handler(notification))
+      .then(() => run(notification))
       .catch((error) =>
         this._onerror(
           new Error(`Uncaught error in notification handler: ${error}`),
@@ -352,26 +751,59 @@ export abstract class Protocol<
     const abortController = new AbortController();
     this._requestHandlerAbortControllers.set(request.id, abortController);
 
+    const handlerLimiter = UNLIMITED_METHODS.has(request.method) ? undefined : this._handlerLimiter;
+    this._startRequest("incoming", request.id, request.method, handlerLimiter !== undefined);
+
     const fullExtra: RequestHandlerExtra<SendRequestT, SendNotificationT> = {
       signal: abortController.signal,
       sessionId: this._transport?.sessionId,
       sendNotification:
-        (notification) =>
-          this.notification(notification, { relatedRequestId: request.id }),
+        (notification) => {
+          const state = this._incomingRequests.get(request.id);
+          if (state && notification.method === "notifications/progress") {
+            const { progress, total } = (notification as unknown as ProgressNotification).params;
+            state.lastProgress = { progress, total };
+            state.lastProgressTime = Date.now();
+          }
+          return this.notification(notification, { relatedRequestId: request.id });
+        },
       sendRequest: (r, resultSchema, options?) =>
         this.request(r, resultSchema, { ...options, relatedRequestId: request.id }),
       authInfo: extra?.authInfo,
     };
 
+    const run = this._middlewares.reduceRight<(request: JSONRPCRequest) => Promise<SendResultT>>(
+      (next, middleware) =>
+        middleware.request
+          ? (current) =>
+              middleware.request!(current, fullExtra, (replacement = current) =>
+                next({ ...replacement, jsonrpc: "2.0", id: request.id }),
+              )
+          : next,
+      (current) => handler(current, fullExtra),
+    );
+
+    let release: ReleaseSlot | undefined;
+
     // Starting with Promise.resolve() puts any synchronous errors into the monad as well.
     Promise.resolve()
-      .then(() => handler(request, fullExtra))
+      .then(() => handlerLimiter?.acquire(request.method, { signal: abortController.signal }))
+      .then((slot) => {
+        release = slot;
+        const state = this._incomingRequests.get(request.id);
+        if (state) {
+          state.queued = false;
+        }
+        return run(request);
+      })
       .then(
         (result) => {
           if (abortController.signal.aborted) {
+            this._endRequest("incoming", request.id, "cancelled", abortController.signal.reason);
             return;
           }
 
+          this._endRequest("incoming", request.id, "finished");
           return this._transport?.send({
             result,
             jsonrpc: "2.0",
@@ -380,9 +812,11 @@ export abstract class Protocol<
         },
         (error) => {
           if (abortController.signal.aborted) {
+            this._endRequest("incoming", request.id, "cancelled", abortController.signal.reason);
             return;
           }
 
+          this._endRequest("incoming", request.id, "finished", error);
           return this._transport?.send({
             jsonrpc: "2.0",
             id: request.id,
@@ -391,6 +825,7 @@ export abstract class Protocol<
                 ? error["code"]
                 : ErrorCode.InternalError,
               message: error.message ?? "Internal error",
+              ...(error instanceof McpError && error.data !== undefined && { data: error.data }),
             },
           });
         },
@@ -399,7 +834,9 @@ export abstract class Protocol<
         this._onerror(new Error(`Failed to send response: ${error}`)),
       )
       .finally(() => {
+        release?.();
         this._requestHandlerAbortControllers.delete(request.id);
+        this._incomingRequests.delete(request.id);
       });
   }
 
@@ -415,6 +852,11 @@ export abstract class Protocol<
 
     const responseHandler = this._responseHandlers.get(messageId);
     const timeoutInfo = this._timeoutInfo.get(messageId);
+    const state = this._outgoingRequests.get(messageId);
+    if (state) {
+      state.lastProgress = params;
+      state.lastProgressTime = Date.now();
+    }
 
     if (timeoutInfo && responseHandler && timeoutInfo.resetTimeoutOnProgress) {
       try {
@@ -501,6 +943,22 @@ export abstract class Protocol<
     request: SendRequestT,
     resultSchema: T,
     options?: RequestOptions,
+  ): Promise<z.infer<T>> {
+    const retryOptions = options?.retry ?? this._options?.retry;
+    if (!retryOptions || !(options?.idempotent ?? IDEMPOTENT_METHODS.has(request.method))) {
+      return this._sendRequest(request, resultSchema, options);
+    }
+
+    return retry(() => this._sendRequest(request, resultSchema, options), retryOptions, options?.signal);
+  }
+
+  /**
+   * Makes a single attempt at sending a request and waiting for its response.
+   */
+  private _sendRequest<T extends ZodType<object>>(
+    request: SendRequestT,
+    resultSchema: T,
+    options?: RequestOptions,
   ): Promise<z.infer<T>> {
     const { relatedRequestId, resumptionToken, onresumptiontoken } = options ?? {};
 
@@ -531,10 +989,29 @@ export abstract class Protocol<
         };
       }
 
-      const cancel = (reason: unknown) => {
+      let sent = false;
+      let release: ReleaseSlot | undefined;
+      const dequeue = new AbortController();
+      const onAbort = () => cancel(options?.signal?.reason);
+      // Frees the request's concurrency slot, or removes it from the queue if it has not been sent yet
+      const settle = () => {
+        dequeue.abort();
+        release?.();
+        // Aborting after this must not cancel the request again, e.g. if a retry has replaced it
+        options?.signal?.removeEventListener("abort", onAbort);
+      };
+
+      const cancel = (reason: unknown, timedOut = false) => {
         this._responseHandlers.delete(messageId);
         this._progressHandlers.delete(messageId);
         this._cleanupTimeout(messageId);
+        settle();
+        this._endRequest("outgoing", messageId, timedOut ? "timedout" : "cancelled", reason);
+
+        if (!sent) {
+          reject(reason);
+          return;
+        }
 
         this._transport
           ?.send({
@@ -552,7 +1029,15 @@ export abstract class Protocol<
         reject(reason);
       };
 
+      const requestLimiter = UNLIMITED_METHODS.has(request.method) ? undefined : this._requestLimiter;
+      this._startRequest("outgoing", messageId, request.method, requestLimiter !== undefined);
       this._responseHandlers.set(messageId, (response) => {
+        settle();
+        if (response instanceof McpError && response.code === ErrorCode.RequestTimeout) {
+          this._endRequest("outgoing", messageId, "timedout", response);
+        } else {
+          this._endRequest("outgoing", messageId, "finished", response instanceof Error ? response : undefined);
+        }
         if (options?.signal?.aborted) {
           return;
         }
@@ -569,23 +1054,65 @@ export abstract class Protocol<
         }
       });
 
-      options?.signal?.addEventListener("abort", () => {
-        cancel(options?.signal?.reason);
-      });
+      options?.signal?.addEventListener("abort", onAbort);
 
       const timeout = options?.timeout ?? DEFAULT_REQUEST_TIMEOUT_MSEC;
       const timeoutHandler = () => cancel(new McpError(
         ErrorCode.RequestTimeout,
         "Request timed out",
         { timeout }
-      ));
+      ), true);
 
       this._setupTimeout(messageId, timeout, options?.maxTotalTimeout, timeoutHandler, options?.resetTimeoutOnProgress ?? false);
 
-      this._transport.send(jsonrpcRequest, { relatedRequestId, resumptionToken, onresumptiontoken }).catch((error) => {
-        this._cleanupTimeout(messageId);
-        reject(error);
-      });
+      const send = () => {
+        if (!this._transport) {
+          // The connection closed while the request was queued, which has already rejected it
+          return;
+        }
+
+        sent = true;
+        const state = this._outgoingRequests.get(messageId);
+        if (state) {
+          state.queued = false;
+        }
+        this._transport.send(jsonrpcRequest, { relatedRequestId, resumptionToken, onresumptiontoken }).catch((error) => {
+          markSendFailure(error);
+          this._cleanupTimeout(messageId);
+          settle();
+          this._endRequest("outgoing", messageId, "finished", error);
+          reject(error);
+        });
+      };
+
+      if (!requestLimiter) {
+        send();
+        return;
+      }
+
+      requestLimiter.acquire(request.method, { priority: options?.priority, signal: dequeue.signal }).then(
+        (slot) => {
+          if (dequeue.signal.aborted) {
+            // Settled between the slot being granted and this callback running
+            slot();
+            return;
+          }
+
+          release = slot;
+          send();
+        },
+        (error) => {
+          if (!dequeue.signal.aborted) {
+            // The queue is full
+            options?.signal?.removeEventListener("abort", onAbort);
+            this._responseHandlers.delete(messageId);
+            this._progressHandlers.delete(messageId);
+            this._cleanupTimeout(messageId);
+            this._endRequest("outgoing", messageId, "finished", error);
+            reject(error);
+          }
+        },
+      );
     });
   }
 
@@ -607,6 +1134,15 @@ export abstract class Protocol<
     await this._transport.send(jsonrpcNotification, options);
   }
 
+  /**
+   * Adds a middleware that runs before the handlers for incoming requests and notifications.
+   *
+   * Middlewares run in the order they were added, each wrapping the ones added after it and, innermost, the handler.
+   */
+  use(middleware: ProtocolMiddleware<SendRequestT, SendNotificationT, SendResultT>): void {
+    this._middlewares.push(middleware);
+  }
+
   /**
    * Registers a handler to invoke when this protocol object receives a request with the given method.
    *
@@ -0,0 +1,79 @@
+import { z } from "zod";
+import { ErrorCode, McpError } from "../types.js";
+import { getRetryDelay, isTransientError, markSendFailure, retry } from "./retry.js";
+
+describe("retry", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test("should classify timeouts, closed connections and send failures as transient", () => {
+    expect(isTransientError(new McpError(ErrorCode.RequestTimeout, "Request timed out"))).toBe(true);
+    expect(isTransientError(new McpError(ErrorCode.ConnectionClosed, "Connection closed"))).toBe(true);
+    expect(isTransientError(new TypeError("fetch failed"))).toBe(true);
+    expect(isTransientError(new McpError(ErrorCode.InvalidParams, "Invalid params"))).toBe(false);
+    expect(isTransientError(z.object({}).safeParse(null).error)).toBe(false);
+    expect(isTransientError("Cancelled by user")).toBe(false);
+  });
+
+  test("should only classify plain errors as transient if the transport failed to send with them", () => {
+    const sendFailure = new Error("socket hang up");
+    markSendFailure(sendFailure);
+
+    expect(isTransientError(sendFailure)).toBe(true);
+    expect(isTransientError(new Error("Not connected"))).toBe(false);
+    expect(isTransientError(new Error("Request queue is full (10 requests)"))).toBe(false);
+    expect(isTransientError(new Error("Server does not support tools (required for tools/list)"))).toBe(false);
+  });
+
+  test("should back off exponentially up to the maximum delay", () => {
+    const options = { initialRetryDelay: 100, retryDelayGrowFactor: 3, maxRetryDelay: 1000 };
+    expect([1, 2, 3, 4].map((attempt) => getRetryDelay(options, attempt))).toEqual([100, 300, 900, 1000]);
+  });
+
+  test("should retry until an attempt succeeds", async () => {
+    const attempt = jest
+      .fn()
+      .mockRejectedValueOnce(new TypeError("Network error"))
+      .mockRejectedValueOnce(new TypeError("Network error"))
+      .mockResolvedValue("ok");
+
+    const result = retry(attempt, { initialRetryDelay: 100 });
+    await jest.advanceTimersByTimeAsync(100);
+    expect(attempt).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(200);
+
+    await expect(result).resolves.toBe("ok");
+    expect(attempt).toHaveBeenCalledTimes(3);
+  });
+
+  test("should throw the last error once the attempts run out or an error is not retryable", async () => {
+    const exhausted = retry(() => Promise.reject(new TypeError("Network error")), { maxAttempts: 2 });
+    const exhaustedResult = exhausted.catch((error) => error);
+    await jest.advanceTimersByTimeAsync(500);
+    expect(await exhaustedResult).toEqual(new TypeError("Network error"));
+
+    const isRetryable = jest.fn(() => false);
+    const attempt = jest.fn(() => Promise.reject(new Error("Fatal")));
+    await expect(retry(attempt, { isRetryable })).rejects.toThrow("Fatal");
+    expect(attempt).toHaveBeenCalledTimes(1);
+    expect(isRetryable).toHaveBeenCalledWith(new Error("Fatal"), 1);
+  });
+
+  test("should stop waiting for the next attempt when the signal is aborted", async () => {
+    const controller = new AbortController();
+    const attempt = jest.fn(() => Promise.reject(new TypeError("Network error")));
+
+    const result = retry(attempt, {}, controller.signal);
+    await jest.advanceTimersByTimeAsync(100);
+    controller.abort("Cancelled by user");
+
+    await expect(result).rejects.toBe("Cancelled by user");
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,124 @@
+import { ErrorCode, McpError } from "../types.js";
+
+/**
+ * How failed requests are retried.
+ */
+export type RetryOptions = {
+  /**
+   * Maximum number of attempts, including the first one. Default is 3.
+   */
+  maxAttempts?: number;
+
+  /**
+   * Backoff time before the first retry in milliseconds. Default is 500.
+   */
+  initialRetryDelay?: number;
+
+  /**
+   * Maximum backoff time between attempts in milliseconds. Default is 10000 (10 seconds).
+   */
+  maxRetryDelay?: number;
+
+  /**
+   * The factor by which the retry delay increases after each attempt. Default is 2.
+   */
+  retryDelayGrowFactor?: number;
+
+  /**
+   * Decides whether an attempt that failed with the given error is retried. Default is `isTransientError`.
+   *
+   * @param attempt The number of the attempt that failed, starting at 1.
+   */
+  isRetryable?: (error: unknown, attempt: number) => boolean;
+};
+
+export const DEFAULT_RETRY_MAX_ATTEMPTS = 3;
+export const DEFAULT_RETRY_INITIAL_DELAY = 500;
+export const DEFAULT_RETRY_MAX_DELAY = 10000;
+export const DEFAULT_RETRY_DELAY_GROW_FACTOR = 2;
+
+/**
+ * Methods that have no side effects, so repeating them is safe. They are retried without being marked `idempotent`.
+ */
+export const IDEMPOTENT_METHODS: ReadonlySet<string> = new Set([
+  "ping",
+  "completion/complete",
+  "prompts/get",
+  "prompts/list",
+  "resources/list",
+  "resources/read",
+  "resources/templates/list",
+  "tools/list",
+  "roots/list",
+]);
+
+// The errors that transports failed to send requests with
+const sendFailures = new WeakSet<object>();
+
+/**
+ * Records that the transport failed to send a request with the given error, so that `isTransientError` recognizes it.
+ *
+ * @internal
+ */
+export function markSendFailure(error: unknown): void {
+  if (typeof error === "object" && error !== null) {
+    sendFailures.add(error);
+  }
+}
+
+/**
+ * Whether an error is likely to go away by trying again: a timeout, a closed connection, a network error such as the
+ * `TypeError` thrown by `fetch`, or a failure of the transport to send the request.
+ *
+ * Other errors are not transient: error responses from the remote side, invalid results, and errors raised before
+ * the request was sent, such as a missing capability or a full request queue.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof McpError) {
+    return error.code === ErrorCode.RequestTimeout || error.code === ErrorCode.ConnectionClosed;
+  }
+
+  return error instanceof TypeError || (typeof error === "object" && error !== null && sendFailures.has(error));
+}
+
+/**
+ * Calculates the backoff time (in milliseconds) after the given failed attempt, starting at 1.
+ */
+export function getRetryDelay(options: RetryOptions, attempt: number): number {
+  const initialDelay = options.initialRetryDelay ?? DEFAULT_RETRY_INITIAL_DELAY;
+  const growFactor = options.retryDelayGrowFactor ?? DEFAULT_RETRY_DELAY_GROW_FACTOR;
+  const maxDelay = options.maxRetryDelay ?? DEFAULT_RETRY_MAX_DELAY;
+
+  return Math.min(initialDelay * Math.pow(growFactor, attempt - 1), maxDelay);
+}
+
+/**
+ * Makes attempts until one succeeds, an error is not retryable, or the attempts run out, in which case the last error
+ * is thrown. Aborting the signal stops retrying, and rejects with the signal's reason while waiting between attempts.
+ */
+export async function retry<T>(attempt: () => Promise<T>, options: RetryOptions, signal?: AbortSignal): Promise<T> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_RETRY_MAX_ATTEMPTS;
+  const isRetryable = options.isRetryable ?? isTransientError;
+
+  for (let attempts = 1; ; attempts++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      if (attempts >= maxAttempts || signal?.aborted || !isRetryable(error, attempts)) {
+        throw error;
+      }
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, getRetryDelay(options, attempts));
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+}
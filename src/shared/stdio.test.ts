@@ -1,5 +1,14 @@
 import { JSONRPCMessage } from "../types.js";
-import { ReadBuffer } from "./stdio.js";
+import { msgpackCodec } from "./codec.js";
+import {
+  ChunkBuffer,
+  contentLengthFramer,
+  frameMessage,
+  FramingError,
+  lengthPrefixFramer,
+  newlineFramer,
+  ReadBuffer,
+} from "./stdio.js";
 
 const testMessage: JSONRPCMessage = {
   jsonrpc: "2.0",
@@ -33,3 +42,82 @@ test("should be reusable after clearing", () => {
   readBuffer.append(Buffer.from("\n"));
   expect(readBuffer.readMessage()).toEqual(testMessage);
 });
+
+test("should split messages that arrive in pieces without copying every chunk", () => {
+  const readBuffer = new ReadBuffer();
+  const data = Buffer.from(JSON.stringify(testMessage) + "\r\n" + JSON.stringify(testMessage) + "\n");
+
+  for (const byte of data) {
+    readBuffer.append(Buffer.from([byte]));
+  }
+
+  expect(readBuffer.readMessage()).toEqual(testMessage);
+  expect(readBuffer.readMessage()).toEqual(testMessage);
+  expect(readBuffer.readMessage()).toBeNull();
+});
+
+describe("ChunkBuffer", () => {
+  test("should find sequences that span chunks", () => {
+    const buffer = new ChunkBuffer();
+    buffer.append(Buffer.from("ab\r"));
+    expect(buffer.indexOf("\r\n\r\n")).toBe(-1);
+
+    buffer.append(Buffer.from("\n"));
+    buffer.append(Buffer.from("\r"));
+    buffer.append(Buffer.from("\ncd"));
+    expect(buffer.indexOf("\r\n\r\n")).toBe(2);
+
+    expect(buffer.read(4).toString()).toBe("ab\r\n");
+    expect(buffer.peek(3).toString()).toBe("\r\nc");
+    expect(buffer.length).toBe(4);
+  });
+});
+
+describe.each([
+  ["newline", newlineFramer],
+  ["content-length", contentLengthFramer],
+  ["length-prefix", lengthPrefixFramer],
+])("%s framing", (_name, framer) => {
+  test("should round-trip messages split across chunks", () => {
+    const readBuffer = new ReadBuffer({ framer });
+    const data = Buffer.concat([frameMessage(testMessage, { framer }), frameMessage(testMessage, { framer })]);
+
+    readBuffer.append(data.subarray(0, 5));
+    expect(readBuffer.readMessage()).toBeNull();
+    readBuffer.append(data.subarray(5, data.length - 1));
+    expect(readBuffer.readMessage()).toEqual(testMessage);
+    expect(readBuffer.readMessage()).toBeNull();
+    readBuffer.append(data.subarray(data.length - 1));
+    expect(readBuffer.readMessage()).toEqual(testMessage);
+  });
+
+  test("should reject messages larger than the maximum size", () => {
+    const readBuffer = new ReadBuffer({ framer, maxMessageSize: 10 });
+    readBuffer.append(Buffer.from(frameMessage(testMessage, { framer })));
+
+    expect(() => readBuffer.readMessage()).toThrow(FramingError);
+    expect(readBuffer.readMessage()).toBeNull();
+  });
+});
+
+test("should reject oversized messages before they are complete", () => {
+  const readBuffer = new ReadBuffer({ framer: lengthPrefixFramer, maxMessageSize: 1024 });
+  readBuffer.append(Buffer.from([0xff, 0xff, 0xff, 0xff]));
+
+  expect(() => readBuffer.readMessage()).toThrow("exceeds the maximum size");
+});
+
+test("should reject malformed Content-Length headers", () => {
+  const readBuffer = new ReadBuffer({ framer: contentLengthFramer });
+  readBuffer.append(Buffer.from("Content-Type: application/json\r\n\r\n{}"));
+
+  expect(() => readBuffer.readMessage()).toThrow("missing or invalid Content-Length");
+});
+
+test("should carry binary codecs only over binary framings", () => {
+  const readBuffer = new ReadBuffer({ framer: lengthPrefixFramer, codec: msgpackCodec });
+  readBuffer.append(Buffer.from(frameMessage(testMessage, { framer: lengthPrefixFramer, codec: msgpackCodec })));
+
+  expect(readBuffer.readMessage()).toEqual(testMessage);
+  expect(() => new ReadBuffer({ codec: msgpackCodec })).toThrow("requires a text codec");
+});
@@ -1,39 +1,396 @@
-import { JSONRPCMessage, JSONRPCMessageSchema } from "../types.js";
+import type { Writable } from "node:stream";
+import { JSONRPCMessage } from "../types.js";
+import { decodeMessage, jsonCodec, MessageCodec } from "./codec.js";
+
+/**
+ * The default maximum size (in bytes) of a single framed message.
+ */
+const DEFAULT_MAX_MESSAGE_SIZE = 64 * 1024 * 1024;
+
+/**
+ * The maximum size (in bytes) of a `Content-Length` header block.
+ */
+const MAX_HEADER_SIZE = 8 * 1024;
+
+/**
+ * Thrown when a stream cannot be split into messages, e.g. because of a malformed header or a message that exceeds
+ * the maximum size. The position of the next message is unknown afterwards, so the connection should be closed.
+ */
+export class FramingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FramingError";
+  }
+}
+
+/**
+ * A queue of incoming chunks, which are only copied when a frame spans several of them.
+ */
+export class ChunkBuffer {
+  private _chunks: Buffer[] = [];
+  private _length = 0;
+  // How far each searched sequence is known to be absent, so repeated searches only scan new data
+  private _scanned = new Map<string, number>();
+
+  /**
+   * The number of buffered bytes.
+   */
+  get length(): number {
+    return this._length;
+  }
+
+  append(chunk: Buffer): void {
+    if (chunk.length > 0) {
+      this._chunks.push(chunk);
+      this._length += chunk.length;
+    }
+  }
+
+  /**
+   * Returns the offset of the first occurrence of an ASCII sequence, or -1 if it is not buffered yet.
+   */
+  indexOf(sequence: string): number {
+    const needle = Buffer.from(sequence, "latin1");
+    const overlap = needle.length - 1;
+    const start = Math.max(0, (this._scanned.get(sequence) ?? 0) - overlap);
+
+    let offset = 0;
+    // The last bytes before the current chunk, to find occurrences that span chunks
+    let carry = Buffer.alloc(0);
+    for (const chunk of this._chunks) {
+      if (offset + chunk.length > start) {
+        if (carry.length > 0) {
+          const index = Buffer.concat([carry, chunk.subarray(0, overlap)]).indexOf(needle);
+          if (index !== -1 && offset - carry.length + index >= start) {
+            return offset - carry.length + index;
+          }
+        }
+
+        const index = chunk.indexOf(needle, Math.max(0, start - offset));
+        if (index !== -1) {
+          return offset + index;
+        }
+      }
+
+      if (overlap > 0) {
+        carry = chunk.length >= overlap ? chunk.subarray(chunk.length - overlap) : Buffer.concat([carry, chunk]).subarray(-overlap);
+      }
+      offset += chunk.length;
+    }
+
+    this._scanned.set(sequence, this._length);
+    return -1;
+  }
+
+  /**
+   * Returns the first bytes without removing them.
+   */
+  peek(length: number): Buffer {
+    return this._copy(length, false);
+  }
+
+  /**
+   * Removes and returns the first bytes.
+   */
+  read(length: number): Buffer {
+    return this._copy(length, true);
+  }
+
+  clear(): void {
+    this._chunks = [];
+    this._length = 0;
+    this._scanned.clear();
+  }
+
+  private _copy(length: number, consume: boolean): Buffer {
+    if (length > this._length) {
+      throw new RangeError(`Cannot read ${length} bytes from a buffer of ${this._length} bytes`);
+    }
+
+    const parts: Buffer[] = [];
+    let count = 0;
+    for (let remaining = length; remaining > 0; count++) {
+      const chunk = this._chunks[count];
+      const part = chunk.length > remaining ? chunk.subarray(0, remaining) : chunk;
+      parts.push(part);
+      remaining -= part.length;
+    }
+
+    if (consume && count > 0) {
+      const last = this._chunks[count - 1];
+      const rest = last.subarray(parts[count - 1].length);
+      this._chunks = rest.length > 0 ? [rest, ...this._chunks.slice(count)] : this._chunks.slice(count);
+      this._length -= length;
+      for (const [sequence, scanned] of this._scanned) {
+        this._scanned.set(sequence, Math.max(0, scanned - length));
+      }
+    }
+
+    return parts.length === 1 ? parts[0] : Buffer.concat(parts, length);
+  }
+}
+
+/**
+ * Splits a byte stream into messages, and wraps outgoing messages so the other side can do the same.
+ */
+export interface Framer {
+  /**
+   * A short name for the framing, e.g. for logging.
+   */
+  readonly name: string;
+
+  /**
+   * Whether frames can carry arbitrary bytes, as required by binary codecs.
+   */
+  readonly binary: boolean;
+
+  /**
+   * Wraps an encoded message in a frame.
+   */
+  encode(payload: Uint8Array): Uint8Array;
+
+  /**
+   * Removes the next complete frame from the buffer and returns its payload, or returns null if more data is needed.
+   *
+   * Throws a `FramingError` if the data is malformed or the frame is larger than `maxMessageSize`.
+   */
+  decode(buffer: ChunkBuffer, maxMessageSize: number): Uint8Array | null;
+}
+
+function tooLarge(size: number, maxMessageSize: number): FramingError {
+  return new FramingError(`Message of ${size} bytes exceeds the maximum size of ${maxMessageSize} bytes`);
+}
+
+/**
+ * Newline-delimited messages, the default for stdio. Payloads must not contain newlines, so only text codecs can be used.
+ */
+export const newlineFramer: Framer = {
+  name: "newline",
+  binary: false,
+
+  encode(payload) {
+    return Buffer.concat([payload, Buffer.from("\n")]);
+  },
+
+  decode(buffer, maxMessageSize) {
+    const index = buffer.indexOf("\n");
+    if (index === -1) {
+      if (buffer.length > maxMessageSize + 1) {
+        throw tooLarge(buffer.length, maxMessageSize);
+      }
+      return null;
+    }
+
+    const line = buffer.read(index + 1);
+    const end = line.length > 1 && line[line.length - 2] === 0x0d ? line.length - 2 : line.length - 1;
+    if (end > maxMessageSize) {
+      throw tooLarge(end, maxMessageSize);
+    }
+    return line.subarray(0, end);
+  },
+};
+
+/**
+ * LSP-style framing: each message is preceded by a `Content-Length: <bytes>` header and an empty line. Other headers,
+ * such as `Content-Type`, are ignored.
+ */
+export const contentLengthFramer: Framer = {
+  name: "content-length",
+  binary: true,
+
+  encode(payload) {
+    return Buffer.concat([Buffer.from(`Content-Length: ${payload.length}\r\n\r\n`, "ascii"), payload]);
+  },
+
+  decode(buffer, maxMessageSize) {
+    const headerEnd = buffer.indexOf("\r\n\r\n");
+    if (headerEnd === -1) {
+      if (buffer.length > MAX_HEADER_SIZE) {
+        throw new FramingError(`Message header exceeds the maximum size of ${MAX_HEADER_SIZE} bytes`);
+      }
+      return null;
+    }
+
+    let contentLength: number | undefined;
+    for (const line of buffer.peek(headerEnd).toString("ascii").split("\r\n")) {
+      const separator = line.indexOf(":");
+      if (separator !== -1 && line.slice(0, separator).trim().toLowerCase() === "content-length") {
+        const value = line.slice(separator + 1).trim();
+        contentLength = /^\d+$/.test(value) ? Number(value) : NaN;
+      }
+    }
+
+    if (contentLength === undefined || !Number.isSafeInteger(contentLength)) {
+      throw new FramingError("Message header has a missing or invalid Content-Length");
+    }
+    if (contentLength > maxMessageSize) {
+      throw tooLarge(contentLength, maxMessageSize);
+    }
+
+    if (buffer.length < headerEnd + 4 + contentLength) {
+      return null;
+    }
+
+    buffer.read(headerEnd + 4);
+    return buffer.read(contentLength);
+  },
+};
+
+/**
+ * Binary framing: each message is preceded by its length as a 4-byte big-endian unsigned integer.
+ */
+export const lengthPrefixFramer: Framer = {
+  name: "length-prefix",
+  binary: true,
+
+  encode(payload) {
+    const prefix = Buffer.alloc(4);
+    prefix.writeUInt32BE(payload.length);
+    return Buffer.concat([prefix, payload]);
+  },
+
+  decode(buffer, maxMessageSize) {
+    if (buffer.length < 4) {
+      return null;
+    }
+
+    const length = buffer.peek(4).readUInt32BE(0);
+    if (length > maxMessageSize) {
+      throw tooLarge(length, maxMessageSize);
+    }
+
+    if (buffer.length < 4 + length) {
+      return null;
+    }
+
+    buffer.read(4);
+    return buffer.read(length);
+  },
+};
+
+/**
+ * How messages are encoded and framed on a stdio stream.
+ */
+export type StdioFramingOptions = {
+  /**
+   * How messages are separated in the stream. Both sides must use the same framing. Default is `newlineFramer`.
+   */
+  framer?: Framer;
+
+  /**
+   * How messages are encoded. Binary codecs require a binary framing. Default is `jsonCodec`.
+   */
+  codec?: MessageCodec;
+
+  /**
+   * Maximum size (in bytes) of an incoming message. Larger messages fail with a `FramingError`, so a misbehaving peer
+   * cannot exhaust memory. Default is 64 MiB.
+   */
+  maxMessageSize?: number;
+};
+
+function resolveFraming(options?: StdioFramingOptions): { framer: Framer; codec: MessageCodec } {
+  const framer = options?.framer ?? newlineFramer;
+  const codec = options?.codec ?? jsonCodec;
+  if (codec.binary && !framer.binary) {
+    throw new Error(`The ${framer.name} framing requires a text codec, but "${codec.name}" is binary`);
+  }
+  return { framer, codec };
+}
 
 /**
  * Buffers a continuous stdio stream into discrete JSON-RPC messages.
  */
 export class ReadBuffer {
-  private _buffer?: Buffer;
+  private _buffer = new ChunkBuffer();
+  private _framer: Framer;
+  private _codec: MessageCodec;
+  private _maxMessageSize: number;
+
+  constructor(options?: StdioFramingOptions) {
+    ({ framer: this._framer, codec: this._codec } = resolveFraming(options));
+    this._maxMessageSize = options?.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE;
+  }
 
   append(chunk: Buffer): void {
-    this._buffer = this._buffer ? Buffer.concat([this._buffer, chunk]) : chunk;
+    this._buffer.append(chunk);
   }
 
+  /**
+   * Returns the next message, or null if no complete message is buffered.
+   *
+   * A message that cannot be decoded is consumed before the error is thrown, so reading can continue. After a
+   * `FramingError`, the buffer is cleared.
+   */
   readMessage(): JSONRPCMessage | null {
-    if (!this._buffer) {
-      return null;
+    let payload: Uint8Array | null;
+    try {
+      payload = this._framer.decode(this._buffer, this._maxMessageSize);
+    } catch (error) {
+      this.clear();
+      throw error;
     }
 
-    const index = this._buffer.indexOf("\n");
-    if (index === -1) {
+    if (payload === null) {
       return null;
     }
 
-    const line = this._buffer.toString("utf8", 0, index).replace(/\r$/, '');
-    this._buffer = this._buffer.subarray(index + 1);
-    return deserializeMessage(line);
+    const data = this._codec.binary ? payload : Buffer.from(payload.buffer, payload.byteOffset, payload.byteLength).toString("utf8");
+    return decodeMessage(this._codec, data);
   }
 
   clear(): void {
-    this._buffer = undefined;
+    this._buffer.clear();
   }
 }
 
-export function deserializeMessage(line: string): JSONRPCMessage {
-  return JSONRPCMessageSchema.parse(JSON.parse(line));
+/**
+ * Encodes and frames a message for writing to a stdio stream.
+ */
+export function frameMessage(message: JSONRPCMessage, options?: StdioFramingOptions): Uint8Array {
+  const { framer, codec } = resolveFraming(options);
+  const encoded = codec.encode(message);
+  return framer.encode(typeof encoded === "string" ? Buffer.from(encoded, "utf8") : encoded);
+}
+
+/**
+ * Waits for a stream whose buffer is full to drain. Rejects if the stream closes or fails first, or if the signal is
+ * aborted.
+ */
+export function waitForDrain(stream: Writable, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const settle = (error?: unknown) => {
+      stream.off("drain", onDrain);
+      stream.off("close", onClose);
+      stream.off("error", settle);
+      signal?.removeEventListener("abort", onAbort);
+      if (error === undefined) {
+        resolve();
+      } else {
+        reject(error);
+      }
+    };
+    const onDrain = () => settle();
+    const onClose = () => settle(new Error("Stream closed before it drained"));
+    const onAbort = () => settle(signal!.reason);
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+
+    stream.on("drain", onDrain);
+    stream.on("close", onClose);
+    stream.on("error", settle);
+    signal?.addEventListener("abort", onAbort);
+  });
+}
+
+export function deserializeMessage(line: string, codec: MessageCodec = jsonCodec): JSONRPCMessage {
+  return decodeMessage(codec, line);
 }
 
-export function serializeMessage(message: JSONRPCMessage): string {
-  return JSON.stringify(message) + "\n";
+export function serializeMessage(message: JSONRPCMessage, codec: MessageCodec = jsonCodec): string {
+  resolveFraming({ codec });
+  return codec.encode(message) + "\n";
 }
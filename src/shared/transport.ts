@@ -75,4 +75,20 @@ export interface Transport {
    * The session ID generated for this connection.
    */
   sessionId?: string;
+
+  /**
+   * Sets the protocol version negotiated during initialization, for transports that need to include it in their
+   * messages, such as the `MCP-Protocol-Version` header of HTTP transports.
+   */
+  setProtocolVersion?: (version: string) => void;
+
+  /**
+   * Callback for when a transport that reconnects on its own, such as `WebSocketClientTransport`, has opened a new
+   * underlying connection, which the other side sees as a new session.
+   *
+   * Messages sent while reconnecting are held until the returned promise settles, except for the `initialize` request
+   * and `initialized` notification, so that the session can be initialized again first. If the promise rejects, the
+   * transport closes.
+   */
+  onreconnect?: () => Promise<void>;
 }
@@ -0,0 +1,147 @@
+import { InMemoryTransport } from "../inMemory.js";
+import { JSONRPCMessage } from "../types.js";
+import { composeTransport, TransportMiddleware } from "./transportMiddleware.js";
+
+describe("composeTransport", () => {
+  const request: JSONRPCMessage = { jsonrpc: "2.0", id: 1, method: "ping" };
+  let left: InMemoryTransport;
+  let right: InMemoryTransport;
+  let received: JSONRPCMessage[];
+
+  beforeEach(async () => {
+    [left, right] = InMemoryTransport.createLinkedPair();
+    received = [];
+    right.onmessage = (message) => received.push(message);
+    await right.start();
+  });
+
+  it("runs send middlewares in order and receive middlewares in reverse order", async () => {
+    const calls: string[] = [];
+    const record = (name: string): TransportMiddleware => ({
+      async send(message, options, next) {
+        calls.push(`${name}:send`);
+        await next(message, options);
+      },
+      receive(message, extra, next) {
+        calls.push(`${name}:receive`);
+        next(message, extra);
+      },
+    });
+
+    const transport = composeTransport(left, record("outer"), record("inner"));
+    const messages: JSONRPCMessage[] = [];
+    transport.onmessage = (message) => messages.push(message);
+    await transport.start();
+
+    await transport.send(request);
+    await right.send({ jsonrpc: "2.0", id: 1, result: {} });
+
+    expect(calls).toEqual(["outer:send", "inner:send", "inner:receive", "outer:receive"]);
+    expect(received).toEqual([request]);
+    expect(messages).toEqual([{ jsonrpc: "2.0", id: 1, result: {} }]);
+  });
+
+  it("lets middlewares transform and drop messages", async () => {
+    const transport = composeTransport(left, {
+      async send(message, options, next) {
+        if ("method" in message && message.method === "notifications/dropped") {
+          return;
+        }
+        await next({ ...message, method: "renamed" } as JSONRPCMessage, options);
+      },
+    });
+    await transport.start();
+
+    await transport.send({ jsonrpc: "2.0", method: "notifications/dropped" });
+    await transport.send(request);
+
+    expect(received).toEqual([{ jsonrpc: "2.0", id: 1, method: "renamed" }]);
+  });
+
+  it("passes send options and authInfo to middlewares", async () => {
+    const seen: unknown[] = [];
+    const transport = composeTransport(left, {
+      async send(message, options, next) {
+        seen.push(options);
+        await next(message, options);
+      },
+      receive(message, extra, next) {
+        seen.push(extra);
+        next(message, extra);
+      },
+    });
+    const onmessage = jest.fn();
+    transport.onmessage = onmessage;
+    await transport.start();
+
+    const authInfo = { token: "token", clientId: "client", scopes: [] };
+    await transport.send(request, { relatedRequestId: 7 });
+    await right.send(request, { authInfo });
+
+    expect(seen).toEqual([{ relatedRequestId: 7 }, { authInfo }]);
+    expect(onmessage).toHaveBeenCalledWith(request, { authInfo });
+  });
+
+  it("lets middlewares delay incoming messages", async () => {
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const transport = composeTransport(left, {
+      async receive(message, extra, next) {
+        await released;
+        next(message, extra);
+      },
+    });
+    const onmessage = jest.fn();
+    transport.onmessage = onmessage;
+    await transport.start();
+
+    await right.send(request);
+    expect(onmessage).not.toHaveBeenCalled();
+
+    release();
+    await released;
+    await Promise.resolve();
+    expect(onmessage).toHaveBeenCalledWith(request, { authInfo: undefined });
+  });
+
+  it("reports receive middleware errors and rejects on send middleware errors", async () => {
+    const transport = composeTransport(left, {
+      async send() {
+        throw new Error("send failed");
+      },
+      receive() {
+        throw new Error("receive failed");
+      },
+    });
+    const onerror = jest.fn();
+    transport.onerror = onerror;
+    await transport.start();
+
+    await expect(transport.send(request)).rejects.toThrow("send failed");
+    await right.send(request);
+    expect(onerror).toHaveBeenCalledWith(new Error("receive failed"));
+  });
+
+  it("preserves sessionId and close semantics of the inner transport", async () => {
+    left.sessionId = "session-1";
+    const transport = composeTransport(left, {});
+    const onclose = jest.fn();
+    transport.onclose = onclose;
+    await transport.start();
+
+    expect(transport.sessionId).toBe("session-1");
+    await right.close();
+    expect(onclose).toHaveBeenCalledTimes(1);
+  });
+
+  it("passes the negotiated protocol version to the inner transport", () => {
+    const setProtocolVersion = jest.fn();
+    const transport = composeTransport(Object.assign(left, { setProtocolVersion }), {});
+
+    transport.setProtocolVersion?.("2025-06-18");
+
+    expect(setProtocolVersion).toHaveBeenCalledWith("2025-06-18");
+  });
+});
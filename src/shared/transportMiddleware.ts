@@ -0,0 +1,139 @@
+import { JSONRPCMessage } from "../types.js";
+import { AuthInfo } from "./auth.js";
+import { Transport, TransportSendOptions } from "./transport.js";
+
+/**
+ * Extra information delivered alongside an incoming message.
+ */
+export type TransportMessageExtra = { authInfo?: AuthInfo };
+
+/**
+ * Passes an outgoing message on to the next middleware, and eventually to the inner transport.
+ */
+export type SendNext = (message: JSONRPCMessage, options?: TransportSendOptions) => Promise<void>;
+
+/**
+ * Passes an incoming message on to the next middleware, and eventually to `onmessage`.
+ */
+export type ReceiveNext = (message: JSONRPCMessage, extra?: TransportMessageExtra) => void;
+
+/**
+ * Intercepts the messages flowing through a transport created with `composeTransport()`.
+ *
+ * Each hook is given the message and a `next` function. A middleware can observe the message and call `next` unchanged,
+ * transform it by calling `next` with a different message or options, delay it by calling `next` later, or drop it by
+ * not calling `next` at all.
+ */
+export interface TransportMiddleware {
+  /**
+   * Intercepts a message passed to `send()`. Errors thrown or rejected here reject the `send()` call.
+   */
+  send?(message: JSONRPCMessage, options: TransportSendOptions | undefined, next: SendNext): Promise<void>;
+
+  /**
+   * Intercepts a message received by the inner transport. Errors thrown or rejected here are reported to `onerror`.
+   */
+  receive?(message: JSONRPCMessage, extra: TransportMessageExtra | undefined, next: ReceiveNext): void | Promise<void>;
+}
+
+/**
+ * Wraps a transport so that outgoing and incoming messages pass through a chain of middlewares.
+ *
+ * Middlewares are layered like an onion around the inner transport: outgoing messages pass through them in the order given,
+ * and incoming messages in the reverse order, so the first middleware is the one closest to the application.
+ *
+ * The returned transport starts, closes and reports errors exactly as the inner transport does, exposes its `sessionId` and
+ * passes the negotiated protocol version and the `onreconnect` hook on to it.
+ *
+ * Usage example:
+ *
+ * ```typescript
+ * const logging: TransportMiddleware = {
+ *   async send(message, options, next) {
+ *     console.log("->", message);
+ *     await next(message, options);
+ *   },
+ *   receive(message, extra, next) {
+ *     console.log("<-", message);
+ *     next(message, extra);
+ *   },
+ * };
+ *
+ * await client.connect(composeTransport(new StreamableHTTPClientTransport(url), logging));
+ * ```
+ */
+export function composeTransport(inner: Transport, ...middlewares: TransportMiddleware[]): Transport {
+  return new ComposedTransport(inner, middlewares);
+}
+
+class ComposedTransport implements Transport {
+  private _inner: Transport;
+  private _send: SendNext;
+  private _receive: ReceiveNext;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage, extra?: TransportMessageExtra) => void;
+
+  constructor(inner: Transport, middlewares: TransportMiddleware[]) {
+    this._inner = inner;
+
+    this._send = middlewares.reduceRight<SendNext>((next, middleware) => {
+      const send = middleware.send?.bind(middleware);
+      return send ? async (message, options) => send(message, options, next) : next;
+    }, (message, options) => this._inner.send(message, options));
+
+    this._receive = middlewares.reduce<ReceiveNext>((next, middleware) => {
+      const receive = middleware.receive?.bind(middleware);
+      return receive ? (message, extra) => this._invokeReceive(receive, message, extra, next) : next;
+    }, (message, extra) => this.onmessage?.(message, extra));
+
+    this._inner.onmessage = (message, extra) => this._receive(message, extra);
+    this._inner.onerror = (error) => this.onerror?.(error);
+    this._inner.onclose = () => this.onclose?.();
+  }
+
+  get sessionId(): string | undefined {
+    return this._inner.sessionId;
+  }
+
+  setProtocolVersion(version: string): void {
+    this._inner.setProtocolVersion?.(version);
+  }
+
+  get onreconnect(): (() => Promise<void>) | undefined {
+    return this._inner.onreconnect;
+  }
+
+  set onreconnect(onreconnect: (() => Promise<void>) | undefined) {
+    this._inner.onreconnect = onreconnect;
+  }
+
+  start(): Promise<void> {
+    return this._inner.start();
+  }
+
+  close(): Promise<void> {
+    return this._inner.close();
+  }
+
+  send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    return this._send(message, options);
+  }
+
+  private _invokeReceive(
+    receive: NonNullable<TransportMiddleware["receive"]>,
+    message: JSONRPCMessage,
+    extra: TransportMessageExtra | undefined,
+    next: ReceiveNext,
+  ): void {
+    try {
+      const result = receive(message, extra, next);
+      if (result instanceof Promise) {
+        result.catch((error) => this.onerror?.(error as Error));
+      }
+    } catch (error) {
+      this.onerror?.(error as Error);
+    }
+  }
+}
@@ -1,8 +1,15 @@
 import { z, ZodTypeAny } from "zod";
 
-export const LATEST_PROTOCOL_VERSION = "2024-11-05";
+export const LATEST_PROTOCOL_VERSION = "2025-06-18";
+/**
+ * The protocol version to assume for Streamable HTTP requests without an `MCP-Protocol-Version` header, for
+ * compatibility with clients that predate the header.
+ */
+export const DEFAULT_NEGOTIATED_PROTOCOL_VERSION = "2025-03-26";
 export const SUPPORTED_PROTOCOL_VERSIONS = [
   LATEST_PROTOCOL_VERSION,
+  "2025-03-26",
+  "2024-11-05",
   "2024-10-07",
 ];
 
@@ -118,6 +125,9 @@ export enum ErrorCode {
   ConnectionClosed = -32000,
   RequestTimeout = -32001,
 
+  // Returned when the user declines a request, e.g. for sampling, as in the MCP specification's examples
+  UserRejected = -1,
+
   // Standard JSON-RPC error codes
   ParseError = -32700,
   InvalidRequest = -32600,
@@ -193,17 +203,33 @@ export const CancelledNotificationSchema = NotificationSchema.extend({
   }),
 });
 
-/* Initialization */
+/* Base metadata */
 /**
- * Describes the name and version of an MCP implementation.
+ * Base metadata for objects that have a programmatic name and an optional display name.
  */
-export const ImplementationSchema = z
+export const BaseMetadataSchema = z
   .object({
+    /**
+     * Intended for programmatic or logical use, but used as a display name in past specs or fallback (if title isn't present).
+     */
     name: z.string(),
-    version: z.string(),
+    /**
+     * Intended for UI and end-user contexts — optimized to be human-readable and easily understood, even by those unfamiliar with domain-specific terminology.
+     *
+     * If not provided, the name should be used for display (except for Tool, where `annotations.title` should be given precedence over using `name`, if present).
+     */
+    title: z.optional(z.string()),
   })
   .passthrough();
 
+/* Initialization */
+/**
+ * Describes the name and version of an MCP implementation.
+ */
+export const ImplementationSchema = BaseMetadataSchema.extend({
+  version: z.string(),
+});
+
 /**
  * Capabilities a client may support. Known capabilities are defined here, in this schema, but this is not a closed set: any client can define its own, additional capabilities.
  */
@@ -363,6 +389,10 @@ export const ProgressSchema = z
      * Total number of items to process (or total progress required), if known.
      */
     total: z.optional(z.number()),
+    /**
+     * An optional message describing the current progress.
+     */
+    message: z.optional(z.string()),
   })
   .passthrough();
 
@@ -432,64 +462,51 @@ export const BlobResourceContentsSchema = ResourceContentsSchema.extend({
 /**
  * A known resource that the server is capable of reading.
  */
-export const ResourceSchema = z
-  .object({
-    /**
-     * The URI of this resource.
-     */
-    uri: z.string(),
+export const ResourceSchema = BaseMetadataSchema.extend({
+  /**
+   * The URI of this resource.
+   */
+  uri: z.string(),
 
-    /**
-     * A human-readable name for this resource.
-     *
-     * This can be used by clients to populate UI elements.
-     */
-    name: z.string(),
+  /**
+   * A description of what this resource represents.
+   *
+   * This can be used by clients to improve the LLM's understanding of available resources. It can be thought of like a "hint" to the model.
+   */
+  description: z.optional(z.string()),
 
-    /**
-     * A description of what this resource represents.
-     *
-     * This can be used by clients to improve the LLM's understanding of available resources. It can be thought of like a "hint" to the model.
-     */
-    description: z.optional(z.string()),
+  /**
+   * The MIME type of this resource, if known.
+   */
+  mimeType: z.optional(z.string()),
 
-    /**
-     * The MIME type of this resource, if known.
-     */
-    mimeType: z.optional(z.string()),
-  })
-  .passthrough();
+  /**
+   * The size of the raw resource content, in bytes (i.e., before base64 encoding or any tokenization), if known.
+   */
+  size: z.optional(z.number()),
+});
 
 /**
  * A template description for resources available on the server.
  */
-export const ResourceTemplateSchema = z
-  .object({
-    /**
-     * A URI template (according to RFC 6570) that can be used to construct resource URIs.
-     */
-    uriTemplate: z.string(),
-
-    /**
-     * A human-readable name for the type of resource this template refers to.
-     *
-     * This can be used by clients to populate UI elements.
-     */
-    name: z.string(),
+export const ResourceTemplateSchema = BaseMetadataSchema.extend({
+  /**
+   * A URI template (according to RFC 6570) that can be used to construct resource URIs.
+   */
+  uriTemplate: z.string(),
 
-    /**
-     * A description of what this template is for.
-     *
-     * This can be used by clients to improve the LLM's understanding of available resources. It can be thought of like a "hint" to the model.
-     */
-    description: z.optional(z.string()),
+  /**
+   * A description of what this template is for.
+   *
+   * This can be used by clients to improve the LLM's understanding of available resources. It can be thought of like a "hint" to the model.
+   */
+  description: z.optional(z.string()),
 
-    /**
-     * The MIME type for all resources that match this template. This should only be included if all resources matching this template have the same type.
-     */
-    mimeType: z.optional(z.string()),
-  })
-  .passthrough();
+  /**
+   * The MIME type for all resources that match this template. This should only be included if all resources matching this template have the same type.
+   */
+  mimeType: z.optional(z.string()),
+});
 
 /**
  * Sent from the client to request a list of resources the server has.
@@ -593,42 +610,30 @@ export const ResourceUpdatedNotificationSchema = NotificationSchema.extend({
 /**
  * Describes an argument that a prompt can accept.
  */
-export const PromptArgumentSchema = z
-  .object({
-    /**
-     * The name of the argument.
-     */
-    name: z.string(),
-    /**
-     * A human-readable description of the argument.
-     */
-    description: z.optional(z.string()),
-    /**
-     * Whether this argument must be provided.
-     */
-    required: z.optional(z.boolean()),
-  })
-  .passthrough();
+export const PromptArgumentSchema = BaseMetadataSchema.extend({
+  /**
+   * A human-readable description of the argument.
+   */
+  description: z.optional(z.string()),
+  /**
+   * Whether this argument must be provided.
+   */
+  required: z.optional(z.boolean()),
+});
 
 /**
  * A prompt or prompt template that the server offers.
  */
-export const PromptSchema = z
-  .object({
-    /**
-     * The name of the prompt or prompt template.
-     */
-    name: z.string(),
-    /**
-     * An optional description of what this prompt provides
-     */
-    description: z.optional(z.string()),
-    /**
-     * A list of arguments to use for templating the prompt.
-     */
-    arguments: z.optional(z.array(PromptArgumentSchema)),
-  })
-  .passthrough();
+export const PromptSchema = BaseMetadataSchema.extend({
+  /**
+   * An optional description of what this prompt provides
+   */
+  description: z.optional(z.string()),
+  /**
+   * A list of arguments to use for templating the prompt.
+   */
+  arguments: z.optional(z.array(PromptArgumentSchema)),
+});
 
 /**
  * Sent from the client to request a list of prompts and prompt templates the server has.
@@ -718,18 +723,33 @@ export const EmbeddedResourceSchema = z
   })
   .passthrough();
 
+/**
+ * A resource that the server is capable of reading, included in a prompt or tool call result.
+ *
+ * Note: resource links returned by tools are not guaranteed to appear in the results of `resources/list` requests.
+ */
+export const ResourceLinkSchema = ResourceSchema.extend({
+  type: z.literal("resource_link"),
+});
+
+/**
+ * A content block that can be used in prompts and tool results.
+ */
+export const ContentBlockSchema = z.union([
+  TextContentSchema,
+  ImageContentSchema,
+  AudioContentSchema,
+  ResourceLinkSchema,
+  EmbeddedResourceSchema,
+]);
+
 /**
  * Describes a message returned as part of a prompt.
  */
 export const PromptMessageSchema = z
   .object({
     role: z.enum(["user", "assistant"]),
-    content: z.union([
-      TextContentSchema,
-      ImageContentSchema,
-      AudioContentSchema,
-      EmbeddedResourceSchema,
-    ]),
+    content: ContentBlockSchema,
   })
   .passthrough();
 
@@ -753,29 +773,93 @@ export const PromptListChangedNotificationSchema = NotificationSchema.extend({
 
 /* Tools */
 /**
- * Definition for a tool the client can call.
+ * Additional properties describing a Tool to clients.
+ *
+ * NOTE: all properties in ToolAnnotations are **hints**.
+ * They are not guaranteed to provide a faithful description of tool behavior (including descriptive properties like `title`).
+ *
+ * Clients should never make tool use decisions based on ToolAnnotations received from untrusted servers.
  */
-export const ToolSchema = z
+export const ToolAnnotationsSchema = z
   .object({
     /**
-     * The name of the tool.
+     * A human-readable title for the tool.
      */
-    name: z.string(),
+    title: z.optional(z.string()),
+
+    /**
+     * If true, the tool does not modify its environment.
+     *
+     * Default: false
+     */
+    readOnlyHint: z.optional(z.boolean()),
+
     /**
-     * A human-readable description of the tool.
+     * If true, the tool may perform destructive updates to its environment.
+     * If false, the tool performs only additive updates.
+     *
+     * (This property is meaningful only when `readOnlyHint == false`)
+     *
+     * Default: true
      */
-    description: z.optional(z.string()),
+    destructiveHint: z.optional(z.boolean()),
+
     /**
-     * A JSON Schema object defining the expected parameters for the tool.
+     * If true, calling the tool repeatedly with the same arguments will have no additional effect on its environment.
+     *
+     * (This property is meaningful only when `readOnlyHint == false`)
+     *
+     * Default: false
+     */
+    idempotentHint: z.optional(z.boolean()),
+
+    /**
+     * If true, this tool may interact with an "open world" of external entities.
+     * If false, the tool's domain of interaction is closed.
+     * For example, the world of a web search tool is open, whereas that of a memory tool is not.
+     *
+     * Default: true
      */
-    inputSchema: z
+    openWorldHint: z.optional(z.boolean()),
+  })
+  .passthrough();
+
+/**
+ * Definition for a tool the client can call.
+ */
+export const ToolSchema = BaseMetadataSchema.extend({
+  /**
+   * A human-readable description of the tool.
+   */
+  description: z.optional(z.string()),
+  /**
+   * A JSON Schema object defining the expected parameters for the tool.
+   */
+  inputSchema: z
+    .object({
+      type: z.literal("object"),
+      properties: z.optional(z.object({}).passthrough()),
+      required: z.optional(z.array(z.string())),
+    })
+    .passthrough(),
+  /**
+   * An optional JSON Schema object defining the structure of the tool's output returned in
+   * the structuredContent field of a CallToolResult.
+   */
+  outputSchema: z.optional(
+    z
       .object({
         type: z.literal("object"),
         properties: z.optional(z.object({}).passthrough()),
+        required: z.optional(z.array(z.string())),
       })
       .passthrough(),
-  })
-  .passthrough();
+  ),
+  /**
+   * Optional additional tool information.
+   */
+  annotations: z.optional(ToolAnnotationsSchema),
+});
 
 /**
  * Sent from the client to request a list of tools the server has.
@@ -795,9 +879,21 @@ export const ListToolsResultSchema = PaginatedResultSchema.extend({
  * The server's response to a tool call.
  */
 export const CallToolResultSchema = ResultSchema.extend({
-  content: z.array(
-    z.union([TextContentSchema, ImageContentSchema, AudioContentSchema, EmbeddedResourceSchema]),
-  ),
+  /**
+   * A list of content objects that represent the result of the tool call.
+   *
+   * If the Tool does not define an outputSchema, this field MUST be present in the result.
+   * For backwards compatibility, this field is always present, but it may be empty.
+   */
+  content: z.array(ContentBlockSchema).default([]),
+
+  /**
+   * An object containing structured tool output.
+   *
+   * If the Tool defines an outputSchema, this field MUST be present in the result, and contain a JSON object that matches the schema.
+   */
+  structuredContent: z.optional(z.object({}).passthrough()),
+
   isError: z.boolean().default(false).optional(),
 });
 
@@ -1002,6 +1098,10 @@ export const PromptReferenceSchema = z
      * The name of the prompt or prompt template
      */
     name: z.string(),
+    /**
+     * A human-readable title for the prompt.
+     */
+    title: z.optional(z.string()),
   })
   .passthrough();
 
@@ -1027,6 +1127,19 @@ export const CompleteRequestSchema = RequestSchema.extend({
         value: z.string(),
       })
       .passthrough(),
+    /**
+     * Additional, optional context for completions.
+     */
+    context: z.optional(
+      z
+        .object({
+          /**
+           * Previously-resolved variables in a URI template or prompt.
+           */
+          arguments: z.optional(z.record(z.string(), z.string())),
+        })
+        .passthrough(),
+    ),
   }),
 });
 
@@ -1189,6 +1302,9 @@ export type JSONRPCResponse = Infer<typeof JSONRPCResponseSchema>;
 export type JSONRPCError = Infer<typeof JSONRPCErrorSchema>;
 export type JSONRPCMessage = Infer<typeof JSONRPCMessageSchema>;
 
+/* Base metadata */
+export type BaseMetadata = Infer<typeof BaseMetadataSchema>;
+
 /* Empty result */
 export type EmptyResult = Infer<typeof EmptyResultSchema>;
 
@@ -1241,11 +1357,14 @@ export type TextContent = Infer<typeof TextContentSchema>;
 export type ImageContent = Infer<typeof ImageContentSchema>;
 export type AudioContent = Infer<typeof AudioContentSchema>;
 export type EmbeddedResource = Infer<typeof EmbeddedResourceSchema>;
+export type ResourceLink = Infer<typeof ResourceLinkSchema>;
+export type ContentBlock = Infer<typeof ContentBlockSchema>;
 export type PromptMessage = Infer<typeof PromptMessageSchema>;
 export type GetPromptResult = Infer<typeof GetPromptResultSchema>;
 export type PromptListChangedNotification = Infer<typeof PromptListChangedNotificationSchema>;
 
 /* Tools */
+export type ToolAnnotations = Infer<typeof ToolAnnotationsSchema>;
 export type Tool = Infer<typeof ToolSchema>;
 export type ListToolsRequest = Infer<typeof ListToolsRequestSchema>;
 export type ListToolsResult = Infer<typeof ListToolsResultSchema>;
@@ -1260,6 +1379,8 @@ export type SetLevelRequest = Infer<typeof SetLevelRequestSchema>;
 export type LoggingMessageNotification = Infer<typeof LoggingMessageNotificationSchema>;
 
 /* Sampling */
+export type ModelHint = Infer<typeof ModelHintSchema>;
+export type ModelPreferences = Infer<typeof ModelPreferencesSchema>;
 export type SamplingMessage = Infer<typeof SamplingMessageSchema>;
 export type CreateMessageRequest = Infer<typeof CreateMessageRequestSchema>;
 export type CreateMessageResult = Infer<typeof CreateMessageResultSchema>;